@@ -0,0 +1,166 @@
+import { fork } from "child_process";
+import * as _ from "lodash";
+import { IndexerConfig } from "../src/config";
+import { IndexerContext } from "../src/context";
+import models from "../src/models";
+import * as BackfillSegmentModel from "../src/models/logic/backfillSegment";
+import {
+    createBackfill,
+    getProgress,
+    indexSegment,
+    stitchSegments
+} from "../src/worker/backfill";
+
+const USAGE = `Usage:
+  yarn backfill <from> <to> [--processes 4] [--segment-size 1000]
+  yarn backfill [--processes 4]   Resume the unfinished backfill`;
+const PROGRESS_INTERVAL = 10 * 1000;
+
+function parseArgs(args: string[]) {
+    const positionals: number[] = [];
+    let processes = 4;
+    let segmentSize = 1000;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--processes") {
+            processes = parseInt(args[++i], 10);
+        } else if (args[i] === "--segment-size") {
+            segmentSize = parseInt(args[++i], 10);
+        } else {
+            positionals.push(parseInt(args[i], 10));
+        }
+    }
+    if (
+        [...positionals, processes, segmentSize].some(n => !(n >= 0)) ||
+        processes < 1 ||
+        segmentSize < 1 ||
+        (positionals.length !== 0 && positionals.length !== 2)
+    ) {
+        return null;
+    }
+    return { range: positionals, processes, segmentSize };
+}
+
+function forkSegment(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = fork(__filename, ["--segment", id], {
+            // Run the child with ts-node if this file is run with ts-node
+            execArgv: __filename.endsWith(".ts")
+                ? ["-r", "ts-node/register"]
+                : []
+        });
+        child.on("exit", code => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(Error(`The segment ${id} failed with ${code}`));
+            }
+        });
+    });
+}
+
+async function indexSegments(ids: string[], processes: number) {
+    const queue = [...ids];
+    let failed = false;
+    await Promise.all(
+        _.range(processes).map(async () => {
+            while (queue.length > 0 && !failed) {
+                try {
+                    await forkSegment(queue.shift()!);
+                } catch (err) {
+                    failed = true;
+                    throw err;
+                }
+            }
+        })
+    );
+}
+
+async function reportProgress() {
+    const progress = await getProgress();
+    if (progress == null) {
+        return;
+    }
+    const { fromBlockNumber, toBlockNumber, indexed, stitched } = progress;
+    const total = toBlockNumber - fromBlockNumber + 1;
+    console.log(
+        "[%d, %d] indexed: %d/%d (%s%%), stitched: %d/%d (%s%%)",
+        fromBlockNumber,
+        toBlockNumber,
+        indexed,
+        total,
+        ((indexed / total) * 100).toFixed(1),
+        stitched,
+        total,
+        ((stitched / total) * 100).toFixed(1)
+    );
+}
+
+async function main() {
+    const options = require("config") as IndexerConfig;
+    const context = IndexerContext.newInstance(options);
+    const {
+        prefetchCount,
+        finalityDepth,
+        cccCheckpointInterval
+    } = options.worker;
+
+    if (process.argv[2] === "--segment") {
+        await indexSegment(context.source, process.argv[3], { prefetchCount });
+        return;
+    }
+
+    const args = parseArgs(process.argv.slice(2));
+    if (args == null) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+    if (args.range.length === 2) {
+        const [fromBlockNumber, toBlockNumber] = args.range;
+        await createBackfill(context.source, {
+            fromBlockNumber,
+            toBlockNumber,
+            segmentSize: args.segmentSize,
+            finalityDepth
+        });
+    }
+    const segments = (await BackfillSegmentModel.getUnfinishedSegments()).map(
+        i => i.get({ plain: true })
+    );
+    if (segments.length === 0) {
+        console.log("There is no backfill to run");
+        return;
+    }
+
+    await reportProgress();
+    const timer = setInterval(
+        () => reportProgress().catch(console.error),
+        PROGRESS_INTERVAL
+    );
+    try {
+        await indexSegments(
+            segments
+                .filter(s => s.indexedBlockNumber !== s.toBlockNumber)
+                .map(s => s.id!),
+            args.processes
+        );
+        await stitchSegments(context, {
+            prefetchCount,
+            cccCheckpointInterval
+        });
+    } finally {
+        clearInterval(timer);
+    }
+    console.log(
+        "Blocks from %d to %d are backfilled",
+        segments[0].fromBlockNumber,
+        segments[segments.length - 1].toBlockNumber
+    );
+}
+
+main()
+    .catch(err => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => models.sequelize.close());
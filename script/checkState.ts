@@ -0,0 +1,66 @@
+import * as _ from "lodash";
+import {
+    checkState,
+    STATE_CHECK_TARGETS,
+    StateCheckTarget
+} from "../src/checker/state";
+import { IndexerConfig } from "../src/config";
+import { IndexerContext } from "../src/context";
+import models from "../src/models";
+
+const USAGE = `Usage: yarn check-state [<from> <to>] [--targets ${STATE_CHECK_TARGETS.join(
+    ","
+)}] [--sample <size>]`;
+
+function parseArgs(args: string[]) {
+    const positionals: number[] = [];
+    let targets = STATE_CHECK_TARGETS;
+    let sampleSize: number | undefined;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--targets") {
+            targets = (args[++i] || "").split(",") as StateCheckTarget[];
+        } else if (args[i] === "--sample") {
+            sampleSize = parseInt(args[++i], 10);
+        } else {
+            positionals.push(parseInt(args[i], 10));
+        }
+    }
+    if (
+        (positionals.length !== 0 && positionals.length !== 2) ||
+        positionals.some(n => !(n >= 0)) ||
+        (sampleSize !== undefined && !(sampleSize > 0)) ||
+        targets.length === 0 ||
+        _.difference(targets, STATE_CHECK_TARGETS).length > 0
+    ) {
+        return null;
+    }
+    const [fromBlockNumber, toBlockNumber] = positionals;
+    return { fromBlockNumber, toBlockNumber, targets, sampleSize };
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    if (args == null) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+    const options = require("config") as IndexerConfig;
+    const context = IndexerContext.newInstance(options);
+
+    const mismatches = await checkState(context.source, args);
+    for (const mismatch of mismatches) {
+        console.log(JSON.stringify(mismatch));
+    }
+    console.log("%d mismatches found", mismatches.length);
+    if (mismatches.length > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch(err => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => models.sequelize.close());
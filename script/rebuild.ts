@@ -0,0 +1,67 @@
+import * as _ from "lodash";
+import { IndexerConfig } from "../src/config";
+import { IndexerContext } from "../src/context";
+import models from "../src/models";
+import { DERIVED_TABLES, DerivedTable, rebuild } from "../src/worker/rebuild";
+
+const USAGE = `Usage: yarn rebuild <from> <to> [--tables ${DERIVED_TABLES.join(
+    ","
+)}] [--dry-run]`;
+
+function parseArgs(args: string[]) {
+    const positionals: number[] = [];
+    let tables = DERIVED_TABLES;
+    let dryRun = false;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--tables") {
+            tables = (args[++i] || "").split(",") as DerivedTable[];
+        } else if (args[i] === "--dry-run") {
+            dryRun = true;
+        } else {
+            positionals.push(parseInt(args[i], 10));
+        }
+    }
+    if (
+        positionals.length !== 2 ||
+        positionals.some(n => !(n >= 0)) ||
+        tables.length === 0 ||
+        _.difference(tables, DERIVED_TABLES).length > 0
+    ) {
+        return null;
+    }
+    const [fromBlockNumber, toBlockNumber] = positionals;
+    return { fromBlockNumber, toBlockNumber, tables, dryRun };
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    if (args == null) {
+        console.error(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+    const options = require("config") as IndexerConfig;
+    const context = IndexerContext.newInstance(options);
+
+    const diffs = await rebuild(context, args);
+    for (const { table, removed, added } of diffs) {
+        console.log(
+            "%s: %d removed, %d added",
+            table,
+            removed.length,
+            added.length
+        );
+        if (args.dryRun) {
+            removed.forEach(row => console.log(`- ${JSON.stringify(row)}`));
+            added.forEach(row => console.log(`+ ${JSON.stringify(row)}`));
+        }
+    }
+    console.log(args.dryRun ? "Nothing is changed (dry run)" : "Rebuilt");
+}
+
+main()
+    .catch(err => {
+        console.error(err);
+        process.exitCode = 1;
+    })
+    .finally(() => models.sequelize.close());
@@ -1,11 +1,17 @@
 import * as cors from "cors";
 import * as express from "express";
+import { measureHttp } from "./metrics";
 import * as AccountHandler from "./routers/account";
 import * as AssetHandler from "./routers/asset";
 import * as BlockHandler from "./routers/block";
+import * as CheckerHandler from "./routers/checker";
+import * as EventHandler from "./routers/event";
+import * as GraphQLHandler from "./routers/graphql";
 import * as LogHandler from "./routers/log";
+import * as ReorgHandler from "./routers/reorg";
 import * as StatusHandler from "./routers/status";
 import * as TxHandler from "./routers/transaction";
+import * as WebhookHandler from "./routers/webhook";
 
 import { IndexerContext } from "./context";
 
@@ -17,6 +23,7 @@ const corsOptions = {
 
 export function createApiRouter(context: IndexerContext, useCors = false) {
     const router = express.Router();
+    router.use(measureHttp);
 
     if (useCors) {
         router.options("*", cors(corsOptions)).use(cors(corsOptions));
@@ -28,6 +35,11 @@ export function createApiRouter(context: IndexerContext, useCors = false) {
     AssetHandler.handle(context, router);
     AccountHandler.handle(context, router);
     LogHandler.handle(context, router);
+    ReorgHandler.handle(context, router);
+    CheckerHandler.handle(context, router);
+    GraphQLHandler.handle(context, router);
+    EventHandler.handle(context, router);
+    WebhookHandler.handle(context, router);
 
     return router;
 }
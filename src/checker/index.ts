@@ -1,41 +1,95 @@
-import { SDK } from "codechain-sdk";
+import BigNumber from "bignumber.js";
+import * as _ from "lodash";
+import { scheduleJob } from "node-schedule";
 import { IndexerConfig } from "../config";
 import * as BlockModel from "../models/logic/block";
 import * as CCCChangeModel from "../models/logic/cccChange";
-import { createEmail, Email } from "./email";
-import { createSlack, Slack } from "./slack";
+import * as CheckerCursorModel from "../models/logic/checkerCursor";
+import * as CheckerFindingModel from "../models/logic/checkerFinding";
+import { createNotifier, Notifier } from "../notifier";
+import { ChainSource } from "../source";
+import { rebuild } from "../worker/rebuild";
+import {
+    checkKey,
+    checkState,
+    STATE_CHECK_TARGETS,
+    StateCheckTarget,
+    StateMismatch
+} from "./state";
 
-export async function run(sdk: SDK, options: IndexerConfig) {
+export async function run(
+    source: ChainSource,
+    options: IndexerConfig,
+    isStopped: () => boolean = () => false
+) {
     console.log("Start to check CCCChanges");
-    const prevBlockInstance = await BlockModel.getLatestBlock();
-    let lastCheckedBlockNumber: number | "NotExist";
-
-    const email = createEmail({
-        tag: `[${options.codechain.networkId}][indexer-cccchanges-checker]`,
-        sendgridApiKey: process.env.SENDGRID_API_KEY,
-        to: process.env.SENDGRID_TO
-    });
 
-    const slack = createSlack(
-        `[${options.codechain.networkId}][indexer-cccchanges-checker]`,
-        process.env.SLACK_WEBHOOK
+    const notifier = createNotifier(
+        options.notifier,
+        `[${options.codechain.networkId}][indexer-cccchanges-checker]`
     );
 
-    if (prevBlockInstance) {
-        lastCheckedBlockNumber = prevBlockInstance.get({ plain: true }).number;
-    } else {
-        lastCheckedBlockNumber = "NotExist";
+    // Resumes from the block that is checked before the restart. It starts
+    // from the latest indexed block on the first run.
+    let lastCheckedBlockNumber = await CheckerCursorModel.getCursor(
+        CheckerCursorModel.CCC_CHANGES_CURSOR_NAME
+    );
+    if (lastCheckedBlockNumber == null) {
+        const prevBlockInstance = await BlockModel.getLatestBlock();
+        if (prevBlockInstance) {
+            lastCheckedBlockNumber = prevBlockInstance.get({ plain: true })
+                .number;
+        }
     }
+
+    let checkingState = false;
+    const stateCheckJob = scheduleJob(
+        options.checker.stateSchedule,
+        async () => {
+            if (checkingState) {
+                return;
+            }
+            checkingState = true;
+            try {
+                await resolveStateFindings(source);
+                const mismatches = await checkState(source, {
+                    targets: STATE_CHECK_TARGETS,
+                    sampleSize: options.checker.stateSampleSize
+                });
+                for (const mismatch of mismatches) {
+                    await CheckerFindingModel.recordFinding({
+                        target: mismatch.target,
+                        key: mismatch.key,
+                        blockNumber: mismatch.blockNumber,
+                        expected: mismatch.chain,
+                        actual: mismatch.indexed
+                    });
+                }
+                if (mismatches.length > 0) {
+                    sendStateAlarm(mismatches, notifier);
+                }
+            } catch (err) {
+                console.error("state check error: ", err);
+            } finally {
+                checkingState = false;
+            }
+        }
+    );
+
     for (;;) {
         await new Promise(resolve => setTimeout(resolve, 5 * 1000));
-        if (lastCheckedBlockNumber === "NotExist") {
+        if (isStopped()) {
+            stateCheckJob.cancel();
+            console.log("Stop checking CCCChanges");
+            return;
+        }
+        if (lastCheckedBlockNumber == null) {
+            // The genesis block has nothing to compare with
             const blockInstance = await BlockModel.getByNumber(0);
-            if (blockInstance === null) {
-                continue;
-            } else {
-                lastCheckedBlockNumber = -1;
-                continue;
+            if (blockInstance !== null) {
+                lastCheckedBlockNumber = 0;
             }
+            continue;
         }
 
         const latestBlock = (await BlockModel.getLatestBlock())!;
@@ -43,11 +97,31 @@ export async function run(sdk: SDK, options: IndexerConfig) {
 
         const checkFrom = lastCheckedBlockNumber + 1;
         const checkTo = latestBlockNumber - 1;
-        if (checkTo > checkFrom) {
-            await checkBlocks(checkFrom, checkTo, sdk, email, slack);
+        if (checkTo >= checkFrom) {
+            await checkBlocks(checkFrom, checkTo, source, options, notifier);
             lastCheckedBlockNumber = checkTo;
-        } else {
-            continue;
+            await CheckerCursorModel.setCursor(
+                CheckerCursorModel.CCC_CHANGES_CURSOR_NAME,
+                lastCheckedBlockNumber
+            );
+        }
+    }
+}
+
+// Resolves the findings of the rows that match the chain now
+async function resolveStateFindings(source: ChainSource) {
+    const findings = await CheckerFindingModel.getUnresolvedFindings(
+        STATE_CHECK_TARGETS
+    );
+    for (const findingInst of findings) {
+        const { id, target, key } = findingInst.get({ plain: true });
+        const mismatch = await checkKey(
+            source,
+            target as StateCheckTarget,
+            key
+        );
+        if (mismatch == null) {
+            await CheckerFindingModel.resolveFinding(id!);
         }
     }
 }
@@ -55,85 +129,161 @@ export async function run(sdk: SDK, options: IndexerConfig) {
 async function checkBlocks(
     fromBlockNumber: number,
     toBlockNumber: number,
-    sdk: SDK,
-    email: Email,
-    slack: Slack
+    source: ChainSource,
+    options: IndexerConfig,
+    notifier: Notifier
 ) {
-    if (fromBlockNumber >= toBlockNumber) {
-        throw new Error(
-            `Invalid fromBlockNumber(${fromBlockNumber}) and toBlockNumber(${toBlockNumber})`
-        );
+    for (
+        let blockNumber = Math.max(fromBlockNumber, 1);
+        blockNumber <= toBlockNumber;
+        blockNumber++
+    ) {
+        const mismatches = await findCCCChangeMismatches(source, blockNumber);
+        if (mismatches.length === 0) {
+            continue;
+        }
+        const findingIds = new Map<string, string>();
+        for (const mismatch of mismatches) {
+            const findingInst = await CheckerFindingModel.recordFinding({
+                target: "cccChanges",
+                key: mismatch.address,
+                blockNumber,
+                expected: {
+                    change: mismatch.expected.toString(10),
+                    beforeBalance: mismatch.beforeBalance.toString(10),
+                    afterBalance: mismatch.afterBalance.toString(10)
+                },
+                actual: { change: mismatch.actual.toString(10) }
+            });
+            findingIds.set(mismatch.address, findingInst.get("id")!);
+            sendAlarm({ ...mismatch, notifier });
+        }
+        if (options.checker.autoRepair) {
+            await repairBlock(source, notifier, blockNumber, findingIds);
+        }
     }
+}
 
-    let beforeBlockNumber = fromBlockNumber;
-    let afterBlockNumber = fromBlockNumber + 1;
-
-    for (;;) {
-        const cccChanges = (await CCCChangeModel.getByBlockNumber(
-            afterBlockNumber
-        )).map(instance => instance.get({ plain: true }));
-
-        const balanceChangeMap: Map<string, number> = new Map();
-        cccChanges.forEach(cccChange => {
-            /// Total CCC does not exceed Number.MAX_SAFE_INTEGER;
-            const change = parseInt(cccChange.change, 10);
-            const address = cccChange.address;
-
-            if (balanceChangeMap.has(cccChange.address)) {
-                balanceChangeMap.set(
-                    address,
-                    balanceChangeMap.get(address)! + change
-                );
-            } else {
-                balanceChangeMap.set(address, change);
+/**
+ * Rebuilds the CCCChanges and the Accounts of the block and checks the block
+ * again. The findings of the addresses that match after rebuilding are
+ * resolved.
+ */
+async function repairBlock(
+    source: ChainSource,
+    notifier: Notifier,
+    blockNumber: number,
+    findingIds: Map<string, string>
+) {
+    try {
+        await rebuild(
+            { source, notifier },
+            {
+                fromBlockNumber: blockNumber,
+                toBlockNumber: blockNumber,
+                tables: ["CCCChanges", "Accounts"],
+                dryRun: false
             }
-        });
-
-        const promises = Array.from(balanceChangeMap).map(
-            async ([address, change]) => {
-                const beforeBalanceUInt = await sdk.rpc.chain.getBalance(
-                    address,
-                    beforeBlockNumber
-                );
-                const afterBalanceUInt = await sdk.rpc.chain.getBalance(
-                    address,
-                    afterBlockNumber
-                );
-
-                const beforeBalance = parseInt(
-                    beforeBalanceUInt.toString(10),
-                    10
-                );
-                const afterBalance = parseInt(
-                    afterBalanceUInt.toString(10),
-                    10
-                );
-                const expected = afterBalance - beforeBalance;
-                const actual = change;
-
-                if (actual !== expected) {
-                    sendAlarm({
-                        address,
-                        beforeBlockNumber,
-                        afterBlockNumber,
-                        beforeBalance,
-                        afterBalance,
-                        actual,
-                        expected,
-                        email,
-                        slack
-                    });
-                }
+        );
+        const remaining = (await findCCCChangeMismatches(
+            source,
+            blockNumber
+        )).map(({ address }) => address);
+        for (const [address, id] of findingIds) {
+            if (!_.includes(remaining, address)) {
+                await CheckerFindingModel.resolveFinding(id);
             }
+        }
+        if (remaining.length > 0) {
+            notifier.sendError(
+                `Block ${blockNumber} is rebuilt but the CCCChanges of ${remaining.join(
+                    ", "
+                )} still mismatch`
+            );
+        } else {
+            console.log(`Block ${blockNumber} is repaired`);
+        }
+    } catch (err) {
+        console.error(`Failed to repair block ${blockNumber}: `, err);
+        notifier.sendError(
+            `Failed to repair block ${blockNumber}: ${err && err.message}`
         );
+    }
+}
 
-        await Promise.all(promises);
-        if (afterBlockNumber === toBlockNumber) {
-            return;
+interface CCCChangeMismatch {
+    address: string;
+    beforeBlockNumber: number;
+    afterBlockNumber: number;
+    actual: BigNumber;
+    expected: BigNumber;
+    beforeBalance: BigNumber;
+    afterBalance: BigNumber;
+}
+
+/**
+ * Compares the sum of the CCCChanges of each address in the block with the
+ * difference of its balances at the block and the previous one.
+ */
+export async function findCCCChangeMismatches(
+    source: ChainSource,
+    blockNumber: number
+): Promise<CCCChangeMismatch[]> {
+    const beforeBlockNumber = blockNumber - 1;
+    const afterBlockNumber = blockNumber;
+    const cccChanges = (await CCCChangeModel.getByBlockNumber(
+        afterBlockNumber
+    )).map(instance => instance.get({ plain: true }));
+
+    const balanceChangeMap: Map<string, BigNumber> = new Map();
+    cccChanges.forEach(cccChange => {
+        // A change can be negative, which U64 can't represent
+        const change = new BigNumber(cccChange.change);
+        const address = cccChange.address;
+
+        if (balanceChangeMap.has(cccChange.address)) {
+            balanceChangeMap.set(
+                address,
+                balanceChangeMap.get(address)!.plus(change)
+            );
+        } else {
+            balanceChangeMap.set(address, change);
         }
-        beforeBlockNumber += 1;
-        afterBlockNumber += 1;
-    }
+    });
+
+    const results = await Promise.all(
+        Array.from(balanceChangeMap).map(async ([address, change]) => {
+            const beforeBalanceUInt = await source.getBalance(
+                address,
+                beforeBlockNumber
+            );
+            const afterBalanceUInt = await source.getBalance(
+                address,
+                afterBlockNumber
+            );
+
+            const beforeBalance = new BigNumber(beforeBalanceUInt.toString(10));
+            const afterBalance = new BigNumber(afterBalanceUInt.toString(10));
+            const expected = afterBalance.minus(beforeBalance);
+            const actual = change;
+
+            if (actual.isEqualTo(expected)) {
+                return null;
+            }
+            return {
+                address,
+                beforeBlockNumber,
+                afterBlockNumber,
+                beforeBalance,
+                afterBalance,
+                actual,
+                expected
+            };
+        })
+    );
+    return results.filter(
+        (result): result is CCCChangeMismatch => result != null
+    );
 }
 
 function sendAlarm({
@@ -144,20 +294,17 @@ function sendAlarm({
     expected,
     beforeBalance,
     afterBalance,
-    email,
-    slack
+    notifier
 }: {
     address: string;
     beforeBlockNumber: number;
     afterBlockNumber: number;
-    actual: number;
-    expected: number;
-    beforeBalance: number;
-    afterBalance: number;
-    email: Email;
-    slack: Slack;
+    actual: BigNumber;
+    expected: BigNumber;
+    beforeBalance: BigNumber;
+    afterBalance: BigNumber;
+    notifier: Notifier;
 }) {
-    /// TODO Send an email.
     const firstLine = "Mismatch found";
     console.group(firstLine);
 
@@ -173,12 +320,23 @@ function sendAlarm({
     });
     console.groupEnd();
 
-    email.sendError(`
-    <p>${firstLine}</p>
-    <ul>
-    ${lines.map(line => `<li>${line}</li>`).join("\n")}
-    </ul>
-    `);
+    notifier.sendError([firstLine, ...lines].join("\n"));
+}
+
+function sendStateAlarm(mismatches: StateMismatch[], notifier: Notifier) {
+    const firstLine = `${mismatches.length} state mismatches found`;
+    console.group(firstLine);
+
+    const lines = mismatches.map(
+        ({ target, key, blockNumber, indexed, chain }) =>
+            `${target} ${key} at ${blockNumber}: indexed ${JSON.stringify(
+                indexed
+            )}, chain ${JSON.stringify(chain)}`
+    );
+    lines.forEach(line => {
+        console.error(line);
+    });
+    console.groupEnd();
 
-    slack.sendError([firstLine, ...lines].join("\n"));
+    notifier.sendError([firstLine, ...lines].join("\n"));
 }
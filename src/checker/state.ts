@@ -0,0 +1,293 @@
+import { H160, H256, U64 } from "codechain-primitives";
+import * as _ from "lodash";
+import * as Sequelize from "sequelize";
+import models from "../models";
+import * as BlockModel from "../models/logic/block";
+import { ChainSource } from "../source";
+
+export type StateCheckTarget = "accounts" | "utxos" | "assetSchemes";
+
+export const STATE_CHECK_TARGETS: StateCheckTarget[] = [
+    "accounts",
+    "utxos",
+    "assetSchemes"
+];
+
+// The comparisons of a row while the indexed height changes
+const MAX_COMPARE_ATTEMPTS = 3;
+
+export interface StateMismatch {
+    target: StateCheckTarget;
+    // The address, "tracker:outputIndex" or the asset type
+    key: string;
+    blockNumber: number;
+    indexed: object;
+    // null if the chain doesn't have it
+    chain: object | null;
+}
+
+export interface StateCheckParams {
+    targets: StateCheckTarget[];
+    // Checks only the rows that the blocks in the range affect
+    fromBlockNumber?: number;
+    toBlockNumber?: number;
+    // Checks this many random rows of each target instead of all
+    sampleSize?: number;
+}
+
+/**
+ * Compares Account.balance and seq, unspent UTXO rows and AssetScheme.supply
+ * with the state of the chain at the indexed height.
+ */
+export async function checkState(
+    source: ChainSource,
+    params: StateCheckParams
+): Promise<StateMismatch[]> {
+    const mismatches: StateMismatch[] = [];
+    for (const target of params.targets) {
+        const keys = await selectKeys(target, params);
+        for (const key of keys) {
+            const mismatch = await checkKey(source, target, key);
+            if (mismatch != null) {
+                mismatches.push(mismatch);
+            }
+        }
+    }
+    return mismatches;
+}
+
+/**
+ * Compares a row with the chain at the indexed height. It returns null if the
+ * row matches.
+ */
+export function checkKey(
+    source: ChainSource,
+    target: StateCheckTarget,
+    key: string
+): Promise<StateMismatch | null> {
+    return compareAtIndexedHeight(blockNumber =>
+        compare(source, target, key, blockNumber)
+    );
+}
+
+async function getIndexedHeight(): Promise<number> {
+    const latestBlockInst = await BlockModel.getLatestBlock();
+    return latestBlockInst ? latestBlockInst.get("number") : -1;
+}
+
+// The worker may index blocks while checking. A mismatch is reported only if
+// the indexed height doesn't change during the comparison, or with the height
+// of the last attempt while the worker keeps indexing.
+async function compareAtIndexedHeight(
+    f: (blockNumber: number) => Promise<StateMismatch | null>
+): Promise<StateMismatch | null> {
+    for (let attempt = 1; ; attempt++) {
+        const blockNumber = await getIndexedHeight();
+        const mismatch = await f(blockNumber);
+        if (
+            mismatch == null ||
+            attempt >= MAX_COMPARE_ATTEMPTS ||
+            (await getIndexedHeight()) === blockNumber
+        ) {
+            return mismatch;
+        }
+    }
+}
+
+function compare(
+    source: ChainSource,
+    target: StateCheckTarget,
+    key: string,
+    blockNumber: number
+): Promise<StateMismatch | null> {
+    switch (target) {
+        case "accounts":
+            return compareAccount(source, key, blockNumber);
+        case "utxos":
+            return compareUTXO(source, key, blockNumber);
+        case "assetSchemes":
+            return compareAssetScheme(source, key, blockNumber);
+    }
+}
+
+async function compareAccount(
+    source: ChainSource,
+    address: string,
+    blockNumber: number
+): Promise<StateMismatch | null> {
+    const accountInst = await models.Account.findByPk(address);
+    if (accountInst == null) {
+        return null;
+    }
+    const { balance, seq } = accountInst.get({ plain: true });
+    const chainBalance = await source.getBalance(address, blockNumber);
+    const chainSeq = await source.getSeq(address, blockNumber);
+    if (new U64(balance).isEqualTo(chainBalance) && seq === chainSeq) {
+        return null;
+    }
+    return {
+        target: "accounts",
+        key: address,
+        blockNumber,
+        indexed: { balance, seq },
+        chain: { balance: chainBalance.toString(10), seq: chainSeq }
+    };
+}
+
+async function compareUTXO(
+    source: ChainSource,
+    key: string,
+    blockNumber: number
+): Promise<StateMismatch | null> {
+    const [tracker, outputIndex] = key.split(":");
+    const utxoInst = await models.UTXO.findOne({
+        where: {
+            transactionTracker: tracker,
+            transactionOutputIndex: parseInt(outputIndex, 10),
+            usedTransactionHash: null
+        }
+    });
+    // Spent after it is selected
+    if (utxoInst == null) {
+        return null;
+    }
+    const utxo = utxoInst.get({ plain: true });
+    const indexed = {
+        assetType: utxo.assetType,
+        shardId: utxo.shardId,
+        lockScriptHash: utxo.lockScriptHash,
+        parameters: utxo.parameters,
+        quantity: utxo.quantity
+    };
+    const asset = await source.getAsset(
+        new H256(tracker),
+        utxo.transactionOutputIndex,
+        utxo.shardId,
+        blockNumber
+    );
+    if (asset == null) {
+        return { target: "utxos", key, blockNumber, indexed, chain: null };
+    }
+    const chain = {
+        assetType: asset.assetType.value,
+        shardId: asset.shardId,
+        lockScriptHash: asset.lockScriptHash.value,
+        parameters: asset.parameters.map(p => p.toString("hex")),
+        quantity: asset.quantity.toString(10)
+    };
+    if (
+        new U64(utxo.quantity).isEqualTo(asset.quantity) &&
+        _.isEqual(_.omit(indexed, "quantity"), _.omit(chain, "quantity"))
+    ) {
+        return null;
+    }
+    return { target: "utxos", key, blockNumber, indexed, chain };
+}
+
+async function compareAssetScheme(
+    source: ChainSource,
+    assetType: string,
+    blockNumber: number
+): Promise<StateMismatch | null> {
+    const schemeInst = await models.AssetScheme.findByPk(assetType);
+    if (schemeInst == null) {
+        return null;
+    }
+    const { supply, shardId } = schemeInst.get({ plain: true });
+    const scheme = await source.getAssetScheme(
+        new H160(assetType),
+        shardId,
+        blockNumber
+    );
+    const indexed = { supply };
+    if (scheme == null) {
+        return {
+            target: "assetSchemes",
+            key: assetType,
+            blockNumber,
+            indexed,
+            chain: null
+        };
+    }
+    if (supply != null && new U64(supply).isEqualTo(scheme.supply)) {
+        return null;
+    }
+    return {
+        target: "assetSchemes",
+        key: assetType,
+        blockNumber,
+        indexed,
+        chain: { supply: scheme.supply.toString(10) }
+    };
+}
+
+async function selectKeys(
+    target: StateCheckTarget,
+    params: StateCheckParams
+): Promise<string[]> {
+    const { fromBlockNumber, toBlockNumber, sampleSize } = params;
+    const inRange =
+        fromBlockNumber != null && toBlockNumber != null
+            ? {
+                  [Sequelize.Op.between]: [fromBlockNumber, toBlockNumber]
+              }
+            : null;
+    const sampling =
+        sampleSize != null
+            ? { order: [Sequelize.fn("RANDOM")], limit: sampleSize }
+            : {};
+    switch (target) {
+        case "accounts": {
+            // The balances change by CCCChanges and the seqs by transactions
+            const addresses = inRange
+                ? _.uniq([
+                      ...(await models.CCCChange.findAll({
+                          attributes: ["address"],
+                          where: { blockNumber: inRange }
+                      })).map(i => i.get("address")),
+                      ...(await models.Transaction.findAll({
+                          attributes: ["signer"],
+                          where: { blockNumber: inRange }
+                      })).map(i => i.get("signer"))
+                  ])
+                : null;
+            return models.Account.findAll({
+                attributes: ["address"],
+                where: addresses ? { address: addresses } : {},
+                ...sampling
+            }).then(instances => instances.map(i => i.get("address")));
+        }
+        case "utxos": {
+            return models.UTXO.findAll({
+                attributes: ["transactionTracker", "transactionOutputIndex"],
+                where: {
+                    usedTransactionHash: null,
+                    ...(inRange ? { blockNumber: inRange } : {})
+                },
+                ...sampling
+            }).then(instances =>
+                instances.map(
+                    i =>
+                        `${i.get("transactionTracker")}:${i.get(
+                            "transactionOutputIndex"
+                        )}`
+                )
+            );
+        }
+        case "assetSchemes": {
+            const assetTypes = inRange
+                ? _.uniq(
+                      (await models.AssetTypeLog.findAll({
+                          attributes: ["assetType"],
+                          where: { blockNumber: inRange }
+                      })).map(i => i.get("assetType"))
+                  )
+                : null;
+            return models.AssetScheme.findAll({
+                attributes: ["assetType"],
+                where: assetTypes ? { assetType: assetTypes } : {},
+                ...sampling
+            }).then(instances => instances.map(i => i.get("assetType")));
+        }
+    }
+}
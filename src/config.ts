@@ -1,12 +1,27 @@
 import * as pg from "pg";
+import { RichListConfig } from "./models/logic/richList";
+import { NotifierConfig } from "./notifier";
+import { WebhookConfig } from "./webhook";
+import { SyncAlertConfig } from "./worker/alert";
+
+// "all" runs the API, the worker and the checker if ENABLE_CCC_CHANGES_CHECK
+// is set. The other roles run only the one. Every role serves /metrics.
+export type ProcessRole = "all" | "api" | "worker" | "checker";
 
 export interface IndexerConfig {
     version: number;
+    role: ProcessRole;
     publicAddress: string;
     httpPort: number;
+    // Milliseconds to wait for the graceful shutdown before exiting anyway
+    shutdownTimeout: number;
     codechain: {
         host: string;
         networkId: "cc" | "tc" | "sc" | "wc";
+        // Serve the chain from an NDJSON file instead of the node.
+        replayFile?: string;
+        // Append every RPC response from the node to an NDJSON file.
+        recordFile?: string;
     };
     pg: pg.ConnectionConfig;
     sequelize: {
@@ -15,5 +30,45 @@ export interface IndexerConfig {
     };
     worker: {
         watchSchedule: string;
+        prefetchCount: number;
+        // null to disable it
+        finalityDepth: number | null;
+        leaseTtl: number;
+        // Set a rule to null to disable it
+        alerts: SyncAlertConfig;
+        // Blocks between the CCC balance checkpoints. 0 disables them.
+        cccCheckpointInterval: number;
+    };
+    checker: {
+        // The schedule to check random rows against the state of the chain
+        stateSchedule: string;
+        stateSampleSize: number;
+        // Rebuilds the CCCChanges and the Accounts of a block with a mismatch
+        autoRepair: boolean;
+    };
+    notifier: NotifierConfig;
+    graphql: {
+        // The maximum depth of the fields in a query
+        maxDepth: number;
+        // The maximum number of the fields that a query may load
+        maxCost: number;
+    };
+    webhook: WebhookConfig;
+    richList: RichListConfig;
+    events: {
+        // Seconds between the comments that keep an idle stream open
+        heartbeatInterval: number;
+        // The most blocks that a client may resume from behind the latest
+        maxReplayBlocks: number;
     };
+    // Serve these networks instead of the one of codechain. Each network is
+    // indexed by a child process with the configuration overridden.
+    networks?: NetworkConfig[];
+}
+
+export interface NetworkConfig {
+    codechain: IndexerConfig["codechain"];
+    // The database of the network
+    pg: pg.ConnectionConfig;
+    worker?: Partial<IndexerConfig["worker"]>;
 }
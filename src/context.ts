@@ -1,7 +1,16 @@
 import { SDK } from "codechain-sdk";
-import { createSlack, Slack } from "./checker/slack";
 import { IndexerConfig } from "./config";
+import { EventListener } from "./events/listener";
+import { instrumentRpc } from "./metrics";
 import models from "./models";
+import { createNotifier, Notifier } from "./notifier";
+import {
+    ChainSource,
+    recordRpcResponses,
+    ReplayChainSource,
+    SDKChainSource
+} from "./source";
+import { WebhookDispatcher } from "./webhook";
 import Worker from "./worker";
 
 export class IndexerContext {
@@ -9,26 +18,41 @@ export class IndexerContext {
         return new IndexerContext(options);
     }
     public sdk: SDK;
+    public source: ChainSource;
     public worker: Worker;
-    public slack: Slack;
+    public notifier: Notifier;
+    public events: EventListener;
+    public webhooks: WebhookDispatcher;
 
     private constructor(public readonly options: IndexerConfig) {
-        this.sdk = new SDK({
-            server: options.codechain.host,
-            networkId: options.codechain.networkId
-        });
-        this.slack = createSlack(
-            `[${options.codechain.networkId}][indexer]`,
-            process.env.SLACK_WEBHOOK
+        const { host, networkId, replayFile, recordFile } = options.codechain;
+        if (replayFile) {
+            const source = new ReplayChainSource(replayFile, networkId);
+            this.sdk = source.sdk;
+            this.source = source;
+        } else {
+            this.sdk = new SDK({ server: host, networkId });
+            if (recordFile) {
+                recordRpcResponses(this.sdk, recordFile);
+            }
+            this.source = new SDKChainSource(this.sdk);
+        }
+        instrumentRpc(this.sdk);
+        this.notifier = createNotifier(
+            options.notifier,
+            `[${options.codechain.networkId}][indexer]`
         );
+        this.events = new EventListener(options.pg);
+        this.webhooks = new WebhookDispatcher(options.webhook);
         this.worker = new Worker(
-            { sdk: this.sdk, slack: this.slack },
-            options.worker
+            { source: this.source, notifier: this.notifier },
+            { ...options.worker, richList: options.richList }
         );
     }
 
     public destroy = async () => {
         console.log("Destroying the context...");
+        await this.events.close();
         await models.sequelize.close();
     };
 }
@@ -0,0 +1,71 @@
+import * as _ from "lodash";
+import { Transaction } from "sequelize";
+import models from "../models";
+
+export const EVENT_CHANNEL = "indexer_events";
+// pg_notify rejects a payload of 8000 bytes or longer.
+const MAX_HASHES_PER_EVENT = 100;
+
+export interface BlockEvent {
+    type: "block";
+    blockNumber: number;
+    hash: string;
+}
+
+export interface BlockRetractedEvent {
+    type: "blockRetracted";
+    blockNumber: number;
+    hash: string;
+}
+
+export interface ReorgEvent {
+    type: "reorg";
+    reorgId: string;
+    forkBlockNumber: number;
+    depth: number;
+}
+
+export interface PendingTransactionsEvent {
+    type: "pendingTransactions";
+    added: string[];
+    removed: string[];
+}
+
+export type IndexerEvent =
+    | BlockEvent
+    | BlockRetractedEvent
+    | ReorgEvent
+    | PendingTransactionsEvent;
+
+/**
+ * Tells the event to the API servers, which may run in other processes.
+ * An event published in a transaction is delivered when it is committed.
+ */
+export async function publishEvent(
+    event: IndexerEvent,
+    options: { transaction?: Transaction } = {}
+) {
+    await models.sequelize.query("SELECT pg_notify(:channel, :payload)", {
+        replacements: {
+            channel: EVENT_CHANNEL,
+            payload: JSON.stringify(event)
+        },
+        transaction: options.transaction
+    });
+}
+
+export async function publishPendingTransactions(
+    added: string[],
+    removed: string[]
+) {
+    const addedChunks = _.chunk(added, MAX_HASHES_PER_EVENT);
+    const removedChunks = _.chunk(removed, MAX_HASHES_PER_EVENT);
+    const count = Math.max(addedChunks.length, removedChunks.length);
+    for (let i = 0; i < count; i++) {
+        await publishEvent({
+            type: "pendingTransactions",
+            added: addedChunks[i] || [],
+            removed: removedChunks[i] || []
+        });
+    }
+}
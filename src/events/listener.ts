@@ -0,0 +1,130 @@
+import * as pg from "pg";
+import { EVENT_CHANNEL, IndexerEvent } from ".";
+
+export interface EventSubscriber {
+    onEvent(event: IndexerEvent): void;
+    // The events published while the connection was lost are missed.
+    onReconnect(): void;
+    onClose(): void;
+}
+
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Receives the events that the worker publishes with a dedicated connection
+ * that LISTENs to the channel. It connects on the first subscription.
+ */
+export class EventListener {
+    private subscribers = new Set<EventSubscriber>();
+    private client: pg.Client | null = null;
+    private connecting: Promise<void> | null = null;
+    private reconnectTimer: NodeJS.Timer | null = null;
+    private closed = false;
+
+    constructor(private readonly config: pg.ConnectionConfig) {}
+
+    /**
+     * Resolves with the function that unsubscribes when the listener is
+     * connected.
+     */
+    public async subscribe(subscriber: EventSubscriber): Promise<() => void> {
+        if (this.closed) {
+            throw Error("The event listener is closed");
+        }
+        this.subscribers.add(subscriber);
+        try {
+            await this.connect();
+        } catch (err) {
+            this.subscribers.delete(subscriber);
+            throw err;
+        }
+        return () => {
+            this.subscribers.delete(subscriber);
+        };
+    }
+
+    public async close() {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+        }
+        const subscribers = [...this.subscribers];
+        this.subscribers.clear();
+        subscribers.forEach(subscriber => subscriber.onClose());
+        const client = this.client;
+        this.client = null;
+        if (client) {
+            await client.end().catch(console.error);
+        }
+    }
+
+    private connect(): Promise<void> {
+        if (this.client) {
+            return Promise.resolve();
+        }
+        if (this.connecting == null) {
+            this.connecting = this.listen().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private async listen() {
+        const client = new pg.Client(this.config);
+        client.on("notification", ({ payload }) => {
+            if (payload == null) {
+                return;
+            }
+            const event = JSON.parse(payload) as IndexerEvent;
+            this.subscribers.forEach(subscriber => subscriber.onEvent(event));
+        });
+        const onLost = (err?: Error) => {
+            if (this.client !== client) {
+                return;
+            }
+            console.error(
+                "The event listener lost the connection:",
+                err ? err.message : "ended"
+            );
+            this.client = null;
+            client.end().catch(() => undefined);
+            this.scheduleReconnect();
+        };
+        client.on("error", onLost);
+        client.on("end", onLost);
+        try {
+            await client.connect();
+            await client.query(`LISTEN ${EVENT_CHANNEL}`);
+        } catch (err) {
+            client.end().catch(() => undefined);
+            throw err;
+        }
+        if (this.closed) {
+            await client.end();
+            return;
+        }
+        this.client = client;
+    }
+
+    private scheduleReconnect() {
+        if (this.closed || this.reconnectTimer) {
+            return;
+        }
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            if (this.closed) {
+                return;
+            }
+            try {
+                await this.connect();
+                this.subscribers.forEach(subscriber =>
+                    subscriber.onReconnect()
+                );
+            } catch (err) {
+                console.error("The event listener failed to reconnect: ", err);
+                this.scheduleReconnect();
+            }
+        }, RECONNECT_DELAY);
+    }
+}
@@ -0,0 +1,188 @@
+import * as _ from "lodash";
+import { IndexerEvent } from ".";
+import { BlockAttribute } from "../models/block";
+import * as BlockModel from "../models/logic/block";
+import * as TxModel from "../models/logic/transaction";
+import { EventSubscriber } from "./listener";
+
+export type StreamEventType =
+    | "block"
+    | "transaction"
+    | "blockRetracted"
+    | "reorg"
+    | "pendingTransactions";
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = [
+    "block",
+    "transaction",
+    "blockRetracted",
+    "reorg",
+    "pendingTransactions"
+];
+
+export interface StreamMessage {
+    event?: StreamEventType;
+    data?: object;
+    // The number of the last block sent, from which a client resumes
+    id?: number;
+}
+
+export interface EventSink {
+    write(message: StreamMessage): void;
+    end(): void;
+}
+
+export interface StreamFilter {
+    types: StreamEventType[];
+    // The confirmed transactions are filtered by them
+    address?: string | null;
+    assetType?: string | null;
+}
+
+const BLOCK_BATCH_SIZE = 100;
+
+/**
+ * Sends the events to a client in the order that the worker commits them.
+ * The blocks and their transactions are read from the database after the
+ * last block sent, so the blocks missed while disconnected are sent too.
+ */
+export class EventStream implements EventSubscriber {
+    private queue: Promise<void> = Promise.resolve();
+    private closed = false;
+
+    constructor(
+        private readonly sink: EventSink,
+        private readonly filter: StreamFilter,
+        private lastBlockNumber: number
+    ) {}
+
+    // Sends the blocks that are indexed after the last block sent
+    public catchUp() {
+        this.enqueue(async () => {
+            const latestBlockInst = await BlockModel.getLatestBlock();
+            if (latestBlockInst) {
+                await this.sendBlocksUpTo(latestBlockInst.get("number"));
+            }
+        });
+    }
+
+    public onEvent(event: IndexerEvent) {
+        this.enqueue(() => this.handle(event));
+    }
+
+    public onReconnect() {
+        this.catchUp();
+    }
+
+    public onClose() {
+        if (!this.closed) {
+            this.closed = true;
+            this.sink.end();
+        }
+    }
+
+    // The client is gone
+    public stop() {
+        this.closed = true;
+    }
+
+    private enqueue(f: () => Promise<void>) {
+        this.queue = this.queue
+            .then(() => (this.closed ? undefined : f()))
+            .catch(err => {
+                console.error("The event stream failed: ", err);
+                // The client reconnects from the last block sent.
+                this.onClose();
+            });
+    }
+
+    private async handle(event: IndexerEvent) {
+        switch (event.type) {
+            case "block":
+                return this.sendBlocksUpTo(event.blockNumber);
+            case "blockRetracted":
+                this.rewind(event.blockNumber - 1);
+                this.send("blockRetracted", {
+                    blockNumber: event.blockNumber,
+                    hash: event.hash
+                });
+                return;
+            case "reorg":
+                this.rewind(event.forkBlockNumber);
+                this.send("reorg", {
+                    id: event.reorgId,
+                    forkBlockNumber: event.forkBlockNumber,
+                    depth: event.depth
+                });
+                return;
+            case "pendingTransactions":
+                if (this.wants("pendingTransactions")) {
+                    this.sink.write({
+                        event: "pendingTransactions",
+                        data: { added: event.added, removed: event.removed }
+                    });
+                }
+                return;
+        }
+    }
+
+    // The blocks after the number are sent again after they are indexed.
+    private rewind(blockNumber: number) {
+        this.lastBlockNumber = Math.min(this.lastBlockNumber, blockNumber);
+    }
+
+    // A message without data moves the last event ID only.
+    private send(event: StreamEventType, data: object) {
+        const id = this.lastBlockNumber;
+        this.sink.write(this.wants(event) ? { event, data, id } : { id });
+    }
+
+    private wants(event: StreamEventType) {
+        return _.includes(this.filter.types, event);
+    }
+
+    private async sendBlocksUpTo(blockNumber: number) {
+        while (this.lastBlockNumber < blockNumber && !this.closed) {
+            const from = this.lastBlockNumber + 1;
+            const blocks = _.sortBy(
+                (await BlockModel.getBlocksByNumber(
+                    from,
+                    Math.min(blockNumber, from + BLOCK_BATCH_SIZE - 1)
+                )).map(i => i.get({ plain: true })),
+                "number"
+            );
+            for (const block of blocks) {
+                // The rest is retracted. The next block event sends them.
+                if (this.closed || block.number !== this.lastBlockNumber + 1) {
+                    return;
+                }
+                await this.sendBlock(block);
+            }
+            if (blocks.length === 0) {
+                return;
+            }
+        }
+    }
+
+    private async sendBlock(block: BlockAttribute) {
+        if (this.wants("transaction") && block.transactionsCount > 0) {
+            const transactions = await TxModel.getFilteredTransactionsOfBlock({
+                blockNumber: block.number,
+                address: this.filter.address,
+                assetType: this.filter.assetType
+            });
+            for (const tx of transactions) {
+                this.sink.write({
+                    event: "transaction",
+                    data: tx.get({ plain: true })
+                });
+            }
+        }
+        this.lastBlockNumber = block.number;
+        this.sink.write(
+            this.wants("block")
+                ? { event: "block", data: block, id: block.number }
+                : { id: block.number }
+        );
+    }
+}
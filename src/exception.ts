@@ -2,6 +2,9 @@ export const AlreadyExist = () => new Error("AlreadyExist");
 export const DBError = () => new Error("DBError");
 export const InvalidTransaction = () => new Error("InvalidTransaction");
 export const InvalidBlockNumber = () => new Error("InvalidBlockNumber");
+export const RetractFinalBlock = () => new Error("RetractFinalBlock");
+export const BackfillNotFinished = () => new Error("BackfillNotFinished");
+export const LeaseLost = () => new Error("LeaseLost");
 export const InvalidUTXO = () => new Error("InvalidUTXO");
 export const InvalidLogType = () => new Error("InvalidLogType");
 export const InvalidDateParam = () => new Error("InvalidDateParam");
@@ -0,0 +1,67 @@
+import {
+    DocumentNode,
+    execute,
+    ExecutionResult,
+    GraphQLError,
+    GraphQLSchema,
+    parse,
+    specifiedRules,
+    validate
+} from "graphql";
+import { makeExecutableSchema } from "graphql-tools";
+import * as _ from "lodash";
+import { IndexerContext } from "../context";
+import { Finality } from "../routers/finality";
+import { costLimit, depthLimit } from "./limits";
+import { createLoaders } from "./loaders";
+import { GraphQLContext, resolvers } from "./resolvers";
+import { typeDefs } from "./typeDefs";
+
+export const schema: GraphQLSchema = makeExecutableSchema({
+    typeDefs,
+    resolvers
+});
+
+export interface GraphQLRequest {
+    query: string;
+    variables?: { [name: string]: any } | null;
+    operationName?: string | null;
+}
+
+/**
+ * Runs the query of a request. The errors of the query itself are returned
+ * without data, which is a bad request.
+ */
+export async function runQuery(
+    context: IndexerContext,
+    request: GraphQLRequest
+): Promise<ExecutionResult & { badRequest: boolean }> {
+    const { maxDepth, maxCost } = context.options.graphql;
+    let document: DocumentNode;
+    try {
+        document = parse(request.query);
+    } catch (err) {
+        return { errors: [err as GraphQLError], badRequest: true };
+    }
+    const errors = validate(schema, document, [
+        ...specifiedRules,
+        depthLimit(maxDepth),
+        costLimit(maxCost)
+    ]);
+    if (errors.length > 0) {
+        return { errors, badRequest: true };
+    }
+    const graphQLContext: GraphQLContext = {
+        indexer: context,
+        loaders: createLoaders(),
+        finality: _.once(() => Finality.load(context))
+    };
+    const result = await execute({
+        schema,
+        document,
+        contextValue: graphQLContext,
+        variableValues: request.variables,
+        operationName: request.operationName
+    });
+    return { ...result, badRequest: false };
+}
@@ -0,0 +1,256 @@
+import {
+    FieldNode,
+    getNamedType,
+    getNullableType,
+    GraphQLCompositeType,
+    GraphQLError,
+    GraphQLField,
+    GraphQLList,
+    isCompositeType,
+    isObjectType,
+    OperationDefinitionNode,
+    SelectionSetNode,
+    ValidationContext,
+    ValidationRule
+} from "graphql";
+
+// The cost of a list without itemsPerPage, such as the transactions of a block
+const DEFAULT_LIST_SIZE = 20;
+// itemsPerPage is at most 100. A variable is counted as the maximum.
+const MAX_ITEMS_PER_PAGE = 100;
+
+/**
+ * Rejects the operations that nest the fields deeper than maxDepth. The
+ * introspection fields are not counted.
+ */
+export function depthLimit(maxDepth: number): ValidationRule {
+    return (context: ValidationContext) => ({
+        OperationDefinition(node: OperationDefinitionNode) {
+            const depth = measureDepth(
+                context,
+                node.selectionSet,
+                new Set(),
+                maxDepth
+            );
+            if (depth > maxDepth) {
+                context.reportError(
+                    new GraphQLError(
+                        `The query depth exceeds the limit ${maxDepth}`,
+                        [node]
+                    )
+                );
+            }
+        }
+    });
+}
+
+/**
+ * Rejects the operations that may load more than maxCost fields. A field
+ * costs 1 and the fields of a list cost as many times as the size of it,
+ * which is itemsPerPage of the page.
+ */
+export function costLimit(maxCost: number): ValidationRule {
+    return (context: ValidationContext) => ({
+        OperationDefinition(node: OperationDefinitionNode) {
+            const rootType =
+                node.operation === "query"
+                    ? context.getSchema().getQueryType()
+                    : null;
+            if (rootType == null) {
+                return;
+            }
+            const cost = measureCost(
+                context,
+                node.selectionSet,
+                rootType,
+                1,
+                new Set(),
+                maxCost
+            );
+            if (cost > maxCost) {
+                context.reportError(
+                    new GraphQLError(
+                        `The query cost exceeds the limit ${maxCost}`,
+                        [node]
+                    )
+                );
+            }
+        }
+    });
+}
+
+interface CollectedField {
+    field: FieldNode;
+    typeCondition: string | null;
+    // The fragments spread on the path to the field
+    fragments: ReadonlySet<string>;
+}
+
+// Returns the fields of the selection set including the fragments. A fragment
+// that is already spread on the path is skipped, which breaks the cycles.
+function collectFields(
+    context: ValidationContext,
+    selectionSet: SelectionSetNode,
+    fragments: ReadonlySet<string>,
+    visited: Set<string> = new Set()
+): CollectedField[] {
+    const fields: CollectedField[] = [];
+    for (const selection of selectionSet.selections) {
+        switch (selection.kind) {
+            case "Field":
+                fields.push({
+                    field: selection,
+                    typeCondition: null,
+                    fragments
+                });
+                break;
+            case "InlineFragment": {
+                const typeCondition = selection.typeCondition
+                    ? selection.typeCondition.name.value
+                    : null;
+                for (const collected of collectFields(
+                    context,
+                    selection.selectionSet,
+                    fragments,
+                    visited
+                )) {
+                    fields.push({ ...collected, typeCondition });
+                }
+                break;
+            }
+            case "FragmentSpread": {
+                const name = selection.name.value;
+                const fragment = context.getFragment(name);
+                if (
+                    fragment == null ||
+                    fragments.has(name) ||
+                    visited.has(name)
+                ) {
+                    break;
+                }
+                visited.add(name);
+                const typeCondition = fragment.typeCondition.name.value;
+                for (const collected of collectFields(
+                    context,
+                    fragment.selectionSet,
+                    new Set(fragments).add(name),
+                    visited
+                )) {
+                    fields.push({ ...collected, typeCondition });
+                }
+                break;
+            }
+        }
+    }
+    return fields;
+}
+
+// Returns maxDepth + 1 without looking deeper once the depth exceeds maxDepth
+function measureDepth(
+    context: ValidationContext,
+    selectionSet: SelectionSetNode,
+    fragments: ReadonlySet<string>,
+    maxDepth: number
+): number {
+    let depth = 0;
+    for (const { field, fragments: fieldFragments } of collectFields(
+        context,
+        selectionSet,
+        fragments
+    )) {
+        if (field.name.value.startsWith("__")) {
+            continue;
+        }
+        const childDepth =
+            field.selectionSet && maxDepth > 0
+                ? measureDepth(
+                      context,
+                      field.selectionSet,
+                      fieldFragments,
+                      maxDepth - 1
+                  )
+                : 0;
+        depth = Math.max(depth, childDepth + 1);
+        if (depth > maxDepth) {
+            return depth;
+        }
+    }
+    return depth;
+}
+
+// Stops measuring once the cost exceeds maxCost
+function measureCost(
+    context: ValidationContext,
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLCompositeType,
+    listSize: number,
+    fragments: ReadonlySet<string>,
+    maxCost: number
+): number {
+    const schema = context.getSchema();
+    let cost = 0;
+    for (const {
+        field,
+        typeCondition,
+        fragments: fieldFragments
+    } of collectFields(context, selectionSet, fragments)) {
+        const name = field.name.value;
+        if (name.startsWith("__")) {
+            continue;
+        }
+        const conditionType = typeCondition
+            ? schema.getType(typeCondition)
+            : parentType;
+        if (conditionType == null || !isObjectType(conditionType)) {
+            continue;
+        }
+        const fieldDef = conditionType.getFields()[name];
+        if (fieldDef == null) {
+            continue;
+        }
+        cost += 1;
+        if (cost > maxCost) {
+            return cost;
+        }
+        const namedType = getNamedType(fieldDef.type);
+        if (field.selectionSet == null || !isCompositeType(namedType)) {
+            continue;
+        }
+        const isList = getNullableType(fieldDef.type) instanceof GraphQLList;
+        const multiplier = isList ? listSize : 1;
+        const childCost = measureCost(
+            context,
+            field.selectionSet,
+            namedType,
+            getListSize(field, fieldDef),
+            fieldFragments,
+            Math.floor((maxCost - cost) / multiplier)
+        );
+        cost += multiplier * childCost;
+        if (cost > maxCost) {
+            return cost;
+        }
+    }
+    return cost;
+}
+
+// The size of the lists in the value of the field
+function getListSize(
+    field: FieldNode,
+    fieldDef: GraphQLField<unknown, unknown>
+): number {
+    const argDef = fieldDef.args.find(a => a.name === "itemsPerPage");
+    if (argDef == null) {
+        return DEFAULT_LIST_SIZE;
+    }
+    const arg = (field.arguments || []).find(
+        a => a.name.value === "itemsPerPage"
+    );
+    if (arg == null) {
+        return argDef.defaultValue;
+    }
+    if (arg.value.kind === "IntValue") {
+        return parseInt(arg.value.value, 10);
+    }
+    return MAX_ITEMS_PER_PAGE;
+}
@@ -0,0 +1,74 @@
+import * as DataLoader from "dataloader";
+import * as _ from "lodash";
+import { AccountAttribtue } from "../models/account";
+import { AssetSchemeAttribute } from "../models/assetscheme";
+import { BlockAttribute } from "../models/block";
+import * as AccountModel from "../models/logic/account";
+import * as AssetSchemeModel from "../models/logic/assetscheme";
+import * as BlockModel from "../models/logic/block";
+import * as TxModel from "../models/logic/transaction";
+import { strip0xPrefix } from "../models/logic/utils/format";
+import { TransactionAttribute } from "../models/transaction";
+
+/**
+ * Batches the lookups of the resolvers in a request into one query for each
+ * kind of row. They are created for each request, which caches the rows.
+ */
+export interface Loaders {
+    blockByNumber: DataLoader<number, BlockAttribute | null>;
+    transactionByHash: DataLoader<string, TransactionAttribute | null>;
+    transactionsOfBlock: DataLoader<number, TransactionAttribute[]>;
+    assetSchemeByAssetType: DataLoader<string, AssetSchemeAttribute | null>;
+    accountByAddress: DataLoader<string, AccountAttribtue | null>;
+}
+
+export function createLoaders(): Loaders {
+    return {
+        blockByNumber: new DataLoader(async blockNumbers => {
+            const blocks = (await BlockModel.getByNumbers(blockNumbers)).map(
+                i => i.get({ plain: true })
+            );
+            const byNumber = _.keyBy(blocks, block => block.number);
+            return blockNumbers.map(n => byNumber[n] || null);
+        }),
+        transactionByHash: new DataLoader(
+            async hashes => {
+                const txs = (await TxModel.getByHashes(hashes)).map(i =>
+                    i.get({ plain: true })
+                );
+                const byHash = _.keyBy(txs, tx => tx.hash);
+                return hashes.map(hash => byHash[strip0xPrefix(hash)] || null);
+            },
+            { cacheKeyFn: strip0xPrefix }
+        ),
+        transactionsOfBlock: new DataLoader(async blockNumbers => {
+            const txs = (await TxModel.getByBlockNumbers(blockNumbers)).map(i =>
+                i.get({ plain: true })
+            );
+            const byBlockNumber = _.groupBy(txs, tx => tx.blockNumber);
+            return blockNumbers.map(n => byBlockNumber[n] || []);
+        }),
+        assetSchemeByAssetType: new DataLoader(
+            async assetTypes => {
+                const schemes = (await AssetSchemeModel.getByAssetTypes(
+                    assetTypes
+                )).map(i => i.get({ plain: true }));
+                const byAssetType = _.keyBy(
+                    schemes,
+                    scheme => scheme.assetType
+                );
+                return assetTypes.map(
+                    assetType => byAssetType[strip0xPrefix(assetType)] || null
+                );
+            },
+            { cacheKeyFn: strip0xPrefix }
+        ),
+        accountByAddress: new DataLoader(async addresses => {
+            const accounts = (await AccountModel.getByAddresses(addresses)).map(
+                i => i.get({ plain: true })
+            );
+            const byAddress = _.keyBy(accounts, account => account.address);
+            return addresses.map(address => byAddress[address] || null);
+        })
+    };
+}
@@ -0,0 +1,345 @@
+import { H160, H256 } from "codechain-primitives";
+import { GraphQLScalarType } from "graphql";
+import * as _ from "lodash";
+import { IndexerContext } from "../context";
+import { BlockAttribute } from "../models/block";
+import { CCCChangeAttribute, defaultAllReasons } from "../models/cccChanges";
+import { LogType } from "../models/log";
+import * as BlockModel from "../models/logic/block";
+import * as CCCChangeModel from "../models/logic/cccChange";
+import * as LogModel from "../models/logic/log";
+import * as TxModel from "../models/logic/transaction";
+import * as UTXOModel from "../models/logic/utxo";
+import { TransactionAttribute } from "../models/transaction";
+import { UTXOAttribute } from "../models/utxo";
+import { Finality } from "../routers/finality";
+import { createPaginationResult } from "../routers/pagination";
+import { Loaders } from "./loaders";
+
+export interface GraphQLContext {
+    indexer: IndexerContext;
+    loaders: Loaders;
+    // Loaded once for a request
+    finality: () => Promise<Finality>;
+}
+
+interface PageArgs {
+    itemsPerPage: number;
+    firstEvaluatedKey?: string | null;
+    lastEvaluatedKey?: string | null;
+}
+
+const MAX_ITEMS_PER_PAGE = 100;
+
+// The types of the elements of the evaluated key of each query
+type KeyTypes = ("number" | "string")[];
+
+// Parses the evaluated keys as the parseEvaluatedKey middleware does
+function parsePageArgs(args: PageArgs, keyTypes: KeyTypes) {
+    const { itemsPerPage } = args;
+    if (
+        !Number.isInteger(itemsPerPage) ||
+        itemsPerPage < 1 ||
+        itemsPerPage > MAX_ITEMS_PER_PAGE
+    ) {
+        throw Error(`itemsPerPage must be from 1 to ${MAX_ITEMS_PER_PAGE}`);
+    }
+    if (args.firstEvaluatedKey != null && args.lastEvaluatedKey != null) {
+        throw Error("Only one of firstEvaluatedKey and lastEvaluatedKey");
+    }
+    const parseKey = (key?: string | null): any => {
+        if (key == null) {
+            return null;
+        }
+        let parsed: any;
+        try {
+            parsed = JSON.parse(key);
+        } catch (err) {
+            throw Error(`Invalid evaluated key: ${key}`);
+        }
+        if (
+            !Array.isArray(parsed) ||
+            parsed.length !== keyTypes.length ||
+            !parsed.every((value, index) => typeof value === keyTypes[index])
+        ) {
+            throw Error(`Invalid evaluated key: ${key}`);
+        }
+        return parsed;
+    };
+    return {
+        itemsPerPage,
+        firstEvaluatedKey: parseKey(args.firstEvaluatedKey),
+        lastEvaluatedKey: parseKey(args.lastEvaluatedKey)
+    };
+}
+
+const finalityResolvers = {
+    confirmations: async (
+        row: { blockNumber?: number | null },
+        __: {},
+        { finality }: GraphQLContext
+    ) => (await finality()).of(row.blockNumber).confirmations,
+    isFinal: async (
+        row: { blockNumber?: number | null },
+        __: {},
+        { finality }: GraphQLContext
+    ) => (await finality()).of(row.blockNumber).isFinal
+};
+
+const assetSchemeResolver = (
+    action: { assetType: string },
+    __: {},
+    { loaders }: GraphQLContext
+) => loaders.assetSchemeByAssetType.load(action.assetType);
+
+export const resolvers = {
+    JSON: new GraphQLScalarType({
+        name: "JSON",
+        serialize: value => value
+    }),
+    Query: {
+        block: async (
+            __: {},
+            args: { number?: number | null; hash?: string | null },
+            { loaders }: GraphQLContext
+        ) => {
+            if (args.number != null) {
+                return loaders.blockByNumber.load(args.number);
+            }
+            if (args.hash != null) {
+                const blockInst = await BlockModel.getByHash(
+                    new H256(args.hash)
+                );
+                return blockInst ? blockInst.get({ plain: true }) : null;
+            }
+            throw Error("Either number or hash is required");
+        },
+        blocks: async (
+            __: {},
+            args: PageArgs & { address?: string | null }
+        ) => {
+            const {
+                itemsPerPage,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            } = parsePageArgs(args, ["number"]);
+            const blocks = (await BlockModel.getBlocks({
+                address: args.address || undefined,
+                itemsPerPage: itemsPerPage + 1,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            })).map(i => i.get({ plain: true }));
+            return createPaginationResult({
+                query: { firstEvaluatedKey, lastEvaluatedKey },
+                rows: blocks,
+                getEvaluatedKey: BlockModel.createBlockEvaluatedKey,
+                itemsPerPage
+            });
+        },
+        transaction: (
+            __: {},
+            args: { hash: string },
+            { loaders }: GraphQLContext
+        ) => loaders.transactionByHash.load(new H256(args.hash).value),
+        transactions: async (
+            __: {},
+            args: PageArgs & {
+                address?: string | null;
+                assetType?: string | null;
+                type?: string[] | null;
+                includePending?: boolean | null;
+            }
+        ) => {
+            const {
+                itemsPerPage,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            } = parsePageArgs(args, ["number", "number"]);
+            const txs = (await TxModel.getTransactions({
+                address: args.address,
+                assetType: args.assetType && new H160(args.assetType).value,
+                type: args.type,
+                itemsPerPage: itemsPerPage + 1,
+                firstEvaluatedKey,
+                lastEvaluatedKey,
+                includePending: args.includePending
+            })).map(i => i.get({ plain: true }));
+            return createPaginationResult({
+                query: { firstEvaluatedKey, lastEvaluatedKey },
+                rows: txs,
+                getEvaluatedKey: TxModel.createTxEvaluatedKey,
+                itemsPerPage
+            });
+        },
+        utxos: async (
+            __: {},
+            args: PageArgs & {
+                address?: string | null;
+                assetType?: string | null;
+                shardId?: number | null;
+            }
+        ) => {
+            const {
+                itemsPerPage,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            } = parsePageArgs(args, ["number", "number", "number"]);
+            const utxos = (await UTXOModel.getUTXO({
+                address: args.address,
+                assetType: args.assetType ? new H160(args.assetType) : null,
+                shardId: args.shardId,
+                itemsPerPage: itemsPerPage + 1,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            })).map(i => i.get({ plain: true }));
+            return createPaginationResult({
+                query: { firstEvaluatedKey, lastEvaluatedKey },
+                rows: utxos,
+                getEvaluatedKey: UTXOModel.createUTXOEvaluatedKey,
+                itemsPerPage
+            });
+        },
+        assetScheme: (
+            __: {},
+            args: { assetType: string },
+            { loaders }: GraphQLContext
+        ) =>
+            loaders.assetSchemeByAssetType.load(new H160(args.assetType).value),
+        account: (
+            __: {},
+            args: { address: string },
+            { loaders }: GraphQLContext
+        ) => loaders.accountByAddress.load(args.address),
+        cccChanges: async (
+            __: {},
+            args: PageArgs & { address: string; reasons?: string[] | null }
+        ) => {
+            const {
+                itemsPerPage,
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            } = parsePageArgs(args, ["number", "string"]);
+            const reasons = args.reasons || defaultAllReasons;
+            if (_.difference(reasons, defaultAllReasons).length > 0) {
+                throw Error(`reasons must be in ${defaultAllReasons}`);
+            }
+            const cccChanges = (await CCCChangeModel.getByAddress(
+                args.address,
+                {
+                    itemsPerPage: itemsPerPage + 1,
+                    reasonFilter: reasons,
+                    firstEvaluatedKey,
+                    lastEvaluatedKey
+                }
+            )).map(i => i.get({ plain: true }));
+            return createPaginationResult({
+                query: { firstEvaluatedKey, lastEvaluatedKey },
+                rows: cccChanges,
+                getEvaluatedKey: CCCChangeModel.createCCCChangesEvaluatedKey,
+                itemsPerPage
+            });
+        },
+        log: async (
+            __: {},
+            args: { date: string; type: LogType; value?: string | null }
+        ) => {
+            const logInst = await LogModel.getLog(args.date, args.type, {
+                value: args.value
+            });
+            return logInst ? logInst.get({ plain: true }) : null;
+        }
+    },
+    Block: {
+        confirmations: async (
+            block: BlockAttribute,
+            __: {},
+            { finality }: GraphQLContext
+        ) => (await finality()).of(block.number).confirmations,
+        isFinal: async (
+            block: BlockAttribute,
+            __: {},
+            { finality }: GraphQLContext
+        ) => (await finality()).of(block.number).isFinal,
+        transactions: (
+            block: BlockAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.transactionsOfBlock.load(block.number),
+        authorAccount: (
+            block: BlockAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.accountByAddress.load(block.author)
+    },
+    Transaction: {
+        ...finalityResolvers,
+        // The attributes of the action with the type, which resolves the
+        // GraphQL type of it
+        action: (tx: TransactionAttribute) => {
+            const action = (tx as any)[tx.type!];
+            return action ? { ...action, type: tx.type } : null;
+        },
+        block: (
+            tx: TransactionAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) =>
+            tx.blockNumber == null
+                ? null
+                : loaders.blockByNumber.load(tx.blockNumber),
+        signerAccount: (
+            tx: TransactionAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.accountByAddress.load(tx.signer)
+    },
+    TransactionAction: {
+        __resolveType: (action: { type: string }) =>
+            `${_.upperFirst(action.type)}Action`
+    },
+    PayAction: {
+        receiverAccount: (
+            action: { receiver: string },
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.accountByAddress.load(action.receiver)
+    },
+    MintAssetAction: { assetScheme: assetSchemeResolver },
+    ChangeAssetSchemeAction: { assetScheme: assetSchemeResolver },
+    IncreaseAssetSupplyAction: { assetScheme: assetSchemeResolver },
+    UTXO: {
+        ...finalityResolvers,
+        assetScheme: (
+            utxo: UTXOAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.assetSchemeByAssetType.load(utxo.assetType),
+        transaction: (
+            utxo: UTXOAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.transactionByHash.load(utxo.transactionHash)
+    },
+    AssetScheme: {
+        transaction: (
+            scheme: { transactionHash: string },
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.transactionByHash.load(scheme.transactionHash)
+    },
+    CCCChange: {
+        block: (
+            cccChange: CCCChangeAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) => loaders.blockByNumber.load(cccChange.blockNumber),
+        transaction: (
+            cccChange: CCCChangeAttribute,
+            __: {},
+            { loaders }: GraphQLContext
+        ) =>
+            cccChange.transactionHash == null
+                ? null
+                : loaders.transactionByHash.load(cccChange.transactionHash)
+    }
+};
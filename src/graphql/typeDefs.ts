@@ -0,0 +1,322 @@
+// The evaluated keys are the JSON strings that the REST API uses
+export const typeDefs = `
+scalar JSON
+
+enum LogType {
+    BLOCK_COUNT
+    BLOCK_MINING_COUNT
+    TX_COUNT
+    PAY_COUNT
+    SET_REGULAR_KEY_COUNT
+    SET_SHARD_OWNER_COUNT
+    SET_SHARD_USER_COUNT
+    CREATE_SHARD_COUNT
+    MINT_ASSET_COUNT
+    TRANSFER_ASSET_COUNT
+    CHANGE_ASSET_SCHEME_COUNT
+    INCREASE_ASSET_SUPPLY_COUNT
+    STORE_COUNT
+    REMOVE_COUNT
+    CUSTOM_COUNT
+    UNWRAP_CCC_COUNT
+    WRAP_CCC_COUNT
+}
+
+type Query {
+    block(number: Int, hash: String): Block
+    blocks(
+        address: String
+        itemsPerPage: Int = 15
+        firstEvaluatedKey: String
+        lastEvaluatedKey: String
+    ): BlockPage!
+    transaction(hash: String!): Transaction
+    transactions(
+        address: String
+        assetType: String
+        type: [String!]
+        includePending: Boolean
+        itemsPerPage: Int = 15
+        firstEvaluatedKey: String
+        lastEvaluatedKey: String
+    ): TransactionPage!
+    utxos(
+        address: String
+        assetType: String
+        shardId: Int
+        itemsPerPage: Int = 15
+        firstEvaluatedKey: String
+        lastEvaluatedKey: String
+    ): UTXOPage!
+    assetScheme(assetType: String!): AssetScheme
+    account(address: String!): Account
+    cccChanges(
+        address: String!
+        reasons: [String!]
+        itemsPerPage: Int = 15
+        firstEvaluatedKey: String
+        lastEvaluatedKey: String
+    ): CCCChangePage!
+    log(date: String!, type: LogType!, value: String): Log
+}
+
+type Block {
+    hash: String!
+    parentHash: String!
+    number: Int!
+    timestamp: Int!
+    author: String!
+    transactionsRoot: String!
+    stateRoot: String!
+    score: String!
+    miningReward: String!
+    transactionsCount: Int!
+    transactionsCountByType: JSON!
+    size: Int!
+    missedSignersOfPrev: [String!]
+    intermediateRewards: String!
+    confirmations: Int
+    isFinal: Boolean!
+    transactions: [Transaction!]!
+    authorAccount: Account
+}
+
+type BlockPage {
+    data: [Block!]!
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    firstEvaluatedKey: String
+    lastEvaluatedKey: String
+}
+
+type Transaction {
+    hash: String!
+    blockNumber: Int
+    blockHash: String
+    tracker: String
+    transactionIndex: Int
+    type: String!
+    seq: Int!
+    fee: String!
+    networkId: String!
+    sig: String!
+    signer: String!
+    errorHint: String
+    timestamp: Int
+    isPending: Boolean!
+    pendingTimestamp: Int
+    confirmations: Int
+    isFinal: Boolean!
+    action: TransactionAction
+    block: Block
+    signerAccount: Account
+}
+
+type TransactionPage {
+    data: [Transaction!]!
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    firstEvaluatedKey: String
+    lastEvaluatedKey: String
+}
+
+union TransactionAction =
+    | PayAction
+    | MintAssetAction
+    | TransferAssetAction
+    | ChangeAssetSchemeAction
+    | IncreaseAssetSupplyAction
+    | WrapCCCAction
+    | UnwrapCCCAction
+    | SetRegularKeyAction
+    | CreateShardAction
+    | SetShardOwnersAction
+    | SetShardUsersAction
+    | StoreAction
+    | RemoveAction
+    | CustomAction
+
+type PayAction {
+    receiver: String!
+    quantity: String!
+    receiverAccount: Account
+}
+
+type MintAssetAction {
+    networkId: String!
+    shardId: Int!
+    metadata: String!
+    approver: String
+    registrar: String
+    allowedScriptHashes: [String!]!
+    approvals: [String!]!
+    lockScriptHash: String!
+    parameters: [String!]!
+    supply: String!
+    assetName: String
+    assetType: String!
+    recipient: String!
+    assetScheme: AssetScheme
+}
+
+type TransferAssetAction {
+    networkId: String!
+    metadata: String!
+    approvals: [String!]!
+    expiration: String
+    inputs: JSON!
+    burns: JSON!
+    outputs: JSON!
+    orders: JSON!
+}
+
+type ChangeAssetSchemeAction {
+    assetType: String!
+    networkId: String!
+    shardId: Int!
+    metadata: String!
+    approver: String
+    registrar: String
+    allowedScriptHashes: [String!]!
+    approvals: [String!]!
+    seq: Int!
+    assetScheme: AssetScheme
+}
+
+type IncreaseAssetSupplyAction {
+    networkId: String!
+    shardId: Int!
+    approvals: [String!]!
+    seq: Int!
+    lockScriptHash: String!
+    parameters: [String!]!
+    supply: String!
+    assetType: String!
+    recipient: String!
+    assetScheme: AssetScheme
+}
+
+type WrapCCCAction {
+    shardId: Int!
+    lockScriptHash: String!
+    parameters: [String!]!
+    quantity: String!
+    recipient: String!
+}
+
+type UnwrapCCCAction {
+    receiver: String!
+    burn: JSON!
+}
+
+type SetRegularKeyAction {
+    key: String!
+}
+
+type CreateShardAction {
+    shardId: Int
+    users: [String!]!
+}
+
+type SetShardOwnersAction {
+    shardId: Int!
+    owners: [String!]!
+}
+
+type SetShardUsersAction {
+    shardId: Int!
+    users: [String!]!
+}
+
+type StoreAction {
+    content: String!
+    certifier: String!
+    signature: String!
+}
+
+type RemoveAction {
+    textHash: String!
+    signature: String!
+}
+
+type CustomAction {
+    handlerId: Int!
+    content: String!
+}
+
+type UTXO {
+    id: String!
+    address: String!
+    assetType: String!
+    shardId: Int!
+    lockScriptHash: String!
+    parameters: [String!]!
+    quantity: String!
+    orderHash: String
+    transactionHash: String!
+    transactionTracker: String!
+    transactionOutputIndex: Int!
+    usedTransactionHash: String
+    usedBlockNumber: Int
+    blockNumber: Int!
+    transactionIndex: Int
+    confirmations: Int
+    isFinal: Boolean!
+    assetScheme: AssetScheme
+    transaction: Transaction
+}
+
+type UTXOPage {
+    data: [UTXO!]!
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    firstEvaluatedKey: String
+    lastEvaluatedKey: String
+}
+
+type AssetScheme {
+    transactionHash: String!
+    assetType: String!
+    shardId: Int!
+    metadata: String!
+    approver: String
+    registrar: String
+    allowedScriptHashes: [String!]!
+    supply: String
+    networkId: String
+    seq: Int!
+    transaction: Transaction
+}
+
+type Account {
+    address: String!
+    balance: String!
+    seq: Int!
+}
+
+type CCCChange {
+    id: String!
+    address: String!
+    change: String!
+    blockNumber: Int!
+    reason: String!
+    transactionHash: String
+    block: Block
+    transaction: Transaction
+}
+
+type CCCChangePage {
+    data: [CCCChange!]!
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    firstEvaluatedKey: String
+    lastEvaluatedKey: String
+}
+
+type Log {
+    date: String!
+    type: LogType!
+    value: String
+    count: Int!
+}
+`;
@@ -1,13 +1,14 @@
 import * as http from "http";
+import * as _ from "lodash";
+import { AddressInfo } from "net";
 import { run as runChecker } from "./checker";
 import { IndexerConfig } from "./config";
 import { IndexerContext } from "./context";
 import log from "./log";
+import { runNetworks } from "./networks";
 import { createServer } from "./server";
 
-async function runServer() {
-    process.env.NODE_ENV = process.env.NODE_ENV || "dev";
-    const options = require("config") as IndexerConfig;
+async function runServer(options: IndexerConfig) {
     const context = IndexerContext.newInstance(options);
 
     const rpcNetworkId = await context.sdk.rpc.chain
@@ -23,26 +24,85 @@ async function runServer() {
         return;
     }
 
-    process.on("SIGINT", async () => {
-        console.log("Caught interrupt signal.");
-        await context.destroy();
-        process.exit();
+    const { role } = options;
+    if (!_.includes(["all", "api", "worker", "checker"], role)) {
+        console.error(`Error: Unknown role ${role}. Aborted.`);
+        return;
+    }
+
+    const app = createServer(context, {
+        api: role === "all" || role === "api"
     });
-    const app = createServer(context);
 
     const httpServer = http.createServer(app);
     httpServer.listen(options.httpPort, () => {
+        const { port } = httpServer.address() as AddressInfo;
         log.info(
-            `HTTP server is listening on ${options.httpPort} in ${
+            `HTTP server is listening on ${port} in ${
                 process.env.NODE_ENV
-            } mode`
+            } mode as ${role}`
         );
+        // Tell the port to the parent that serves several networks
+        if (process.send) {
+            process.send({ port });
+        }
     });
-    context.worker.run();
+    if (role === "all" || role === "worker") {
+        context.worker.run();
+        if (options.webhook.enabled) {
+            context.webhooks.run();
+        }
+    }
 
-    if (process.env.ENABLE_CCC_CHANGES_CHECK) {
-        runChecker(context.sdk, context.options).catch(console.error);
+    let stopping = false;
+    const checker =
+        role === "checker" ||
+        (role === "all" && process.env.ENABLE_CCC_CHANGES_CHECK)
+            ? runChecker(context.source, context.options, () => stopping).catch(
+                  console.error
+              )
+            : Promise.resolve();
+
+    const shutdown = async (signal: string) => {
+        if (stopping) {
+            return;
+        }
+        stopping = true;
+        console.log(`Caught ${signal}. Shutting down...`);
+        setTimeout(() => {
+            console.error(
+                `Shutdown is not finished in ${
+                    options.shutdownTimeout
+                }ms. Exit.`
+            );
+            process.exit(1);
+        }, options.shutdownTimeout).unref();
+        try {
+            await context.worker.destroy();
+            await context.webhooks.destroy();
+            // The open event streams would keep the server from closing.
+            await context.events.close();
+            await new Promise(resolve => httpServer.close(() => resolve()));
+            await checker;
+            await context.destroy();
+            process.exit();
+        } catch (err) {
+            console.error("Shutdown failed: ", err);
+            process.exit(1);
+        }
+    };
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+function main() {
+    process.env.NODE_ENV = process.env.NODE_ENV || "dev";
+    const options = require("config") as IndexerConfig;
+    if (options.networks && options.networks.length > 0) {
+        runNetworks(options, __filename);
+    } else {
+        runServer(options);
     }
 }
 
-runServer();
+main();
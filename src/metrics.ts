@@ -0,0 +1,126 @@
+import { SDK } from "codechain-sdk";
+import { RequestHandler } from "express";
+import { Counter, Gauge, Histogram, register } from "prom-client";
+
+/**
+ * The metrics that `/metrics` exposes in the Prometheus text format.
+ */
+export const indexedBlockNumber = new Gauge({
+    name: "indexer_indexed_block_number",
+    help: "The number of the latest indexed block"
+});
+
+export const chainBestBlockNumber = new Gauge({
+    name: "indexer_chain_best_block_number",
+    help: "The number of the best block of CodeChain"
+});
+
+export type IndexingStage =
+    | "createBlock"
+    | "updateAccount"
+    | "indexLog"
+    | "updateCCCChange";
+
+export const blockIndexingDuration = new Histogram({
+    name: "indexer_block_indexing_duration_seconds",
+    help: "The time to index a block by stage",
+    labelNames: ["stage"],
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+});
+
+export const rpcRequests = new Counter({
+    name: "indexer_rpc_requests_total",
+    help: "The number of the RPC requests to CodeChain",
+    labelNames: ["method", "result"]
+});
+
+export const rpcDuration = new Histogram({
+    name: "indexer_rpc_duration_seconds",
+    help: "The latency of the RPC requests to CodeChain",
+    labelNames: ["method"]
+});
+
+export const pendingTransactions = new Gauge({
+    name: "indexer_pending_transactions",
+    help: "The number of the pending transactions of CodeChain"
+});
+
+export const reorgs = new Counter({
+    name: "indexer_reorgs_total",
+    help: "The number of the reorgs that retracted indexed blocks"
+});
+
+export const httpRequests = new Counter({
+    name: "indexer_http_requests_total",
+    help: "The number of the API requests",
+    labelNames: ["method", "route", "status"]
+});
+
+export const httpDuration = new Histogram({
+    name: "indexer_http_request_duration_seconds",
+    help: "The latency of the API requests",
+    labelNames: ["method", "route"]
+});
+
+export async function measureStage<T>(
+    stage: IndexingStage,
+    f: () => Promise<T>
+): Promise<T> {
+    const end = blockIndexingDuration.startTimer({ stage });
+    try {
+        return await f();
+    } finally {
+        end();
+    }
+}
+
+/**
+ * Counts and times every RPC request that the SDK sends.
+ */
+export function instrumentRpc(sdk: SDK) {
+    const sendRpcRequest = sdk.rpc.sendRpcRequest;
+    sdk.rpc.sendRpcRequest = async (
+        method: string,
+        params: any[],
+        options?: any
+    ) => {
+        const end = rpcDuration.startTimer({ method });
+        try {
+            const result = await sendRpcRequest(method, params, options);
+            rpcRequests.inc({ method, result: "success" });
+            return result;
+        } catch (err) {
+            rpcRequests.inc({ method, result: "error" });
+            throw err;
+        } finally {
+            end();
+        }
+    };
+}
+
+/**
+ * Counts and times the requests by the route that handles them.
+ */
+export const measureHttp: RequestHandler = (req, res, next) => {
+    const start = process.hrtime();
+    res.on("finish", () => {
+        const [seconds, nanoseconds] = process.hrtime(start);
+        // The path pattern of the route, such as "/block/:hashOrNumber"
+        const route = req.route ? req.route.path : "unmatched";
+        httpRequests.inc({
+            method: req.method,
+            route,
+            status: String(res.statusCode)
+        });
+        httpDuration.observe(
+            { method: req.method, route },
+            seconds + nanoseconds / 1e9
+        );
+    });
+    next();
+};
+
+export const handleMetrics: RequestHandler = (_, res) => {
+    res.set("Content-Type", register.contentType);
+    res.end(register.metrics());
+};
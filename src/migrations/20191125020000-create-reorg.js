@@ -0,0 +1,55 @@
+"use strict";
+
+const tableName = "Reorgs";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            forkBlockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            depth: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            oldHashes: {
+                allowNull: false,
+                type: Sequelize.ARRAY(Sequelize.STRING)
+            },
+            newHashes: {
+                allowNull: false,
+                type: Sequelize.ARRAY(Sequelize.STRING)
+            },
+            retractedTransactionHashes: {
+                allowNull: false,
+                type: Sequelize.ARRAY(Sequelize.STRING)
+            },
+            retractedCCCChanges: {
+                allowNull: false,
+                type: Sequelize.JSONB
+            },
+            timestamp: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,43 @@
+"use strict";
+
+const tableName = "BackfillSegments";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            fromBlockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            toBlockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            indexedBlockNumber: {
+                allowNull: true,
+                type: Sequelize.INTEGER
+            },
+            stitchedBlockNumber: {
+                allowNull: true,
+                type: Sequelize.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,52 @@
+"use strict";
+
+const tableName = "PendingTransactionHistories";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            hash: {
+                primaryKey: true,
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            signer: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            seq: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            firstSeen: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            lastSeen: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            outcome: {
+                type: Sequelize.STRING
+            },
+            blockNumber: {
+                type: Sequelize.INTEGER
+            },
+            replacedBy: {
+                type: Sequelize.STRING
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["outcome"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,36 @@
+"use strict";
+
+const tableName = "MempoolSamples";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            timestamp: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            count: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["timestamp"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,34 @@
+"use strict";
+
+const tableName = "WorkerLeases";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            name: {
+                primaryKey: true,
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            holder: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            expiresAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,54 @@
+"use strict";
+
+const tableName = "CheckerFindings";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            target: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            key: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            expected: {
+                allowNull: true,
+                type: Sequelize.JSONB
+            },
+            actual: {
+                allowNull: false,
+                type: Sequelize.JSONB
+            },
+            resolved: {
+                allowNull: false,
+                defaultValue: false,
+                type: Sequelize.BOOLEAN
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["resolved", "id"]);
+        await queryInterface.addIndex(tableName, ["target", "key"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,51 @@
+"use strict";
+
+const tableName = "WebhookSubscriptions";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            url: {
+                allowNull: false,
+                type: Sequelize.TEXT
+            },
+            secret: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            address: {
+                allowNull: true,
+                type: Sequelize.STRING
+            },
+            assetType: {
+                allowNull: true,
+                type: Sequelize.STRING
+            },
+            transactionTypes: {
+                allowNull: true,
+                type: Sequelize.ARRAY(Sequelize.STRING)
+            },
+            reasons: {
+                allowNull: true,
+                type: Sequelize.ARRAY(Sequelize.STRING)
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
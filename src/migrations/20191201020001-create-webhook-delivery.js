@@ -0,0 +1,82 @@
+"use strict";
+
+const tableName = "WebhookDeliveries";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            subscriptionId: {
+                allowNull: false,
+                type: Sequelize.BIGINT,
+                onDelete: "CASCADE",
+                references: {
+                    model: "WebhookSubscriptions",
+                    key: "id"
+                }
+            },
+            event: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            blockHash: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            data: {
+                allowNull: false,
+                type: Sequelize.JSONB
+            },
+            status: {
+                allowNull: false,
+                defaultValue: "pending",
+                type: Sequelize.STRING
+            },
+            attempts: {
+                allowNull: false,
+                defaultValue: 0,
+                type: Sequelize.INTEGER
+            },
+            nextAttemptAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            lastError: {
+                allowNull: true,
+                type: Sequelize.TEXT
+            },
+            deliveredAt: {
+                allowNull: true,
+                type: Sequelize.DATE
+            },
+            retracted: {
+                allowNull: false,
+                defaultValue: false,
+                type: Sequelize.BOOLEAN
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["status", "nextAttemptAt"]);
+        await queryInterface.addIndex(tableName, ["blockNumber"]);
+        await queryInterface.addIndex(tableName, ["subscriptionId", "id"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
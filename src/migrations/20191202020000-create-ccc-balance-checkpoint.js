@@ -0,0 +1,48 @@
+"use strict";
+
+const tableName = "CCCBalanceCheckpoints";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            address: {
+                allowNull: false,
+                type: Sequelize.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER,
+                onDelete: "CASCADE",
+                references: {
+                    model: "Blocks",
+                    key: "number"
+                }
+            },
+            balance: {
+                allowNull: false,
+                type: Sequelize.NUMERIC({ precision: 20, scale: 0 })
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["address", "blockNumber"], {
+            unique: true
+        });
+        await queryInterface.addIndex(tableName, ["blockNumber"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,56 @@
+"use strict";
+
+const tableName = "RichListHistories";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.createTable(tableName, {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: Sequelize.BIGINT
+            },
+            date: {
+                allowNull: false,
+                type: Sequelize.DATEONLY
+            },
+            blockNumber: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            topN: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            topBalance: {
+                allowNull: false,
+                type: Sequelize.NUMERIC
+            },
+            totalSupply: {
+                allowNull: false,
+                type: Sequelize.NUMERIC
+            },
+            holders: {
+                allowNull: false,
+                type: Sequelize.INTEGER
+            },
+            gini: {
+                allowNull: true,
+                type: Sequelize.DOUBLE
+            },
+            createdAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: Sequelize.DATE
+            }
+        });
+        await queryInterface.addIndex(tableName, ["date"], { unique: true });
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.dropTable(tableName, { force: true });
+    }
+};
@@ -0,0 +1,12 @@
+"use strict";
+
+const tableName = "Accounts";
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.addIndex(tableName, ["balance", "address"]);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.removeIndex(tableName, ["balance", "address"]);
+    }
+};
@@ -0,0 +1,76 @@
+"use strict";
+
+// AssetSchemes.holderCount is the number of the AggsUTXOs of the asset type
+// with a positive quantity, which the trigger keeps as the AggsUTXOs change.
+module.exports = {
+    up: async (queryInterface, Sequelize) => {
+        await queryInterface.addColumn("AssetSchemes", "holderCount", {
+            allowNull: false,
+            type: Sequelize.INTEGER,
+            defaultValue: 0
+        });
+
+        await queryInterface.addIndex(
+            "AggsUTXOs",
+            ["assetType", "totalAssetQuantity", "address"],
+            {
+                name: "aggs_utxos_asset_type_total_asset_quantity_address"
+            }
+        );
+
+        await queryInterface.sequelize.query(`
+        CREATE FUNCTION aggs_utxos_trigger_function() RETURNS trigger
+        LANGUAGE plpgsql
+            as
+            $$
+                BEGIN
+                    IF (TG_OP = 'INSERT') THEN
+                        IF NEW."totalAssetQuantity" > 0 THEN
+                            UPDATE "AssetSchemes" SET "holderCount"="holderCount"+1 WHERE "assetType"=NEW."assetType";
+                        END IF;
+                        RETURN NEW;
+                    ELSEIF (TG_OP = 'UPDATE') THEN
+                        IF OLD."totalAssetQuantity" > 0 AND NOT NEW."totalAssetQuantity" > 0 THEN
+                            UPDATE "AssetSchemes" SET "holderCount"="holderCount"-1 WHERE "assetType"=NEW."assetType";
+                        ELSEIF NOT OLD."totalAssetQuantity" > 0 AND NEW."totalAssetQuantity" > 0 THEN
+                            UPDATE "AssetSchemes" SET "holderCount"="holderCount"+1 WHERE "assetType"=NEW."assetType";
+                        END IF;
+                        RETURN NEW;
+                    ELSEIF (TG_OP = 'DELETE') THEN
+                        IF OLD."totalAssetQuantity" > 0 THEN
+                            UPDATE "AssetSchemes" SET "holderCount"="holderCount"-1 WHERE "assetType"=OLD."assetType";
+                        END IF;
+                        RETURN OLD;
+                    END IF;
+                END;
+            $$;`);
+        await queryInterface.sequelize.query(`
+        CREATE TRIGGER aggs_utxos_trigger
+        AFTER INSERT OR UPDATE OR DELETE
+           ON "AggsUTXOs"
+           FOR EACH ROW
+               EXECUTE PROCEDURE aggs_utxos_trigger_function()
+        `);
+
+        await queryInterface.sequelize.query(`
+            UPDATE "AssetSchemes" SET "holderCount"=(
+                SELECT COUNT(*) FROM "AggsUTXOs"
+                WHERE "AggsUTXOs"."assetType"="AssetSchemes"."assetType" AND "AggsUTXOs"."totalAssetQuantity" > 0
+            )
+        `);
+    },
+
+    down: async (queryInterface, Sequelize) => {
+        await queryInterface.sequelize.query(
+            `DROP TRIGGER "aggs_utxos_trigger" ON "AggsUTXOs"`
+        );
+        await queryInterface.sequelize.query(
+            "DROP FUNCTION aggs_utxos_trigger_function()"
+        );
+        await queryInterface.removeIndex(
+            "AggsUTXOs",
+            "aggs_utxos_asset_type_total_asset_quantity_address"
+        );
+        await queryInterface.removeColumn("AssetSchemes", "holderCount");
+    }
+};
@@ -11,6 +11,9 @@ export interface AssetSchemeAttribute {
     supply?: string | null;
     networkId?: string | null;
     seq: number;
+    // The number of the addresses that have the asset, which a trigger on
+    // AggsUTXOs keeps
+    holderCount?: number;
 }
 
 export interface AssetSchemeInstance
@@ -71,6 +74,11 @@ export default (
                 allowNull: false,
                 type: DataTypes.STRING
             },
+            holderCount: {
+                allowNull: false,
+                type: DataTypes.INTEGER,
+                defaultValue: 0
+            },
             createdAt: {
                 allowNull: false,
                 type: DataTypes.DATE
@@ -0,0 +1,62 @@
+import * as Sequelize from "sequelize";
+
+export interface BackfillSegmentAttribute {
+    id?: string;
+    fromBlockNumber: number;
+    toBlockNumber: number;
+    // The last block whose block, transaction and action rows are created
+    indexedBlockNumber?: number | null;
+    // The last block whose derived data is updated
+    stitchedBlockNumber?: number | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface BackfillSegmentInstance
+    extends Sequelize.Instance<BackfillSegmentAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const BackfillSegment = sequelize.define(
+        "BackfillSegment",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            fromBlockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            toBlockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            indexedBlockNumber: {
+                allowNull: true,
+                type: DataTypes.INTEGER
+            },
+            stitchedBlockNumber: {
+                allowNull: true,
+                type: DataTypes.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    BackfillSegment.associate = () => {
+        // associations can be defined here
+    };
+    return BackfillSegment;
+};
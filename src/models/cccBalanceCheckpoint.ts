@@ -0,0 +1,60 @@
+import * as Sequelize from "sequelize";
+
+// The CCC balance of an address at the end of a block, which is written at
+// every checkpointInterval blocks for the addresses that have changed since
+// the last checkpoint.
+export interface CCCBalanceCheckpointAttribute {
+    id?: string;
+    address: string;
+    blockNumber: number;
+    balance: string;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CCCBalanceCheckpointInstance
+    extends Sequelize.Instance<CCCBalanceCheckpointAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const CCCBalanceCheckpoint = sequelize.define(
+        "CCCBalanceCheckpoint",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            address: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER,
+                onDelete: "CASCADE",
+                references: {
+                    model: "Blocks",
+                    key: "number"
+                }
+            },
+            balance: {
+                allowNull: false,
+                type: DataTypes.NUMERIC({ precision: 20, scale: 0 })
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    return CCCBalanceCheckpoint;
+};
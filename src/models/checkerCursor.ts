@@ -0,0 +1,45 @@
+import * as Sequelize from "sequelize";
+
+export interface CheckerCursorAttribute {
+    name: string;
+    // The last block that the checker checked
+    blockNumber: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CheckerCursorInstance
+    extends Sequelize.Instance<CheckerCursorAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const CheckerCursor = sequelize.define(
+        "CheckerCursor",
+        {
+            name: {
+                primaryKey: true,
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    CheckerCursor.associate = () => {
+        // associations can be defined here
+    };
+    return CheckerCursor;
+};
@@ -0,0 +1,80 @@
+import * as Sequelize from "sequelize";
+
+export type CheckerFindingTarget =
+    | "cccChanges"
+    | "accounts"
+    | "utxos"
+    | "assetSchemes";
+
+export interface CheckerFindingAttribute {
+    id?: string;
+    target: CheckerFindingTarget;
+    // The address, "tracker:outputIndex" or the asset type
+    key: string;
+    blockNumber: number;
+    // The value that CodeChain has. null if the chain doesn't have it.
+    expected: object | null;
+    // The value that the indexer has
+    actual: object;
+    resolved: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CheckerFindingInstance
+    extends Sequelize.Instance<CheckerFindingAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const CheckerFinding = sequelize.define(
+        "CheckerFinding",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            target: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            key: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            expected: {
+                allowNull: true,
+                type: DataTypes.JSONB
+            },
+            actual: {
+                allowNull: false,
+                type: DataTypes.JSONB
+            },
+            resolved: {
+                allowNull: false,
+                defaultValue: false,
+                type: DataTypes.BOOLEAN
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    CheckerFinding.associate = () => {
+        // associations can be defined here
+    };
+    return CheckerFinding;
+};
@@ -17,12 +17,25 @@ import {
     AssetTransferOutputInstance
 } from "./assettransferoutput";
 import { AssetTypeLogAttribute, AssetTypeLogInstance } from "./assetTypeLog";
+import {
+    BackfillSegmentAttribute,
+    BackfillSegmentInstance
+} from "./backfillSegment";
 import { BlockAttribute, BlockInstance } from "./block";
+import {
+    CCCBalanceCheckpointAttribute,
+    CCCBalanceCheckpointInstance
+} from "./cccBalanceCheckpoint";
 import { CCCChangeAttribute, CCCChangeInstance } from "./cccChanges";
 import {
     ChangeAssetSchemeAttribute,
     ChangeAssetSchemeInstance
 } from "./changeAssetScheme";
+import { CheckerCursorAttribute, CheckerCursorInstance } from "./checkerCursor";
+import {
+    CheckerFindingAttribute,
+    CheckerFindingInstance
+} from "./checkerFinding";
 import { CreateShardAttribute, CreateShardInstance } from "./createShard";
 import { CustomAttribute, CustomInstance } from "./custom";
 import {
@@ -30,9 +43,19 @@ import {
     IncreaseAssetSupplyInstance
 } from "./increaseAssetSupply";
 import { LogAttribute, LogInstance } from "./log";
+import { MempoolSampleAttribute, MempoolSampleInstance } from "./mempoolSample";
 import { MintAssetAttribute, MintAssetInstance } from "./mintAsset";
 import { PayAttribute, PayInstance } from "./pay";
+import {
+    PendingTransactionHistoryAttribute,
+    PendingTransactionHistoryInstance
+} from "./pendingTransactionHistory";
 import { RemoveAttribute, RemoveInstance } from "./remove";
+import { ReorgAttribute, ReorgInstance } from "./reorg";
+import {
+    RichListHistoryAttribute,
+    RichListHistoryInstance
+} from "./richListHistory";
 import { SetRegularKeyAttribute, SetRegularKeyInstance } from "./setRegularKey";
 import {
     SetShardOwnersAttribute,
@@ -44,6 +67,15 @@ import { TransactionAttribute, TransactionInstance } from "./transaction";
 import { TransferAssetAttribute, TransferAssetInstance } from "./transferAsset";
 import { UnwrapCCCAttribute, UnwrapCCCInstance } from "./unwrapCCC";
 import { UTXOAttribute, UTXOInstance } from "./utxo";
+import {
+    WebhookDeliveryAttribute,
+    WebhookDeliveryInstance
+} from "./webhookDelivery";
+import {
+    WebhookSubscriptionAttribute,
+    WebhookSubscriptionInstance
+} from "./webhookSubscription";
+import { WorkerLeaseAttribute, WorkerLeaseInstance } from "./workerLease";
 import { WrapCCCAttribute, WrapCCCInstance } from "./wrapCCC";
 
 const basename = path.basename(__filename);
@@ -136,6 +168,44 @@ interface DB {
     >;
     AssetTypeLog: Sequelize.Model<AssetTypeLogInstance, AssetTypeLogAttribute>;
     CCCChange: Sequelize.Model<CCCChangeInstance, CCCChangeAttribute>;
+    Reorg: Sequelize.Model<ReorgInstance, ReorgAttribute>;
+    BackfillSegment: Sequelize.Model<
+        BackfillSegmentInstance,
+        BackfillSegmentAttribute
+    >;
+    PendingTransactionHistory: Sequelize.Model<
+        PendingTransactionHistoryInstance,
+        PendingTransactionHistoryAttribute
+    >;
+    MempoolSample: Sequelize.Model<
+        MempoolSampleInstance,
+        MempoolSampleAttribute
+    >;
+    WorkerLease: Sequelize.Model<WorkerLeaseInstance, WorkerLeaseAttribute>;
+    CheckerFinding: Sequelize.Model<
+        CheckerFindingInstance,
+        CheckerFindingAttribute
+    >;
+    CheckerCursor: Sequelize.Model<
+        CheckerCursorInstance,
+        CheckerCursorAttribute
+    >;
+    WebhookSubscription: Sequelize.Model<
+        WebhookSubscriptionInstance,
+        WebhookSubscriptionAttribute
+    >;
+    WebhookDelivery: Sequelize.Model<
+        WebhookDeliveryInstance,
+        WebhookDeliveryAttribute
+    >;
+    CCCBalanceCheckpoint: Sequelize.Model<
+        CCCBalanceCheckpointInstance,
+        CCCBalanceCheckpointAttribute
+    >;
+    RichListHistory: Sequelize.Model<
+        RichListHistoryInstance,
+        RichListHistoryAttribute
+    >;
 }
 
 export default models as DB;
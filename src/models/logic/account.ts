@@ -46,6 +46,21 @@ export async function getByAddress(
     }
 }
 
+export async function getByAddresses(
+    addresses: string[]
+): Promise<AccountInstance[]> {
+    try {
+        return await models.Account.findAll({
+            where: {
+                address: addresses
+            }
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
 export async function getAccounts(params: {
     page?: number | null;
     itemsPerPage?: number | null;
@@ -1,28 +1,24 @@
 import { SignedTransaction } from "codechain-sdk/lib/core/classes";
 import { Transaction } from "sequelize";
 import models from "..";
-import { AddressLogInstance, AddressLogType } from "../addressLog";
+import { AddressLogAttribute, AddressLogType } from "../addressLog";
 import { getTracker } from "./utils/transaction";
 
-export async function createAddressLog(
+export function buildAddressLog(
     transaction: SignedTransaction,
     address: string,
-    type: AddressLogType,
-    options: { transaction?: Transaction } = {}
-): Promise<AddressLogInstance> {
-    return models.AddressLog.create(
-        {
-            transactionHash: transaction.hash().value,
-            transactionTracker: getTracker(transaction),
-            transactionType: transaction.unsigned.type(),
-            blockNumber: transaction.blockNumber,
-            transactionIndex: transaction.transactionIndex,
-            isPending: transaction.blockNumber == null,
-            address,
-            type
-        },
-        { transaction: options.transaction }
-    );
+    type: AddressLogType
+): AddressLogAttribute {
+    return {
+        transactionHash: transaction.hash().value,
+        transactionTracker: getTracker(transaction),
+        transactionType: transaction.unsigned.type(),
+        blockNumber: transaction.blockNumber,
+        transactionIndex: transaction.transactionIndex,
+        isPending: transaction.blockNumber == null,
+        address,
+        type
+    };
 }
 
 export async function updateAddressLog(
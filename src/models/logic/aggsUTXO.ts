@@ -3,6 +3,7 @@ import * as Sequelize from "sequelize";
 import models from "..";
 import * as Exception from "../../exception";
 import { aggsUTXOPagination } from "../../routers/pagination";
+import { AggsUTXOAttribute, AggsUTXOInstance } from "../aggsUTXO";
 
 export async function getByAddress(params: {
     address: string;
@@ -98,6 +99,55 @@ export async function getByAssetType(params: {
     }
 }
 
+// The addresses that have the asset in the order of the quantity
+export async function getHolders(params: {
+    assetType: H160;
+    itemsPerPage: number;
+    firstEvaluatedKey?: string[] | null;
+    lastEvaluatedKey?: string[] | null;
+}): Promise<AggsUTXOInstance[]> {
+    const {
+        assetType,
+        itemsPerPage,
+        firstEvaluatedKey,
+        lastEvaluatedKey
+    } = params;
+    const query: any[] = [
+        {
+            assetType: assetType.value,
+            totalAssetQuantity: { [Sequelize.Op.gt]: 0 }
+        }
+    ];
+    if (firstEvaluatedKey || lastEvaluatedKey) {
+        query.push(
+            aggsUTXOPagination.byQuantity.where({
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            })
+        );
+    }
+    try {
+        return await models.AggsUTXO.findAll({
+            attributes: ["address", "totalAssetQuantity", "utxoQuantity"],
+            where: {
+                [Sequelize.Op.and]: query
+            },
+            order: aggsUTXOPagination.byQuantity.orderby({
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            }),
+            limit: itemsPerPage
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export function createHolderEvaluatedKey(aggs: AggsUTXOAttribute): string {
+    return JSON.stringify([aggs.totalAssetQuantity, aggs.address]);
+}
+
 function getAggsUTXOQuery(params: {
     address?: string | null;
     assetType?: H160 | null;
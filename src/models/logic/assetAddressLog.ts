@@ -2,30 +2,26 @@ import * as assert from "assert";
 import { SignedTransaction } from "codechain-sdk/lib/core/classes";
 import { Transaction } from "sequelize";
 import models from "..";
-import { AssetAddressLogInstance } from "../assetAddressLog";
+import { AssetAddressLogAttribute } from "../assetAddressLog";
 import { strip0xPrefix } from "./utils/format";
 import { getTracker, isAssetTransactionType } from "./utils/transaction";
 
-export async function createAssetAddressLog(
+export function buildAssetAddressLog(
     transaction: SignedTransaction,
     address: string,
-    assetType: string,
-    options: { transaction?: Transaction } = {}
-): Promise<AssetAddressLogInstance> {
+    assetType: string
+): AssetAddressLogAttribute {
     assert(isAssetTransactionType(transaction.unsigned.type()));
-    return models.AssetAddressLog.create(
-        {
-            transactionHash: transaction.hash().value,
-            transactionTracker: getTracker(transaction)!,
-            transactionType: transaction.unsigned.type(),
-            blockNumber: transaction.blockNumber,
-            transactionIndex: transaction.transactionIndex,
-            isPending: transaction.blockNumber == null,
-            address,
-            assetType: strip0xPrefix(assetType)
-        },
-        { transaction: options.transaction }
-    );
+    return {
+        transactionHash: transaction.hash().value,
+        transactionTracker: getTracker(transaction)!,
+        transactionType: transaction.unsigned.type(),
+        blockNumber: transaction.blockNumber,
+        transactionIndex: transaction.transactionIndex,
+        isPending: transaction.blockNumber == null,
+        address,
+        assetType: strip0xPrefix(assetType)
+    };
 }
 
 export async function updateAssetAddressLog(
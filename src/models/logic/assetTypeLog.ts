@@ -1,29 +1,23 @@
 import { SignedTransaction } from "codechain-sdk/lib/core/classes";
 import { Transaction } from "sequelize";
 import models from "..";
-import { AssetTypeLogInstance } from "../assetTypeLog";
+import { AssetTypeLogAttribute } from "../assetTypeLog";
 import { strip0xPrefix } from "./utils/format";
 import { getTracker } from "./utils/transaction";
 
-export async function createAssetTypeLog(
+export function buildAssetTypeLog(
     transaction: SignedTransaction,
-    assetType: string,
-    options: { transaction?: Transaction } = {}
-): Promise<AssetTypeLogInstance> {
-    return models.AssetTypeLog.create(
-        {
-            transactionHash: transaction.hash().value,
-            transactionTracker: getTracker(transaction),
-            transactionType: transaction.unsigned.type(),
-            blockNumber: transaction.blockNumber,
-            transactionIndex: transaction.transactionIndex,
-            isPending: transaction.blockNumber == null,
-            assetType: strip0xPrefix(assetType)
-        },
-        {
-            transaction: options.transaction
-        }
-    );
+    assetType: string
+): AssetTypeLogAttribute {
+    return {
+        transactionHash: transaction.hash().value,
+        transactionTracker: getTracker(transaction),
+        transactionType: transaction.unsigned.type(),
+        blockNumber: transaction.blockNumber,
+        transactionIndex: transaction.transactionIndex,
+        isPending: transaction.blockNumber == null,
+        assetType: strip0xPrefix(assetType)
+    };
 }
 
 export async function updateAssetTypeLog(
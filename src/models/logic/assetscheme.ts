@@ -293,3 +293,18 @@ export async function getByAssetType(
         throw Exception.DBError();
     }
 }
+
+export async function getByAssetTypes(
+    assetTypes: string[]
+): Promise<AssetSchemeInstance[]> {
+    try {
+        return await models.AssetScheme.findAll({
+            where: {
+                assetType: assetTypes.map(strip0xPrefix)
+            }
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
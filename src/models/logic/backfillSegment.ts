@@ -0,0 +1,88 @@
+import * as Sequelize from "sequelize";
+import * as Exception from "../../exception";
+import {
+    BackfillSegmentAttribute,
+    BackfillSegmentInstance
+} from "../backfillSegment";
+import models from "../index";
+
+export async function createSegments(params: {
+    fromBlockNumber: number;
+    toBlockNumber: number;
+    segmentSize: number;
+}): Promise<BackfillSegmentInstance[]> {
+    const { fromBlockNumber, toBlockNumber, segmentSize } = params;
+    const segments: BackfillSegmentAttribute[] = [];
+    for (
+        let from = fromBlockNumber;
+        from <= toBlockNumber;
+        from += segmentSize
+    ) {
+        segments.push({
+            fromBlockNumber: from,
+            toBlockNumber: Math.min(from + segmentSize - 1, toBlockNumber)
+        });
+    }
+    try {
+        return await models.BackfillSegment.bulkCreate(segments, {
+            returning: true
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+// The segments whose derived data is not updated to the end, in order
+export async function getUnfinishedSegments(): Promise<
+    BackfillSegmentInstance[]
+> {
+    try {
+        return await models.BackfillSegment.findAll({
+            where: {
+                [Sequelize.Op.or]: [
+                    { stitchedBlockNumber: null },
+                    {
+                        stitchedBlockNumber: {
+                            [Sequelize.Op.lt]: Sequelize.col("toBlockNumber")
+                        }
+                    }
+                ]
+            },
+            order: [["fromBlockNumber", "ASC"]]
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getById(
+    id: string
+): Promise<BackfillSegmentInstance | null> {
+    try {
+        return await models.BackfillSegment.findById(id);
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function updateProgress(
+    id: string,
+    progress: {
+        indexedBlockNumber?: number;
+        stitchedBlockNumber?: number;
+    },
+    options: { transaction?: Sequelize.Transaction } = {}
+): Promise<void> {
+    try {
+        await models.BackfillSegment.update(progress, {
+            where: { id },
+            transaction: options.transaction
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
@@ -1,9 +1,14 @@
-import { SDK } from "codechain-sdk";
-import { Block, H256, U64 } from "codechain-sdk/lib/core/classes";
+import {
+    Block,
+    H256,
+    SignedTransaction,
+    U64
+} from "codechain-sdk/lib/core/classes";
 import * as _ from "lodash";
 import * as Sequelize from "sequelize";
 import * as Exception from "../../exception";
 import { blockPagination } from "../../routers/pagination";
+import { ChainSource } from "../../source";
 import { BlockAttribute, BlockInstance } from "../block";
 import models from "../index";
 import * as AddressLogModel from "./addressLog";
@@ -16,22 +21,45 @@ const rlp = require("rlp");
 
 export async function createBlock(
     block: Block,
-    sdk: SDK,
+    source: ChainSource,
     miningReward: U64,
     options: {
         transaction?: Sequelize.Transaction;
     } = {}
 ): Promise<BlockInstance> {
-    const { transaction } = options;
-    let blockInstance: BlockInstance;
+    const blockInstance = await createRawBlock(
+        block,
+        source,
+        miningReward,
+        options
+    );
+    await applyTransactions(block.transactions, source, block.number, options);
+    return blockInstance;
+}
+
+/**
+ * Creates the block, its transactions and their actions without the changes
+ * that depend on the earlier blocks, such as spending UTXOs.
+ */
+export async function createRawBlock(
+    block: Block,
+    source: ChainSource,
+    miningReward: U64,
+    options: {
+        transaction?: Sequelize.Transaction;
+        // All the transactions of the block by default
+        transactions?: SignedTransaction[];
+    } = {}
+): Promise<BlockInstance> {
+    const { transaction, transactions = block.transactions } = options;
     try {
         const { missedSigners } = await parseSigners({
             parentBlockNumber: Math.max(block.number - 1, 0),
-            sdk,
+            source,
             seal: block.seal.map(s => Buffer.from(s))
         });
 
-        blockInstance = await models.Block.create(
+        const blockInstance = await models.Block.create(
             {
                 parentHash: strip0xPrefix(block.parentHash.value),
                 timestamp: block.timestamp,
@@ -53,33 +81,10 @@ export async function createBlock(
             },
             { transaction }
         );
-
-        const newTxs = [];
-        for (const tx of block.transactions) {
-            if (
-                (await TxModel.tryUpdateTransaction(
-                    tx,
-                    block.timestamp,
-                    options
-                )) == null
-            ) {
-                newTxs.push(tx);
-            } else {
-                await AddressLogModel.updateAddressLog(tx, options);
-                await AssetTypeLogModel.updateAssetTypeLog(tx, options);
-                await AssetAddressLogModel.updateAssetAddressLog(tx, options);
-            }
-        }
-        await TxModel.createTransactions(
-            newTxs,
-            false,
-            block.timestamp,
-            options
-        );
-
-        for (const tx of block.transactions) {
-            await TxModel.applyTransaction(tx, sdk, block.number, options);
-        }
+        await createBlockTransactions(transactions, block.timestamp, {
+            transaction
+        });
+        return blockInstance;
     } catch (err) {
         if (err instanceof Sequelize.UniqueConstraintError) {
             const duplicateFields = (err as any).fields;
@@ -90,7 +95,47 @@ export async function createBlock(
         console.error(err);
         throw Exception.DBError();
     }
-    return blockInstance;
+}
+
+// Indexes the transactions of a block. The pending ones are updated.
+export async function createBlockTransactions(
+    txs: SignedTransaction[],
+    timestamp: number,
+    options: {
+        transaction?: Sequelize.Transaction;
+    } = {}
+) {
+    const newTxs = [];
+    for (const tx of txs) {
+        if (
+            (await TxModel.tryUpdateTransaction(tx, timestamp, options)) == null
+        ) {
+            newTxs.push(tx);
+        } else {
+            await AddressLogModel.updateAddressLog(tx, options);
+            await AssetTypeLogModel.updateAssetTypeLog(tx, options);
+            await AssetAddressLogModel.updateAssetAddressLog(tx, options);
+        }
+    }
+    await TxModel.createTransactions(newTxs, false, timestamp, options);
+}
+
+export async function applyTransactions(
+    txs: SignedTransaction[],
+    source: ChainSource,
+    blockNumber: number,
+    options: {
+        transaction?: Sequelize.Transaction;
+    } = {}
+) {
+    try {
+        for (const tx of txs) {
+            await TxModel.applyTransaction(tx, source, blockNumber, options);
+        }
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
 }
 
 export async function getByHash(
@@ -112,11 +157,15 @@ export async function getByHash(
 }
 
 export async function deleteBlockByNumber(
-    blockNumber: number
+    blockNumber: number,
+    options: {
+        transaction?: Sequelize.Transaction;
+    } = {}
 ): Promise<number> {
     try {
         return await models.Block.destroy({
-            where: { number: blockNumber }
+            where: { number: blockNumber },
+            transaction: options.transaction
         });
     } catch (err) {
         console.log(err);
@@ -274,6 +323,21 @@ export async function setIntermediateRewards(
     }
 }
 
+export async function getByNumbers(
+    blockNumbers: number[]
+): Promise<BlockInstance[]> {
+    try {
+        return await models.Block.findAll({
+            where: {
+                number: blockNumbers
+            }
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
 export async function getBlocksByNumber(
     fromBlockNumber: number,
     toBlockNumber: number
@@ -327,20 +391,19 @@ function unsetBitIndices(bitset: number[], validatorCount: number): number[] {
 }
 
 async function parseSigners({
-    sdk,
+    source,
     parentBlockNumber,
     seal
 }: {
-    sdk: SDK;
+    source: ChainSource;
     parentBlockNumber: number;
     seal: Buffer[];
 }): Promise<{ missedSigners: string[] }> {
     const PRECOMMIT_BITSET_IDX = 3;
     const precommitBitset = decodeBitsetField(seal[PRECOMMIT_BITSET_IDX]);
 
-    const validatorAddresses = await sdk.rpc.sendRpcRequest(
-        "chain_getPossibleAuthors",
-        [parentBlockNumber]
+    const validatorAddresses = await source.getPossibleAuthors(
+        parentBlockNumber
     );
 
     // PoW or Solo consensus
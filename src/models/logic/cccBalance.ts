@@ -0,0 +1,175 @@
+import BigNumber from "bignumber.js";
+import * as Sequelize from "sequelize";
+import { Transaction } from "sequelize";
+import * as Exception from "../../exception";
+import models from "../index";
+
+export interface CCCBalance {
+    address: string;
+    balance: string;
+}
+
+// The balances at the end of :blockNumber of the addresses that the query
+// selects. The changes are summed from the last checkpoint of each address.
+function balancesQuery(addressQuery: string): string {
+    return `WITH "Address" AS (${addressQuery}), "Checkpoint" AS (
+        SELECT DISTINCT ON ("address") "address", "blockNumber", "balance"
+        FROM "CCCBalanceCheckpoints"
+        WHERE "address" IN (SELECT "address" FROM "Address")
+          AND "blockNumber" <= :blockNumber
+        ORDER BY "address", "blockNumber" DESC
+    )
+    SELECT "Address"."address", CAST(
+        COALESCE("Checkpoint"."balance", 0) + COALESCE((
+            SELECT SUM("change") FROM "CCCChanges"
+            WHERE "CCCChanges"."address"="Address"."address"
+              AND "CCCChanges"."blockNumber" > COALESCE("Checkpoint"."blockNumber", -1)
+              AND "CCCChanges"."blockNumber" <= :blockNumber
+        ), 0) AS text) AS "balance"
+    FROM "Address"
+    LEFT JOIN "Checkpoint" ON "Checkpoint"."address"="Address"."address"`;
+}
+
+/**
+ * Writes the checkpoints at the block for the addresses whose CCC changed
+ * since the last checkpoint block.
+ */
+export async function createCheckpoints(
+    blockNumber: number,
+    options: { transaction?: Transaction } = {}
+) {
+    const { transaction } = options;
+    try {
+        const [{ previous }]: any[] = await models.sequelize.query(
+            `SELECT COALESCE(MAX("blockNumber"), -1) AS "previous"
+            FROM "CCCBalanceCheckpoints" WHERE "blockNumber" < :blockNumber`,
+            {
+                replacements: { blockNumber },
+                transaction,
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        await models.sequelize.query(
+            `INSERT INTO "CCCBalanceCheckpoints" ("address", "blockNumber", "balance", "createdAt", "updatedAt")
+            SELECT "address", :blockNumber, CAST("balance" AS NUMERIC), NOW(), NOW()
+            FROM (${balancesQuery(
+                `SELECT DISTINCT "address" FROM "CCCChanges"
+                WHERE "blockNumber" > :previous AND "blockNumber" <= :blockNumber`
+            )}) AS "Balance"`,
+            {
+                replacements: { blockNumber, previous },
+                transaction,
+                type: Sequelize.QueryTypes.INSERT
+            }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Writes the checkpoints at and after the block again, after the CCCChanges
+ * of the block are rebuilt.
+ */
+export async function rebuildCheckpoints(
+    fromBlockNumber: number,
+    options: { transaction?: Transaction } = {}
+) {
+    const { transaction } = options;
+    const where = {
+        blockNumber: { [Sequelize.Op.gte]: fromBlockNumber }
+    };
+    try {
+        const blockNumbers = (await models.CCCBalanceCheckpoint.findAll({
+            attributes: ["blockNumber"],
+            where,
+            group: ["blockNumber"],
+            order: [["blockNumber", "ASC"]],
+            transaction
+        })).map(inst => inst.get("blockNumber"));
+        await models.CCCBalanceCheckpoint.destroy({ where, transaction });
+        for (const blockNumber of blockNumbers) {
+            await createCheckpoints(blockNumber, { transaction });
+        }
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the CCC balance of the address at the end of the block.
+ */
+export async function getBalance(
+    address: string,
+    blockNumber: number
+): Promise<string> {
+    try {
+        const [row]: CCCBalance[] = await models.sequelize.query(
+            balancesQuery(`SELECT CAST(:address AS varchar) AS "address"`),
+            {
+                replacements: { address, blockNumber },
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        return row.balance;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the addresses that have CCC at the end of the block with their
+ * balances, in the order of the address. The Accounts are read in batches and
+ * only the balances of a batch are computed at a time.
+ */
+export async function getSnapshot(params: {
+    blockNumber: number;
+    itemsPerPage: number;
+    lastEvaluatedKey?: string[] | null;
+}) {
+    const { blockNumber, itemsPerPage, lastEvaluatedKey } = params;
+    const batchSize = itemsPerPage + 1;
+    try {
+        const rows: CCCBalance[] = [];
+        let lastAddress = lastEvaluatedKey ? lastEvaluatedKey[0] : "";
+        while (rows.length < batchSize) {
+            const balances: CCCBalance[] = await models.sequelize.query(
+                `SELECT * FROM (${balancesQuery(
+                    `SELECT "address" FROM "Accounts"
+                    WHERE "address" > :lastAddress
+                    ORDER BY "address"
+                    LIMIT :batchSize`
+                )}) AS "Balance"
+                ORDER BY "address"`,
+                {
+                    replacements: { blockNumber, lastAddress, batchSize },
+                    type: Sequelize.QueryTypes.SELECT
+                }
+            );
+            rows.push(
+                ...balances.filter(({ balance }) =>
+                    new BigNumber(balance).isGreaterThan(0)
+                )
+            );
+            if (balances.length < batchSize) {
+                break;
+            }
+            lastAddress = balances[balances.length - 1].address;
+        }
+        const data = rows.slice(0, itemsPerPage);
+        const lastRow = data[data.length - 1];
+        return {
+            data,
+            hasNextPage: rows.length > itemsPerPage,
+            hasPreviousPage: null,
+            firstEvaluatedKey: null,
+            lastEvaluatedKey: lastRow ? JSON.stringify([lastRow.address]) : null
+        };
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
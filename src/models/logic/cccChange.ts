@@ -1,4 +1,6 @@
+import BigNumber from "bignumber.js";
 import { U64 } from "codechain-sdk/lib/core/classes";
+import * as _ from "lodash";
 import { Transaction } from "sequelize";
 import * as Sequelize from "sequelize";
 import * as Exception from "../../exception";
@@ -301,7 +303,8 @@ export async function getCountByAddress(
 }
 
 export async function getByBlockNumber(
-    blockNumber: number
+    blockNumber: number,
+    options: { transaction?: Transaction } = {}
 ): Promise<CCCChangeInstance[]> {
     try {
         return await models.CCCChange.findAll({
@@ -314,7 +317,8 @@ export async function getByBlockNumber(
             ],
             where: {
                 blockNumber
-            }
+            },
+            transaction: options.transaction
         });
     } catch (err) {
         console.error(err);
@@ -342,3 +346,159 @@ export async function getNominations(
         throw Exception.DBError();
     }
 }
+
+export type StatementPeriodUnit = "day" | "week" | "month";
+
+export interface StatementPeriod {
+    // The first and the last dates of the period in the timezone
+    from: string;
+    to: string;
+    openingBalance: string;
+    closingBalance: string;
+    // The sum of the changes of each reason in the period
+    totals: { [reason: string]: string };
+}
+
+export async function isTimezone(name: string): Promise<boolean> {
+    try {
+        const rows: any[] = await models.sequelize.query(
+            `SELECT 1 FROM pg_timezone_names WHERE "name"=:name`,
+            {
+                replacements: { name },
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        return rows.length > 0;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the date of the first CCCChange of the address in the timezone.
+ */
+export async function getFirstChangeDate(
+    address: string,
+    timezone: string
+): Promise<string | null> {
+    try {
+        const [row]: any[] = await models.sequelize.query(
+            `SELECT to_char(MIN(to_timestamp("Block"."timestamp") AT TIME ZONE :timezone), 'YYYY-MM-DD') AS "date"
+            FROM "CCCChanges" AS "CCCChange"
+            JOIN "Blocks" AS "Block" ON "Block"."number"="CCCChange"."blockNumber"
+            WHERE "CCCChange"."address"=:address`,
+            {
+                replacements: { address, timezone },
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        return row.date;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the CCC balances and the totals of the reasons of the address for
+ * each period from the one that has fromDate to the one that has toDate. The
+ * periods are split at the midnights of the timezone, and a week starts on
+ * Monday.
+ */
+export async function getStatement(params: {
+    address: string;
+    period: StatementPeriodUnit;
+    timezone: string;
+    // YYYY-MM-DD in the timezone
+    fromDate: string;
+    // The default is today in the timezone
+    toDate?: string | null;
+}): Promise<StatementPeriod[]> {
+    const { address, period, timezone, fromDate, toDate } = params;
+    const replacements = {
+        address,
+        period,
+        timezone,
+        fromDate,
+        toDate,
+        interval: `1 ${period}`
+    };
+    const toTime =
+        toDate == null
+            ? `NOW() AT TIME ZONE :timezone`
+            : `CAST(:toDate AS timestamp)`;
+    // The time of a change in the timezone
+    const localTime = `to_timestamp("Block"."timestamp") AT TIME ZONE :timezone`;
+    try {
+        const [opening]: any[] = await models.sequelize.query(
+            `SELECT CAST(COALESCE(SUM("CCCChange"."change"), 0) AS text) AS "balance"
+            FROM "CCCChanges" AS "CCCChange"
+            JOIN "Blocks" AS "Block" ON "Block"."number"="CCCChange"."blockNumber"
+            WHERE "CCCChange"."address"=:address
+              AND ${localTime} < date_trunc(:period, CAST(:fromDate AS timestamp))`,
+            {
+                replacements,
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        // The sums are NUMERIC, so they are exact.
+        const rows: {
+            from: string;
+            to: string;
+            reason: string | null;
+            total: string | null;
+        }[] = await models.sequelize.query(
+            `WITH "Period" AS (
+                SELECT generate_series(
+                    date_trunc(:period, CAST(:fromDate AS timestamp)),
+                    date_trunc(:period, ${toTime}),
+                    CAST(:interval AS interval)
+                ) AS "start"
+            ), "Change" AS (
+                SELECT date_trunc(:period, ${localTime}) AS "start", "CCCChange"."reason", "CCCChange"."change"
+                FROM "CCCChanges" AS "CCCChange"
+                JOIN "Blocks" AS "Block" ON "Block"."number"="CCCChange"."blockNumber"
+                WHERE "CCCChange"."address"=:address
+            )
+            SELECT to_char("Period"."start", 'YYYY-MM-DD') AS "from",
+                to_char("Period"."start" + CAST(:interval AS interval) - INTERVAL '1 day', 'YYYY-MM-DD') AS "to",
+                "Change"."reason", CAST(SUM("Change"."change") AS text) AS "total"
+            FROM "Period" LEFT JOIN "Change" ON "Change"."start"="Period"."start"
+            GROUP BY "Period"."start", "Change"."reason"
+            ORDER BY "Period"."start"`,
+            {
+                replacements,
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+
+        const statement: StatementPeriod[] = [];
+        let balance = new BigNumber(opening.balance);
+        for (const row of rows) {
+            let current = statement[statement.length - 1];
+            if (current == null || current.from !== row.from) {
+                current = {
+                    from: row.from,
+                    to: row.to,
+                    openingBalance: balance.toString(10),
+                    closingBalance: balance.toString(10),
+                    totals: _.fromPairs(
+                        defaultAllReasons.map(reason => [reason, "0"])
+                    )
+                };
+                statement.push(current);
+            }
+            // A period without a change has a row without a reason.
+            if (row.reason != null) {
+                balance = balance.plus(row.total!);
+                current.totals[row.reason] = row.total!;
+                current.closingBalance = balance.toString(10);
+            }
+        }
+        return statement;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
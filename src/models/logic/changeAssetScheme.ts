@@ -7,7 +7,6 @@ import { Transaction } from "sequelize";
 import models from "..";
 import { ChangeAssetSchemeInstance } from "../changeAssetScheme";
 import * as AssetImageModel from "./assetimage";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { strip0xPrefix } from "./utils/format";
 
 export async function createChangeAssetScheme(
@@ -58,6 +57,5 @@ export async function createChangeAssetScheme(
             metadataObj.icon_url
         );
     }
-    await createAssetTypeLog(transaction, assetType, options);
     return inst;
 }
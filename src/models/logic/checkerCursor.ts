@@ -0,0 +1,30 @@
+import * as Exception from "../../exception";
+import models from "../index";
+
+export const CCC_CHANGES_CURSOR_NAME = "cccChanges";
+
+/**
+ * Returns the last block that the checker checked, or null if it has never
+ * checked a block.
+ */
+export async function getCursor(name: string): Promise<number | null> {
+    try {
+        const cursorInst = await models.CheckerCursor.findByPk(name);
+        return cursorInst ? cursorInst.get("blockNumber") : null;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function setCursor(
+    name: string,
+    blockNumber: number
+): Promise<void> {
+    try {
+        await models.CheckerCursor.upsert({ name, blockNumber });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
@@ -0,0 +1,116 @@
+import * as Exception from "../../exception";
+import { checkerFindingPagination } from "../../routers/pagination";
+import {
+    CheckerFindingAttribute,
+    CheckerFindingInstance,
+    CheckerFindingTarget
+} from "../checkerFinding";
+import models from "../index";
+
+/**
+ * Records a mismatch that the checker found. The unresolved finding of the
+ * same row is updated instead of adding another one. A CCCChanges finding is
+ * of a block, so the ones of the other blocks are kept.
+ */
+export async function recordFinding(params: {
+    target: CheckerFindingTarget;
+    key: string;
+    blockNumber: number;
+    expected: object | null;
+    actual: object;
+}): Promise<CheckerFindingInstance> {
+    const { target, key, blockNumber, expected, actual } = params;
+    try {
+        const findingInst = await models.CheckerFinding.findOne({
+            where: {
+                target,
+                key,
+                resolved: false,
+                ...(target === "cccChanges" && { blockNumber })
+            }
+        });
+        if (findingInst) {
+            return await findingInst.update({ blockNumber, expected, actual });
+        }
+        return await models.CheckerFinding.create({
+            target,
+            key,
+            blockNumber,
+            expected,
+            actual,
+            resolved: false
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function resolveFinding(id: string): Promise<void> {
+    try {
+        await models.CheckerFinding.update(
+            { resolved: true },
+            { where: { id } }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getUnresolvedFindings(
+    targets: CheckerFindingTarget[]
+): Promise<CheckerFindingInstance[]> {
+    try {
+        return await models.CheckerFinding.findAll({
+            where: { target: targets, resolved: false },
+            order: [["id", "ASC"]]
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getFindings(params: {
+    resolved?: boolean | null;
+    target?: CheckerFindingTarget | null;
+    itemsPerPage: number;
+    firstEvaluatedKey?: [number] | null;
+    lastEvaluatedKey?: [number] | null;
+}): Promise<CheckerFindingInstance[]> {
+    const {
+        resolved,
+        target,
+        itemsPerPage,
+        firstEvaluatedKey,
+        lastEvaluatedKey
+    } = params;
+    try {
+        return await models.CheckerFinding.findAll({
+            order: checkerFindingPagination.orderby({
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            }),
+            limit: itemsPerPage,
+            where: {
+                ...(resolved != null && { resolved }),
+                ...(target != null && { target }),
+                ...((firstEvaluatedKey || lastEvaluatedKey) &&
+                    checkerFindingPagination.where({
+                        firstEvaluatedKey,
+                        lastEvaluatedKey
+                    }))
+            }
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export function createCheckerFindingEvaluatedKey(
+    finding: CheckerFindingAttribute
+) {
+    return JSON.stringify([Number(finding.id)]);
+}
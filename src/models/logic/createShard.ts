@@ -1,7 +1,7 @@
-import { SDK } from "codechain-sdk";
 import { SignedTransaction } from "codechain-sdk/lib/core/classes";
 import { CreateShardActionJSON } from "codechain-sdk/lib/core/transaction/CreateShard";
 import { Transaction } from "sequelize";
+import { ChainSource } from "../../source";
 import { CreateShardInstance } from "../createShard";
 import models from "../index";
 import { TransactionInstance } from "../transaction";
@@ -24,11 +24,11 @@ export async function createCreateShard(
 
 export async function updateShardId(
     tx: TransactionInstance,
-    sdk: SDK,
+    source: ChainSource,
     options: { transaction?: Transaction } = {}
 ) {
     const { hash } = tx.get();
-    const shardId = await sdk.rpc.chain.getShardIdByHash(hash);
+    const shardId = await source.getShardIdByHash(hash);
     await models.CreateShard.update(
         {
             shardId: shardId!
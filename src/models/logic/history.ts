@@ -0,0 +1,285 @@
+import BigNumber from "bignumber.js";
+import { AssetAddress } from "codechain-sdk/lib/core/classes";
+import * as _ from "lodash";
+import * as Sequelize from "sequelize";
+import * as Exception from "../../exception";
+import { AddressLogAttribute } from "../addressLog";
+import { AssetAddressLogAttribute } from "../assetAddressLog";
+import models from "../index";
+
+/**
+ * A transaction that the address is involved in, with what it changed for
+ * the address.
+ */
+export interface HistoryRow {
+    timestamp: number;
+    blockNumber: number;
+    transactionIndex: number;
+    hash: string;
+    type: string;
+    success: boolean;
+    // The AddressLogTypes of the address. AssetOwner for an AssetAddress.
+    roles: string[];
+    // The receiver of the payment that the address signed, or the signer
+    counterparty: string | null;
+    // The sum of the CCCChanges of the address by the transaction
+    cccDelta: string;
+    assetDeltas: { [assetType: string]: string };
+    // The fee that the address paid as the signer
+    fee: string;
+}
+
+interface HistoryLog {
+    transactionHash: string;
+    blockNumber: number;
+    transactionIndex: number;
+    roles?: string[];
+}
+
+/**
+ * Returns the history of a PlatformAddress from the AddressLogs, or of an
+ * AssetAddress from the AssetAddressLogs, in the order of the chain.
+ */
+export async function getHistory(params: {
+    address: string;
+    fromBlockNumber?: number | null;
+    toBlockNumber?: number | null;
+    types?: string[] | null;
+    // The [blockNumber, transactionIndex] of the last row of the previous page
+    after?: [number, number] | null;
+    itemsPerPage: number;
+}): Promise<HistoryRow[]> {
+    const { address } = params;
+    const isAssetAddress = AssetAddress.check(address);
+    try {
+        const logs = await getLogs(params, isAssetAddress);
+        if (logs.length === 0) {
+            return [];
+        }
+        const hashes = logs.map(log => log.transactionHash);
+        const transactions = _.keyBy(
+            (await models.Transaction.findAll({
+                where: { hash: hashes },
+                include: [{ model: models.Pay, as: "pay" }]
+            })).map(i => i.get({ plain: true })),
+            "hash"
+        );
+        const cccDeltas = isAssetAddress
+            ? {}
+            : sumByHash(
+                  await models.CCCChange.findAll({
+                      attributes: ["transactionHash", "change"],
+                      where: { address, transactionHash: hashes }
+                  }).then(instances =>
+                      instances.map(i => ({
+                          hash: i.get("transactionHash")!,
+                          quantity: i.get("change")
+                      }))
+                  )
+              );
+        const assetDeltas = isAssetAddress
+            ? await getAssetDeltas(address, hashes)
+            : {};
+        return logs.map(log => {
+            const tx = transactions[log.transactionHash];
+            const isSigner = tx.signer === address;
+            const counterparty =
+                isSigner && tx.pay
+                    ? tx.pay.receiver
+                    : isSigner
+                    ? null
+                    : tx.signer;
+            return {
+                timestamp: tx.timestamp!,
+                blockNumber: log.blockNumber,
+                transactionIndex: log.transactionIndex,
+                hash: log.transactionHash,
+                type: tx.type!,
+                success: tx.errorHint == null,
+                roles: isAssetAddress ? ["AssetOwner"] : log.roles!,
+                counterparty: counterparty || null,
+                cccDelta: (
+                    cccDeltas[log.transactionHash] || new BigNumber(0)
+                ).toString(10),
+                assetDeltas: _.mapValues(
+                    assetDeltas[log.transactionHash] || {},
+                    delta => delta.toString(10)
+                ),
+                fee: isSigner ? tx.fee : "0"
+            };
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the range of the numbers of the blocks whose timestamps are in the
+ * range. The range is empty if fromBlockNumber is greater than toBlockNumber.
+ */
+export async function getBlockNumberRange(params: {
+    fromTimestamp?: number | null;
+    toTimestamp?: number | null;
+}): Promise<{ fromBlockNumber: number | null; toBlockNumber: number | null }> {
+    const { fromTimestamp, toTimestamp } = params;
+    try {
+        const fromBlock =
+            fromTimestamp == null
+                ? null
+                : await models.Block.findOne({
+                      attributes: ["number"],
+                      where: {
+                          timestamp: { [Sequelize.Op.gte]: fromTimestamp }
+                      },
+                      order: [["number", "ASC"]]
+                  });
+        const toBlock =
+            toTimestamp == null
+                ? null
+                : await models.Block.findOne({
+                      attributes: ["number"],
+                      where: { timestamp: { [Sequelize.Op.lte]: toTimestamp } },
+                      order: [["number", "DESC"]]
+                  });
+        return {
+            fromBlockNumber:
+                fromTimestamp == null
+                    ? null
+                    : fromBlock
+                    ? fromBlock.get("number")
+                    : // No block is after fromTimestamp yet
+                      Number.MAX_SAFE_INTEGER,
+            toBlockNumber:
+                toTimestamp == null
+                    ? null
+                    : toBlock
+                    ? toBlock.get("number")
+                    : -1
+        };
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+async function getLogs(
+    params: {
+        address: string;
+        fromBlockNumber?: number | null;
+        toBlockNumber?: number | null;
+        types?: string[] | null;
+        after?: [number, number] | null;
+        itemsPerPage: number;
+    },
+    isAssetAddress: boolean
+): Promise<HistoryLog[]> {
+    const {
+        address,
+        fromBlockNumber,
+        toBlockNumber,
+        types,
+        after,
+        itemsPerPage
+    } = params;
+    const whereCond: any[] = [
+        {
+            address,
+            isPending: false,
+            ...(types != null && { transactionType: types })
+        }
+    ];
+    if (fromBlockNumber != null) {
+        whereCond.push({
+            blockNumber: { [Sequelize.Op.gte]: fromBlockNumber }
+        });
+    }
+    if (toBlockNumber != null) {
+        whereCond.push({ blockNumber: { [Sequelize.Op.lte]: toBlockNumber } });
+    }
+    if (after != null) {
+        whereCond.push(
+            Sequelize.literal(
+                `("blockNumber", "transactionIndex")>(${after[0]}, ${after[1]})`
+            )
+        );
+    }
+    const columns = ["transactionHash", "blockNumber", "transactionIndex"];
+    const options: Sequelize.FindOptions<
+        AddressLogAttribute & AssetAddressLogAttribute
+    > = {
+        attributes: isAssetAddress
+            ? columns
+            : [
+                  ...columns,
+                  [
+                      Sequelize.fn(
+                          "array_agg",
+                          Sequelize.literal(`DISTINCT "type"`)
+                      ),
+                      "roles"
+                  ]
+              ],
+        where: { [Sequelize.Op.and]: whereCond },
+        // An address has a log for each role, or each asset type
+        group: columns,
+        order: [["blockNumber", "ASC"], ["transactionIndex", "ASC"]],
+        limit: itemsPerPage,
+        raw: true
+    };
+    const rows: any[] = isAssetAddress
+        ? await models.AssetAddressLog.findAll(options)
+        : await models.AddressLog.findAll(options);
+    return rows.map(row => ({
+        transactionHash: row.transactionHash,
+        blockNumber: row.blockNumber,
+        transactionIndex: row.transactionIndex,
+        ...(row.roles != null && { roles: row.roles })
+    }));
+}
+
+// The UTXOs that the transactions created minus the ones that they spent
+async function getAssetDeltas(
+    address: string,
+    hashes: string[]
+): Promise<{ [hash: string]: { [assetType: string]: BigNumber } }> {
+    const created = await models.UTXO.findAll({
+        attributes: ["transactionHash", "assetType", "quantity"],
+        where: { address, transactionHash: hashes }
+    });
+    const spent = await models.UTXO.findAll({
+        attributes: ["usedTransactionHash", "assetType", "quantity"],
+        where: { address, usedTransactionHash: hashes }
+    });
+    const changes = [
+        ...created.map(i => ({
+            hash: i.get("transactionHash"),
+            assetType: i.get("assetType"),
+            quantity: new BigNumber(i.get("quantity"))
+        })),
+        ...spent.map(i => ({
+            hash: i.get("usedTransactionHash")!,
+            assetType: i.get("assetType"),
+            quantity: new BigNumber(i.get("quantity")).negated()
+        }))
+    ];
+    return _.mapValues(_.groupBy(changes, "hash"), changesOfTx =>
+        _.mapValues(_.groupBy(changesOfTx, "assetType"), changesOfAsset =>
+            changesOfAsset.reduce(
+                (sum, { quantity }) => sum.plus(quantity),
+                new BigNumber(0)
+            )
+        )
+    );
+}
+
+function sumByHash(
+    changes: { hash: string; quantity: string }[]
+): { [hash: string]: BigNumber } {
+    return _.mapValues(_.groupBy(changes, "hash"), changesOfTx =>
+        changesOfTx.reduce(
+            (sum, { quantity }) => sum.plus(quantity),
+            new BigNumber(0)
+        )
+    );
+}
@@ -11,9 +11,7 @@ import {
 import { Transaction } from "sequelize";
 import { IncreaseAssetSupplyInstance } from "../increaseAssetSupply";
 import models from "../index";
-import { createAssetAddressLog } from "./assetAddressLog";
 import { createAssetTransferOutput } from "./assettransferoutput";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { getOwner } from "./utils/address";
 import { strip0xPrefix } from "./utils/format";
 
@@ -65,9 +63,5 @@ export async function createIncreaseAssetSupply(
         { networkId },
         options
     );
-    if (recipient) {
-        await createAssetAddressLog(transaction, recipient, assetType, options);
-    }
-    await createAssetTypeLog(transaction, assetType, options);
     return inst;
 }
@@ -0,0 +1,43 @@
+import * as Sequelize from "sequelize";
+import * as Exception from "../../exception";
+import models from "../index";
+import { MempoolSampleInstance } from "../mempoolSample";
+
+// Samples older than this are removed
+const RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export async function createSample(
+    count: number,
+    timestamp: number
+): Promise<MempoolSampleInstance> {
+    try {
+        await models.MempoolSample.destroy({
+            where: {
+                timestamp: {
+                    [Sequelize.Op.lt]: timestamp - RETENTION_SECONDS
+                }
+            }
+        });
+        return await models.MempoolSample.create({ count, timestamp });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+// The latest samples in the order of timestamp
+export async function getLatestSamples(
+    limit: number
+): Promise<MempoolSampleInstance[]> {
+    try {
+        const instances = await models.MempoolSample.findAll({
+            attributes: ["timestamp", "count"],
+            order: [["timestamp", "DESC"]],
+            limit
+        });
+        return instances.reverse();
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
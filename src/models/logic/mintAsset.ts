@@ -8,11 +8,8 @@ import { MintAssetActionJSON } from "codechain-sdk/lib/core/transaction/MintAsse
 import { Transaction } from "sequelize";
 import models from "../index";
 import { MintAssetInstance } from "../mintAsset";
-import { createAddressLog } from "./addressLog";
-import { createAssetAddressLog } from "./assetAddressLog";
 import { createAssetScheme } from "./assetscheme";
 import { createAssetTransferOutput } from "./assettransferoutput";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { getOwner } from "./utils/address";
 import { getAssetName } from "./utils/asset";
 import { strip0xPrefix } from "./utils/format";
@@ -103,18 +100,6 @@ export async function createMintAsset(
         { networkId },
         options
     );
-    await Promise.all<any>([
-        approver != null
-            ? createAddressLog(transaction, approver, "Approver", options)
-            : Promise.resolve(null),
-        registrar != null
-            ? createAddressLog(transaction, registrar, "Registrar", options)
-            : Promise.resolve(null),
-        recipient != null
-            ? createAssetAddressLog(transaction, recipient, assetType, options)
-            : Promise.resolve(null),
-        createAssetTypeLog(transaction, assetType, options)
-    ]);
     return inst;
 }
 
@@ -3,7 +3,6 @@ import { PayActionJSON } from "codechain-sdk/lib/core/transaction/Pay";
 import { Transaction } from "sequelize";
 import models from "../index";
 import { PayInstance } from "../pay";
-import { createAddressLog } from "./addressLog";
 import { strip0xPrefix } from "./utils/format";
 
 export async function createPay(
@@ -20,6 +19,5 @@ export async function createPay(
         },
         { transaction: options.transaction }
     );
-    await createAddressLog(transaction, receiver, "AssetOwner", options);
     return instance;
 }
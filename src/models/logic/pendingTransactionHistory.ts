@@ -0,0 +1,110 @@
+import { H256 } from "codechain-sdk/lib/core/classes";
+import * as Sequelize from "sequelize";
+import * as Exception from "../../exception";
+import models from "../index";
+import { PendingTransactionHistoryInstance } from "../pendingTransactionHistory";
+import { strip0xPrefix } from "./utils/format";
+
+// A dropped transaction can still be mined or replaced later.
+const UNRESOLVED = { [Sequelize.Op.or]: [null, "dropped"] };
+
+/**
+ * Records the hashes in the mempool as seen at the timestamp, which clears
+ * the outcome of the ones that come back. The other pending transactions
+ * that are not resolved yet are marked as dropped.
+ */
+export async function updateMempool(
+    hashes: string[],
+    timestamp: number
+): Promise<void> {
+    try {
+        const seenHashes = await models.PendingTransactionHistory.findAll({
+            attributes: ["hash"],
+            where: { hash: hashes }
+        }).then(instances => instances.map(i => i.get("hash")));
+        const newPendings = await models.Transaction.findAll({
+            attributes: ["hash", "signer", "seq", "pendingTimestamp"],
+            where: {
+                hash: hashes.filter(hash => seenHashes.indexOf(hash) === -1),
+                isPending: true
+            }
+        });
+        await models.PendingTransactionHistory.bulkCreate(
+            newPendings.map(i => ({
+                hash: i.get("hash"),
+                signer: i.get("signer"),
+                seq: i.get("seq"),
+                firstSeen: i.get("pendingTimestamp") || timestamp,
+                lastSeen: timestamp
+            }))
+        );
+        await models.PendingTransactionHistory.update(
+            {
+                lastSeen: timestamp,
+                outcome: null,
+                blockNumber: null,
+                replacedBy: null
+            },
+            { where: { hash: seenHashes } }
+        );
+        await models.PendingTransactionHistory.update(
+            { outcome: "dropped" },
+            {
+                where: {
+                    outcome: { [Sequelize.Op.eq]: null },
+                    // NOT IN with an empty list matches nothing
+                    ...(hashes.length > 0
+                        ? { hash: { [Sequelize.Op.notIn]: hashes } }
+                        : {})
+                }
+            }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function markMined(
+    hashes: string[],
+    blockNumber: number
+): Promise<void> {
+    try {
+        await models.PendingTransactionHistory.update(
+            { outcome: "mined", blockNumber },
+            { where: { hash: hashes, outcome: UNRESOLVED } }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function markReplaced(
+    replacements: { hash: string; replacedBy: string }[]
+): Promise<void> {
+    try {
+        for (const { hash, replacedBy } of replacements) {
+            await models.PendingTransactionHistory.update(
+                { outcome: "replaced", replacedBy },
+                { where: { hash, outcome: UNRESOLVED } }
+            );
+        }
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getByHash(
+    hash: H256
+): Promise<PendingTransactionHistoryInstance | null> {
+    try {
+        return await models.PendingTransactionHistory.findByPk(
+            strip0xPrefix(hash.value)
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
@@ -0,0 +1,98 @@
+import * as _ from "lodash";
+import { Transaction } from "sequelize";
+import * as Exception from "../../exception";
+import { reorgPagination } from "../../routers/pagination";
+import { BlockAttribute } from "../block";
+import models from "../index";
+import { ReorgAttribute, ReorgInstance } from "../reorg";
+import * as CCCChangeModel from "./cccChange";
+
+export async function createReorg(
+    params: {
+        // The retracted blocks and the hashes of the new blocks at the same
+        // numbers
+        retractedBlocks: BlockAttribute[];
+        newHashes: string[];
+    },
+    options: { transaction?: Transaction } = {}
+): Promise<ReorgInstance> {
+    const { transaction } = options;
+    const retracted = _.zip(params.retractedBlocks, params.newHashes).sort(
+        ([a], [b]) => a!.number - b!.number
+    );
+    const blockNumbers = retracted.map(([block]) => block!.number);
+    try {
+        const retractedTransactionHashes = await models.Transaction.findAll({
+            attributes: ["hash"],
+            where: {
+                blockNumber: blockNumbers
+            },
+            order: [["blockNumber", "ASC"], ["transactionIndex", "ASC"]],
+            transaction
+        }).then(instances => instances.map(i => i.get("hash")));
+        const retractedCCCChanges = _.flatten(
+            await Promise.all(
+                blockNumbers.map(blockNumber =>
+                    CCCChangeModel.getByBlockNumber(blockNumber, {
+                        transaction
+                    })
+                )
+            )
+        ).map(i => i.get({ plain: true }));
+        return await models.Reorg.create(
+            {
+                forkBlockNumber: blockNumbers[0] - 1,
+                depth: retracted.length,
+                oldHashes: retracted.map(([block]) => block!.hash),
+                newHashes: retracted.map(([, hash]) => hash!),
+                retractedTransactionHashes,
+                retractedCCCChanges,
+                timestamp: Math.floor(Date.now() / 1000)
+            },
+            { transaction }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getReorgs(params: {
+    itemsPerPage: number;
+    firstEvaluatedKey?: [number] | null;
+    lastEvaluatedKey?: [number] | null;
+}): Promise<ReorgInstance[]> {
+    const { itemsPerPage, firstEvaluatedKey, lastEvaluatedKey } = params;
+    try {
+        return await models.Reorg.findAll({
+            order: reorgPagination.orderby({
+                firstEvaluatedKey,
+                lastEvaluatedKey
+            }),
+            limit: itemsPerPage,
+            where: {
+                ...((firstEvaluatedKey || lastEvaluatedKey) &&
+                    reorgPagination.where({
+                        firstEvaluatedKey,
+                        lastEvaluatedKey
+                    }))
+            }
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getById(id: number): Promise<ReorgInstance | null> {
+    try {
+        return await models.Reorg.findById(id);
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export function createReorgEvaluatedKey(reorg: ReorgAttribute) {
+    return JSON.stringify([Number(reorg.id)]);
+}
@@ -0,0 +1,261 @@
+import BigNumber from "bignumber.js";
+import * as moment from "moment";
+import * as Sequelize from "sequelize";
+import * as Exception from "../../exception";
+import models from "../index";
+import { RichListHistoryInstance } from "../richListHistory";
+import * as BlockModel from "./block";
+
+export interface RichListConfig {
+    // The addresses that are not ranked, such as the ones of the foundation
+    excludedAddresses: string[];
+    // The number of the top holders whose share is recorded every day
+    topN: number;
+    // The lower bounds of the balance buckets of the distribution except 0
+    bucketBounds: string[];
+}
+
+export interface RichListAccount {
+    rank: number;
+    address: string;
+    balance: string;
+    // The percentage of the total supply
+    percentage: number;
+}
+
+export interface BalanceBucket {
+    min: string;
+    // null for the last bucket
+    max: string | null;
+    holders: number;
+    balance: string;
+}
+
+export interface CCCDistribution {
+    // The sum of the balances of all the accounts including the excluded ones
+    totalSupply: string;
+    holders: number;
+    buckets: BalanceBucket[];
+    // null without a holder
+    gini: number | null;
+}
+
+// The condition of the accounts that are ranked
+function holderCondition(excludedAddresses: string[]): string {
+    return excludedAddresses.length > 0
+        ? `"balance" > 0 AND "address" NOT IN (:excludedAddresses)`
+        : `"balance" > 0`;
+}
+
+export async function getTotalSupply(): Promise<string> {
+    try {
+        const [{ totalSupply }]: any[] = await models.sequelize.query(
+            `SELECT CAST(COALESCE(SUM("balance"), 0) AS text) AS "totalSupply" FROM "Accounts"`,
+            { type: Sequelize.QueryTypes.SELECT }
+        );
+        return totalSupply;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the accounts in the order of the balance except the excluded ones.
+ */
+export async function getRichList(params: {
+    excludedAddresses: string[];
+    totalSupply: string;
+    page: number;
+    itemsPerPage: number;
+}): Promise<RichListAccount[]> {
+    const { excludedAddresses, totalSupply, page, itemsPerPage } = params;
+    const offset = (page - 1) * itemsPerPage;
+    try {
+        const rows: {
+            address: string;
+            balance: string;
+        }[] = await models.sequelize.query(
+            `SELECT "address", CAST("balance" AS text) AS "balance" FROM "Accounts"
+            WHERE ${holderCondition(excludedAddresses)}
+            ORDER BY "balance" DESC, "address" DESC
+            LIMIT :limit OFFSET :offset`,
+            {
+                replacements: {
+                    excludedAddresses,
+                    limit: itemsPerPage,
+                    offset
+                },
+                type: Sequelize.QueryTypes.SELECT
+            }
+        );
+        return rows.map(({ address, balance }, index) => ({
+            rank: offset + index + 1,
+            address,
+            balance,
+            percentage: new BigNumber(totalSupply).isZero()
+                ? 0
+                : new BigNumber(balance)
+                      .times(100)
+                      .div(totalSupply)
+                      .toNumber()
+        }));
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the number of the holders in each bucket of the balance and the
+ * Gini coefficient of the balances except the excluded accounts.
+ */
+export async function getDistribution(params: {
+    excludedAddresses: string[];
+    bucketBounds: string[];
+}): Promise<CCCDistribution> {
+    const { excludedAddresses } = params;
+    const bounds = params.bucketBounds
+        .map(bound => new BigNumber(bound))
+        .sort((a, b) => a.comparedTo(b))
+        .map(bound => bound.toString(10));
+    const replacements = { excludedAddresses, bounds };
+    try {
+        const totalSupply = await getTotalSupply();
+        // width_bucket returns i for the balances in [bounds[i - 1], bounds[i])
+        const bucket =
+            bounds.length === 0
+                ? "0"
+                : `width_bucket("balance", CAST(ARRAY[:bounds] AS NUMERIC[]))`;
+        const bucketRows: {
+            bucket: number;
+            holders: string;
+            balance: string;
+        }[] = await models.sequelize.query(
+            `SELECT ${bucket} AS "bucket", COUNT(*) AS "holders",
+                CAST(SUM("balance") AS text) AS "balance"
+            FROM "Accounts"
+            WHERE ${holderCondition(excludedAddresses)}
+            GROUP BY "bucket"`,
+            { replacements, type: Sequelize.QueryTypes.SELECT }
+        );
+        // G = 2 * sum(i * x_i) / (n * sum(x_i)) - (n + 1) / n with the
+        // balances x_i in the ascending order
+        const [gini]: {
+            holders: string;
+            balance: string;
+            weightedBalance: string;
+        }[] = await models.sequelize.query(
+            `SELECT COUNT(*) AS "holders",
+                CAST(COALESCE(SUM("balance"), 0) AS text) AS "balance",
+                CAST(COALESCE(SUM("rank" * "balance"), 0) AS text) AS "weightedBalance"
+            FROM (
+                SELECT "balance", ROW_NUMBER() OVER (ORDER BY "balance") AS "rank"
+                FROM "Accounts"
+                WHERE ${holderCondition(excludedAddresses)}
+            ) AS "Holder"`,
+            { replacements, type: Sequelize.QueryTypes.SELECT }
+        );
+        const holders = parseInt(gini.holders, 10);
+
+        const buckets = [["0", ...bounds], [...bounds, null]];
+        return {
+            totalSupply,
+            holders,
+            buckets: buckets[0].map((min, index) => {
+                const row = bucketRows.find(r => r.bucket === index);
+                return {
+                    min: min!,
+                    max: buckets[1][index],
+                    holders: row ? parseInt(row.holders, 10) : 0,
+                    balance: row ? row.balance : "0"
+                };
+            }),
+            gini:
+                holders === 0 || new BigNumber(gini.balance).isZero()
+                    ? null
+                    : new BigNumber(gini.weightedBalance)
+                          .times(2)
+                          .div(new BigNumber(gini.balance).times(holders))
+                          .minus(new BigNumber(holders + 1).div(holders))
+                          .toNumber()
+        };
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Records the distribution once a day by the time of the latest block.
+ */
+export async function recordHistoryIfNeeded(config: RichListConfig) {
+    const { excludedAddresses, topN } = config;
+    try {
+        const latestBlockInst = await BlockModel.getLatestBlock();
+        if (latestBlockInst == null) {
+            return;
+        }
+        const latestBlock = latestBlockInst.get({ plain: true });
+        const date = moment
+            .unix(latestBlock.timestamp)
+            .utc()
+            .format("YYYY-MM-DD");
+        if ((await models.RichListHistory.count({ where: { date } })) > 0) {
+            return;
+        }
+        const totalSupply = await getTotalSupply();
+        const top = await getRichList({
+            excludedAddresses,
+            totalSupply,
+            page: 1,
+            itemsPerPage: topN
+        });
+        const { holders, gini } = await getDistribution({
+            excludedAddresses,
+            bucketBounds: []
+        });
+        await models.RichListHistory.create({
+            date,
+            blockNumber: latestBlock.number,
+            topN,
+            topBalance: top
+                .reduce(
+                    (sum, { balance }) => sum.plus(balance),
+                    new BigNumber(0)
+                )
+                .toString(10),
+            totalSupply,
+            holders,
+            gini
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+// The latest records in the order of the date
+export async function getHistory(
+    days: number
+): Promise<RichListHistoryInstance[]> {
+    try {
+        const instances = await models.RichListHistory.findAll({
+            attributes: [
+                "date",
+                "blockNumber",
+                "topN",
+                "topBalance",
+                "totalSupply",
+                "holders",
+                "gini"
+            ],
+            order: [["date", "DESC"]],
+            limit: days
+        });
+        return instances.reverse();
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
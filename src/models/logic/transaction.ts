@@ -1,5 +1,4 @@
 import * as assert from "assert";
-import { SDK } from "codechain-sdk";
 import {
     AssetAddress,
     H256,
@@ -16,10 +15,10 @@ import {
     txPagination
 } from "../../routers/pagination";
 import { blockTxPagination } from "../../routers/pagination";
+import { ChainSource } from "../../source";
 import { AddressLogType } from "../addressLog";
 import models from "../index";
 import { TransactionAttribute, TransactionInstance } from "../transaction";
-import { createAddressLog } from "./addressLog";
 import { updateAssetScheme } from "./assetscheme";
 import { createChangeAssetScheme } from "./changeAssetScheme";
 import { createCreateShard, updateShardId } from "./createShard";
@@ -27,17 +26,19 @@ import { createCustom } from "./custom";
 import { createIncreaseAssetSupply } from "./increaseassetsupply";
 import { createMintAsset } from "./mintAsset";
 import { createPay } from "./pay";
+import { markReplaced } from "./pendingTransactionHistory";
 import { createRemove } from "./remove";
 import { createSetRegularKey } from "./setRegularKey";
 import { createSetShardOwners } from "./setShardOwners";
 import { createSetShardUsers } from "./setShardUsers";
 import { createStore } from "./store";
+import { createTransactionLogs } from "./transactionLog";
 import { createTransferAsset } from "./transferAsset";
 import { createUnwrapCCC } from "./unwrapCCC";
 import { strip0xPrefix } from "./utils/format";
 import { fullIncludeArray } from "./utils/includeArray";
 import { getTracker, isAssetTransactionType } from "./utils/transaction";
-import { getApprovers, getSigners } from "./utils/workerpool";
+import { getSigners } from "./utils/workerpool";
 import { setUTXOTransactionIndex, transferUTXO } from "./utxo";
 import { createWrapCCC } from "./wrapCCC";
 
@@ -104,31 +105,10 @@ export async function createTransactions(
             })),
             { transaction: options.transaction }
         );
-        for (const tx of txs) {
-            await createTransactionAction(tx, options);
+        for (let i = 0; i < txs.length; i++) {
+            await createTransactionAction(txs[i], options);
+            await createTransactionLogs(txs[i], signers[i], options);
         }
-        const allApprovers = await getApprovers(txs);
-        await Promise.all(
-            allApprovers.map(async (approvers, i) => {
-                if (approvers != null) {
-                    await Promise.all(
-                        approvers.map(approver =>
-                            createAddressLog(
-                                txs[i],
-                                approver,
-                                "TransactionApprover",
-                                options
-                            )
-                        )
-                    );
-                }
-            })
-        );
-        await Promise.all(
-            txs.map((tx, i) =>
-                createAddressLog(tx, signers[i], "TransactionSigner", options)
-            )
-        );
         return txInstances;
     } catch (err) {
         if (err instanceof Sequelize.UniqueConstraintError) {
@@ -214,7 +194,7 @@ async function createTransactionAction(
 
 export async function applyTransaction(
     tx: SignedTransaction,
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number,
     options: {
         transaction?: Sequelize.Transaction;
@@ -231,7 +211,7 @@ export async function applyTransaction(
     if (type === "createShard") {
         await updateShardId(
             (await getByHash(tx.hash(), options))!,
-            sdk,
+            source,
             options
         );
     }
@@ -249,6 +229,55 @@ export async function applyTransaction(
     }
 }
 
+/**
+ * Recovers the signers again with the regular keys set until `blockNumber`.
+ * The signers are wrong when the transactions are indexed before the
+ * SetRegularKey transactions of the earlier blocks.
+ */
+export async function refreshSigners(
+    txs: SignedTransaction[],
+    blockNumber: number,
+    options: { transaction?: Sequelize.Transaction } = {}
+) {
+    const { transaction } = options;
+    try {
+        // One by one to use the regular keys set by the earlier transactions
+        for (const tx of txs) {
+            const [signer] = await getSigners([tx], {
+                transaction,
+                blockNumber
+            });
+            const hash = strip0xPrefix(tx.hash().value);
+            const [updated] = await models.Transaction.update(
+                { signer },
+                {
+                    where: {
+                        hash,
+                        signer: { [Sequelize.Op.ne]: signer }
+                    },
+                    transaction
+                }
+            );
+            if (updated > 0) {
+                const addressLogType: AddressLogType = "TransactionSigner";
+                await models.AddressLog.update(
+                    { address: signer },
+                    {
+                        where: {
+                            transactionHash: hash,
+                            type: addressLogType
+                        },
+                        transaction
+                    }
+                );
+            }
+        }
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
 export async function getPendingTransactions(params: {
     address?: string | null;
     itemsPerPage: number;
@@ -388,6 +417,91 @@ async function getPendingHashesByPlatformAddress(params: {
     }
 }
 
+export interface PendingFeeDistribution {
+    min: string;
+    p25: string;
+    median: string;
+    p75: string;
+    p90: string;
+    max: string;
+}
+
+export interface PendingStats {
+    count: number;
+    distinctSigners: number;
+    oldestPendingTimestamp: number | null;
+    types: {
+        [type: string]: {
+            count: number;
+            fee: PendingFeeDistribution;
+        };
+    };
+}
+
+export async function getPendingStats(): Promise<PendingStats> {
+    try {
+        const rows: any[] = await models.Transaction.findAll({
+            attributes: [
+                "type",
+                [Sequelize.fn("COUNT", Sequelize.col("hash")), "count"],
+                [Sequelize.fn("MIN", Sequelize.col("fee")), "min"],
+                [
+                    Sequelize.literal(
+                        `percentile_disc(ARRAY[0.25, 0.5, 0.75, 0.9]) WITHIN GROUP (ORDER BY "fee")`
+                    ),
+                    "percentiles"
+                ],
+                [Sequelize.fn("MAX", Sequelize.col("fee")), "max"],
+                [
+                    Sequelize.fn("MIN", Sequelize.col("pendingTimestamp")),
+                    "oldestPendingTimestamp"
+                ]
+            ],
+            where: { isPending: true },
+            group: ["type"],
+            raw: true
+        });
+        const distinctSigners = await models.Transaction.count({
+            where: { isPending: true },
+            distinct: true,
+            col: "signer"
+        });
+        const oldestPendingTimestamps = rows
+            .map(row => row.oldestPendingTimestamp)
+            .filter(timestamp => timestamp != null);
+        return {
+            count: _.sumBy(rows, row => parseInt(row.count, 10)),
+            distinctSigners,
+            oldestPendingTimestamp:
+                oldestPendingTimestamps.length > 0
+                    ? _.min(oldestPendingTimestamps)
+                    : null,
+            types: _.fromPairs(
+                rows.map(row => {
+                    const [p25, median, p75, p90] = row.percentiles;
+                    return [
+                        row.type,
+                        {
+                            count: parseInt(row.count, 10),
+                            fee: {
+                                min: row.min,
+                                p25,
+                                median,
+                                p75,
+                                p90,
+                                max: row.max
+                            }
+                        }
+                    ];
+                })
+            )
+        };
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
 export async function getAllPendingTransactionHashes() {
     try {
         return models.Transaction.findAll({
@@ -421,6 +535,39 @@ export async function getByHash(
     }
 }
 
+export async function getByHashes(
+    hashes: string[]
+): Promise<TransactionInstance[]> {
+    try {
+        return await models.Transaction.findAll({
+            where: {
+                hash: hashes.map(strip0xPrefix)
+            },
+            include: fullIncludeArray
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getByBlockNumbers(
+    blockNumbers: number[]
+): Promise<TransactionInstance[]> {
+    try {
+        return await models.Transaction.findAll({
+            where: {
+                blockNumber: blockNumbers
+            },
+            order: [["blockNumber", "ASC"], ["transactionIndex", "ASC"]],
+            include: fullIncludeArray
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
 export async function getByTracker(
     tracker: H256
 ): Promise<TransactionInstance[]> {
@@ -468,34 +615,47 @@ export async function removePendings(hashes: H256[]): Promise<void> {
     }
 }
 
+// Removes the pending transactions that are replaced by the updated ones
+// with the same signer and seq
 export async function removeOutdatedPendings(
     updatedTransactions: SignedTransaction[]
 ): Promise<void> {
     try {
-        await models.Transaction.destroy({
-            where: {
-                [Sequelize.Op.and]: [
-                    { isPending: true },
-                    {
-                        [Sequelize.Op.or]: updatedTransactions.map(i => ({
-                            [Sequelize.Op.and]: [
-                                {
-                                    seq: i.toJSON().seq,
-                                    signer: i.getSignerAddress({
-                                        networkId: i.toJSON().networkId
-                                    }).value
-                                },
-                                {
-                                    [Sequelize.Op.not]: {
-                                        hash: strip0xPrefix(i.hash().value)
-                                    }
-                                }
-                            ]
-                        }))
-                    }
-                ]
-            }
+        const updated = updatedTransactions.map(i => ({
+            hash: strip0xPrefix(i.hash().value),
+            seq: i.toJSON().seq,
+            signer: i.getSignerAddress({
+                networkId: i.toJSON().networkId
+            }).value
+        }));
+        const where = {
+            [Sequelize.Op.and]: [
+                { isPending: true },
+                {
+                    [Sequelize.Op.or]: updated.map(({ hash, seq, signer }) => ({
+                        [Sequelize.Op.and]: [
+                            { seq, signer },
+                            { [Sequelize.Op.not]: { hash } }
+                        ]
+                    }))
+                }
+            ]
+        };
+        const outdated = await models.Transaction.findAll({
+            attributes: ["hash", "seq", "signer"],
+            where
         });
+        await markReplaced(
+            outdated.map(i => ({
+                hash: i.get("hash"),
+                replacedBy: _.find(
+                    updated,
+                    ({ seq, signer }) =>
+                        seq === i.get("seq") && signer === i.get("signer")
+                )!.hash
+            }))
+        );
+        await models.Transaction.destroy({ where });
     } catch (err) {
         console.error(err);
         throw Exception.DBError();
@@ -807,6 +967,68 @@ export async function getTransactionsOfBlock(params: {
     }
 }
 
+/**
+ * Returns the transactions of the block that involve the address or the
+ * asset type, or all of them without a filter, in the order of the block.
+ */
+export async function getFilteredTransactionsOfBlock(params: {
+    blockNumber: number;
+    address?: string | null;
+    assetType?: string | null;
+}): Promise<TransactionInstance[]> {
+    const { blockNumber, address, assetType } = params;
+    try {
+        const hashes =
+            address != null || assetType != null
+                ? await getHashesOfBlock({ blockNumber, address, assetType })
+                : null;
+        return await models.Transaction.findAll({
+            where: {
+                blockNumber,
+                ...(hashes && { hash: hashes })
+            },
+            order: [["transactionIndex", "ASC"]],
+            include: [...fullIncludeArray]
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Returns the hashes of the transactions of the block from the AddressLogs,
+ * the AssetAddressLogs or the AssetTypeLogs.
+ */
+export async function getHashesOfBlock(
+    params: {
+        blockNumber: number;
+        address?: string | null;
+        assetType?: string | null;
+    },
+    options: { transaction?: Transaction } = {}
+): Promise<string[]> {
+    const { blockNumber, address, assetType } = params;
+    const findOptions = {
+        attributes: ["transactionHash"],
+        where: {
+            blockNumber,
+            ...(address != null && { address }),
+            ...(assetType != null && { assetType })
+        },
+        transaction: options.transaction
+    };
+    let instances: Sequelize.Instance<{ transactionHash: string }>[];
+    if (address == null) {
+        instances = await models.AssetTypeLog.findAll(findOptions);
+    } else if (assetType != null || AssetAddress.check(address)) {
+        instances = await models.AssetAddressLog.findAll(findOptions);
+    } else {
+        instances = await models.AddressLog.findAll(findOptions);
+    }
+    return _.uniq(instances.map(i => i.get("transactionHash")));
+}
+
 export function createBlockTxEvaluatedKey(tx: TransactionAttribute) {
     return JSON.stringify([tx.transactionIndex]);
 }
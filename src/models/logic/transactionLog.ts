@@ -0,0 +1,183 @@
+import { SignedTransaction } from "codechain-sdk/lib/core/classes";
+import { WrapCCCActionJSON } from "codechain-sdk/lib/core/transaction/WrapCCC";
+import * as _ from "lodash";
+import { Transaction } from "sequelize";
+import { AddressLogAttribute, AddressLogType } from "../addressLog";
+import { AssetAddressLogAttribute } from "../assetAddressLog";
+import { AssetTypeLogAttribute } from "../assetTypeLog";
+import models from "../index";
+import { buildAddressLog } from "./addressLog";
+import { buildAssetAddressLog } from "./assetAddressLog";
+import { buildAssetTypeLog } from "./assetTypeLog";
+import { strip0xPrefix } from "./utils/format";
+import { getApprovers } from "./utils/workerpool";
+
+const WCCC_ASSET_TYPE = "0000000000000000000000000000000000000000";
+
+export interface TransactionLogs {
+    addressLogs: AddressLogAttribute[];
+    assetAddressLogs: AssetAddressLogAttribute[];
+    assetTypeLogs: AssetTypeLogAttribute[];
+}
+
+/**
+ * Returns the AddressLogs, AssetAddressLogs and AssetTypeLogs of the
+ * transaction. They are built from the indexed action of the transaction.
+ */
+export async function getTransactionLogs(
+    tx: SignedTransaction,
+    signer: string,
+    options: { transaction?: Transaction } = {}
+): Promise<TransactionLogs> {
+    const { transaction } = options;
+    const logs: TransactionLogs = {
+        addressLogs: [],
+        assetAddressLogs: [],
+        assetTypeLogs: []
+    };
+    const addAddressLog = (address: string, type: AddressLogType) =>
+        logs.addressLogs.push(buildAddressLog(tx, address, type));
+    const addAssetAddressLog = (address: string, assetType: string) =>
+        logs.assetAddressLogs.push(
+            buildAssetAddressLog(tx, address, assetType)
+        );
+    const addAssetTypeLog = (assetType: string) =>
+        logs.assetTypeLogs.push(buildAssetTypeLog(tx, assetType));
+
+    const hash = strip0xPrefix(tx.hash().value);
+    switch (tx.unsigned.type()) {
+        case "mintAsset": {
+            const {
+                approver,
+                registrar,
+                recipient,
+                assetType
+            } = (await models.MintAsset.findByPk(hash, { transaction }))!.get({
+                plain: true
+            });
+            if (approver != null) {
+                addAddressLog(approver, "Approver");
+            }
+            if (registrar != null) {
+                addAddressLog(registrar, "Registrar");
+            }
+            if (recipient != null) {
+                addAssetAddressLog(recipient, assetType);
+            }
+            addAssetTypeLog(assetType);
+            break;
+        }
+        case "transferAsset": {
+            const {
+                inputs,
+                burns,
+                outputs
+            } = (await models.TransferAsset.findByPk(hash, {
+                transaction
+            }))!.get({ plain: true });
+            const addresses: string[] = _.uniq([
+                ...inputs
+                    .filter(i => i.prevOut.owner)
+                    .map(i => i.prevOut.owner!),
+                ...burns
+                    .filter(b => b.prevOut.owner)
+                    .map(b => b.prevOut.owner!),
+                ...outputs.filter(o => o.owner).map(o => o.owner!)
+            ]);
+            const assetTypes: string[] = _.uniq([
+                ...inputs.map(i => i.assetType),
+                ...burns.map(b => b.assetType),
+                ...outputs.map(o => o.assetType)
+            ]);
+            assetTypes.forEach(addAssetTypeLog);
+            // NOTE: TransferAsset can have many inputs and outputs, and some
+            // addresses may not be related to a specific asset type if it's a
+            // CoinJoin(https://en.bitcoin.it/wiki/CoinJoin) transaction.
+            // However, it creates combinations of all the asset addresses and
+            // the asset types because there is no clear way to tell which
+            // addresses are not related to which asset types.
+            for (const address of addresses) {
+                for (const assetType of assetTypes) {
+                    addAssetAddressLog(address, assetType);
+                }
+            }
+            break;
+        }
+        case "wrapCCC": {
+            const { payer } = tx.toJSON().action as WrapCCCActionJSON;
+            const { recipient } = (await models.WrapCCC.findByPk(hash, {
+                transaction
+            }))!.get({ plain: true });
+            addAddressLog(payer, "AssetOwner");
+            if (recipient) {
+                addAssetAddressLog(recipient, WCCC_ASSET_TYPE);
+            }
+            addAssetTypeLog(WCCC_ASSET_TYPE);
+            break;
+        }
+        case "unwrapCCC": {
+            const { receiver, burn } = (await models.UnwrapCCC.findByPk(hash, {
+                transaction
+            }))!.get({ plain: true });
+            if (burn.prevOut.owner) {
+                addAssetAddressLog(burn.prevOut.owner, WCCC_ASSET_TYPE);
+            }
+            addAddressLog(receiver, "AssetOwner");
+            addAssetTypeLog(WCCC_ASSET_TYPE);
+            break;
+        }
+        case "changeAssetScheme": {
+            const { assetType } = (await models.ChangeAssetScheme.findByPk(
+                hash,
+                { transaction }
+            ))!.get({ plain: true });
+            addAssetTypeLog(assetType);
+            break;
+        }
+        case "increaseAssetSupply": {
+            const {
+                recipient,
+                assetType
+            } = (await models.IncreaseAssetSupply.findByPk(hash, {
+                transaction
+            }))!.get({ plain: true });
+            if (recipient) {
+                addAssetAddressLog(recipient, assetType);
+            }
+            addAssetTypeLog(assetType);
+            break;
+        }
+        case "pay": {
+            const { receiver } = (await models.Pay.findByPk(hash, {
+                transaction
+            }))!.get({ plain: true });
+            addAddressLog(receiver, "AssetOwner");
+            break;
+        }
+    }
+
+    const [approvers] = await getApprovers([tx]);
+    if (approvers != null) {
+        approvers.forEach(approver =>
+            addAddressLog(approver, "TransactionApprover")
+        );
+    }
+    addAddressLog(signer, "TransactionSigner");
+    return logs;
+}
+
+export async function createTransactionLogs(
+    tx: SignedTransaction,
+    signer: string,
+    options: { transaction?: Transaction } = {}
+) {
+    const { transaction } = options;
+    const {
+        addressLogs,
+        assetAddressLogs,
+        assetTypeLogs
+    } = await getTransactionLogs(tx, signer, options);
+    await models.AddressLog.bulkCreate(addressLogs, { transaction });
+    await models.AssetAddressLog.bulkCreate(assetAddressLogs, { transaction });
+    await models.AssetTypeLog.bulkCreate(assetTypeLogs, { transaction });
+}
@@ -9,16 +9,13 @@ import {
     TransferAsset,
     TransferAssetActionJSON
 } from "codechain-sdk/lib/core/transaction/TransferAsset";
-import * as _ from "lodash";
 import { Transaction } from "sequelize";
 import models from "../index";
 import { TransferAssetInstance } from "../transferAsset";
-import { createAssetAddressLog } from "./assetAddressLog";
 import {
     createAssetTransferOutput,
     getOutputOwner
 } from "./assettransferoutput";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { getOwner } from "./utils/address";
 import { strip0xPrefix } from "./utils/format";
 
@@ -223,49 +220,5 @@ export async function createTransferAsset(
             );
         })
     );
-    const {
-        inputs: resultInputs,
-        burns: resultBurns,
-        outputs: resultOutputs
-    } = result.get({ plain: true });
-    const addresses: string[] = _.uniq([
-        ..._.uniq(
-            resultInputs.filter(i => i.prevOut.owner).map(i => i.prevOut.owner!)
-        ),
-        ..._.uniq(
-            resultBurns.filter(b => b.prevOut.owner).map(b => b.prevOut.owner!)
-        ),
-        ..._.uniq(resultOutputs.filter(o => o.owner).map(o => o.owner!))
-    ]);
-    const assetTypes: string[] = _.uniq([
-        ..._.uniq(resultInputs.map(i => i.assetType)),
-        ..._.uniq(resultBurns.map(b => b.assetType)),
-        ..._.uniq(resultOutputs.map(o => o.assetType))
-    ]);
-    await Promise.all(
-        assetTypes.map(assetType =>
-            createAssetTypeLog(transaction, assetType, options)
-        )
-    );
-    // NOTE: TransferAsset can have many inputs and outputs, and some addresses
-    // may not be related to a specific asset type if it's a
-    // CoinJoin(https://en.bitcoin.it/wiki/CoinJoin) transaction. However, it
-    // creates combinations of all the asset addresses and the asset types
-    // because there is no clear way to tell which addresses are not related to
-    // which asset types.
-    await Promise.all(
-        addresses.map(address =>
-            Promise.all(
-                assetTypes.map(assetType =>
-                    createAssetAddressLog(
-                        transaction,
-                        address,
-                        assetType,
-                        options
-                    )
-                )
-            )
-        )
-    );
     return result;
 }
@@ -6,10 +6,7 @@ import {
 import { Transaction } from "sequelize";
 import models from "../index";
 import { UnwrapCCCInstance } from "../unwrapCCC";
-import { createAddressLog } from "./addressLog";
-import { createAssetAddressLog } from "./assetAddressLog";
 import { getOutputOwner } from "./assettransferoutput";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { strip0xPrefix } from "./utils/format";
 
 export async function createUnwrapCCC(
@@ -50,11 +47,5 @@ export async function createUnwrapCCC(
         },
         { transaction: options.transaction }
     );
-    const assetType = "0000000000000000000000000000000000000000";
-    if (owner) {
-        await createAssetAddressLog(transaction, owner, assetType, options);
-    }
-    await createAddressLog(transaction, receiver, "AssetOwner", options);
-    await createAssetTypeLog(transaction, assetType, options);
     return instance;
 }
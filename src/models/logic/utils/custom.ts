@@ -1,11 +1,5 @@
 import { PlatformAddress, U64 } from "codechain-primitives/lib";
-import { SDK } from "codechain-sdk";
-import {
-    getBanned,
-    getCandidates,
-    getJailed,
-    getTermMetadata
-} from "codechain-stakeholder-sdk";
+import { ChainSource } from "../../../source";
 
 interface BecomeEligible {
     address: PlatformAddress;
@@ -13,14 +7,17 @@ interface BecomeEligible {
 }
 
 export async function getBecomeEligible(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number
 ): Promise<BecomeEligible[]> {
-    const termMetadata = await getTermMetadata(sdk, blockNumber);
+    const termMetadata = await source.getTermMetadata(blockNumber);
+    if (!termMetadata) {
+        return [];
+    }
+    const [lastTermFinishedBlockNumber] = termMetadata;
     if (
-        !termMetadata ||
-        termMetadata.lastTermFinishedBlockNumber === 0 ||
-        termMetadata.lastTermFinishedBlockNumber !== blockNumber
+        lastTermFinishedBlockNumber === 0 ||
+        lastTermFinishedBlockNumber !== blockNumber
     ) {
         return [];
     }
@@ -28,22 +25,23 @@ export async function getBecomeEligible(
     const result: BecomeEligible[] = [];
 
     const currentCandidateOrJailedOrBanned = new Set([
-        ...(await getCandidates(sdk, blockNumber)).map(
+        ...(await source.getCandidates(blockNumber)).map(
             ({ pubkey }) =>
-                PlatformAddress.fromPublic(pubkey, { networkId: sdk.networkId })
-                    .value
+                PlatformAddress.fromPublic(pubkey, {
+                    networkId: source.networkId
+                }).value
         ),
-        ...(await getJailed(sdk, blockNumber)).map(
+        ...(await source.getJailed(blockNumber)).map(
             ({ address }) => address.value
         ),
-        ...(await getBanned(sdk, blockNumber)).map(address => address.value)
+        ...(await source.getBanned(blockNumber)).map(address => address.value)
     ]);
 
     // candidates -> eligible
-    const previousCandidates = await getCandidates(sdk, blockNumber - 1);
+    const previousCandidates = await source.getCandidates(blockNumber - 1);
     for (const { pubkey, deposit } of previousCandidates) {
         const address = PlatformAddress.fromPublic(pubkey, {
-            networkId: sdk.networkId
+            networkId: source.networkId
         });
         if (currentCandidateOrJailedOrBanned.has(address.value)) {
             continue;
@@ -57,7 +55,7 @@ export async function getBecomeEligible(
     }
 
     // jailed -> eligible
-    const previousJailed = await getJailed(sdk, blockNumber - 1);
+    const previousJailed = await source.getJailed(blockNumber - 1);
     for (const { address, deposit } of previousJailed) {
         if (currentCandidateOrJailedOrBanned.has(address.value)) {
             continue;
@@ -1,25 +1,57 @@
 import { NextFunction, Request, RequestHandler, Response } from "express";
 import { SERVICE_UNAVAILABLE } from "http-status-codes";
 import { IndexerContext } from "../../../context";
+import * as BlockModel from "../block";
 
+const SYNC_WAIT_TIMEOUT = 30 * 1000;
+
+// An API-only process waits for the worker of another process instead of
+// syncing by itself.
 export function syncIfNeeded(context: IndexerContext): RequestHandler {
     return async (req, res, next) => {
         if (req.query.sync === true) {
             try {
-                await context.worker.sync();
+                if (context.options.role === "api") {
+                    if (!(await waitForSync(context))) {
+                        res.status(SERVICE_UNAVAILABLE).send();
+                        return;
+                    }
+                } else {
+                    await context.worker.sync();
+                }
             } catch (e) {
                 const error = e as Error;
                 if (error.message.search(/ECONNRESET|ECONNREFUSED/) >= 0) {
                     res.status(SERVICE_UNAVAILABLE).send();
                     return;
                 }
-                next(e);
+                return next(e);
             }
         }
         next();
     };
 }
 
+// Returns false if the database doesn't catch up with the best block of
+// CodeChain in SYNC_WAIT_TIMEOUT.
+async function waitForSync(context: IndexerContext): Promise<boolean> {
+    const bestBlockNumber = await context.source.getBestBlockNumber();
+    const deadline = Date.now() + SYNC_WAIT_TIMEOUT;
+    for (;;) {
+        const latestBlockInst = await BlockModel.getLatestBlock();
+        if (
+            latestBlockInst &&
+            latestBlockInst.get("number") >= bestBlockNumber
+        ) {
+            return true;
+        }
+        if (Date.now() >= deadline) {
+            return false;
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+    }
+}
+
 export function parseEvaluatedKey(
     req: Request,
     _: Response,
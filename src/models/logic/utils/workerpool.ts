@@ -39,7 +39,12 @@ const getSignersFromPubKeyAndRegularKeyOwner = (
 
 export const getSigners = async (
     txs: SignedTransaction[],
-    options: { transaction?: Sequelize.Transaction; threshold?: number } = {}
+    options: {
+        transaction?: Sequelize.Transaction;
+        threshold?: number;
+        // Ignore the regular keys set after this block
+        blockNumber?: number;
+    } = {}
 ): Promise<string[]> => {
     const threshold = options.threshold == null ? 400 : options.threshold;
     if (txs.length < threshold) {
@@ -49,7 +54,10 @@ export const getSigners = async (
                 const pubKey = tx.getSignerPublic().value;
                 const regularKeyOwner = await getRegularKeyOwnerByPublicKey(
                     pubKey,
-                    { transaction: options.transaction }
+                    {
+                        transaction: options.transaction,
+                        blockNumber: options.blockNumber
+                    }
                 );
                 if (regularKeyOwner != null) {
                     return regularKeyOwner;
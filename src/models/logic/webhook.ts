@@ -0,0 +1,335 @@
+import * as Sequelize from "sequelize";
+import { Transaction } from "sequelize";
+import * as Exception from "../../exception";
+import { Reason } from "../cccChanges";
+import models from "../index";
+import {
+    WebhookDeliveryAttribute,
+    WebhookDeliveryInstance
+} from "../webhookDelivery";
+import {
+    WebhookSubscriptionAttribute,
+    WebhookSubscriptionInstance
+} from "../webhookSubscription";
+import * as TxModel from "./transaction";
+import { fullIncludeArray } from "./utils/includeArray";
+
+export async function createSubscription(params: {
+    url: string;
+    secret: string;
+    address?: string | null;
+    assetType?: string | null;
+    transactionTypes?: string[] | null;
+    reasons?: Reason[] | null;
+}): Promise<WebhookSubscriptionInstance> {
+    try {
+        return await models.WebhookSubscription.create(params);
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getSubscriptions(): Promise<
+    WebhookSubscriptionInstance[]
+> {
+    try {
+        return await models.WebhookSubscription.findAll({
+            order: [["id", "ASC"]]
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getSubscriptionById(
+    id: number
+): Promise<WebhookSubscriptionInstance | null> {
+    try {
+        return await models.WebhookSubscription.findByPk(id);
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Deletes the subscription with its deliveries. Returns false if there is no
+ * such subscription.
+ */
+export async function deleteSubscription(id: number): Promise<boolean> {
+    try {
+        const deleted = await models.WebhookSubscription.destroy({
+            where: { id }
+        });
+        return deleted > 0;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Queues the deliveries of the transactions and the CCCChanges of the block
+ * for the matching subscriptions. It is called in the transaction that indexes
+ * the block, after the logs and the CCCChanges are written.
+ */
+export async function enqueueDeliveries(
+    block: { number: number; hash: string },
+    options: { transaction?: Transaction } = {}
+): Promise<void> {
+    const { transaction } = options;
+    try {
+        const subscriptions = await models.WebhookSubscription.findAll({
+            transaction
+        });
+        const deliveries: WebhookDeliveryAttribute[] = [];
+        for (const subscriptionInst of subscriptions) {
+            const subscription = subscriptionInst.get({ plain: true });
+            const delivery = (
+                event: "transaction" | "cccChange",
+                data: object
+            ) =>
+                deliveries.push({
+                    subscriptionId: subscription.id!,
+                    event,
+                    blockNumber: block.number,
+                    blockHash: block.hash,
+                    data,
+                    status: "pending",
+                    attempts: 0,
+                    nextAttemptAt: new Date(),
+                    retracted: false
+                });
+            if (subscription.reasons != null) {
+                const cccChanges = await models.CCCChange.findAll({
+                    where: {
+                        blockNumber: block.number,
+                        reason: subscription.reasons,
+                        ...(subscription.address != null && {
+                            address: subscription.address
+                        })
+                    },
+                    order: [["id", "ASC"]],
+                    transaction
+                });
+                cccChanges.forEach(i =>
+                    delivery("cccChange", i.get({ plain: true }))
+                );
+            } else {
+                const transactions = await getMatchingTransactions(
+                    block.number,
+                    subscription,
+                    transaction
+                );
+                transactions.forEach(i =>
+                    delivery("transaction", i.get({ plain: true }))
+                );
+            }
+        }
+        if (deliveries.length > 0) {
+            await models.WebhookDelivery.bulkCreate(deliveries, {
+                transaction
+            });
+        }
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+async function getMatchingTransactions(
+    blockNumber: number,
+    subscription: WebhookSubscriptionAttribute,
+    transaction?: Transaction
+) {
+    const { address, assetType, transactionTypes } = subscription;
+    // The logs written during indexing tell the involved transactions.
+    const hashes =
+        address != null || assetType != null
+            ? await TxModel.getHashesOfBlock(
+                  { blockNumber, address, assetType },
+                  { transaction }
+              )
+            : null;
+    if (hashes != null && hashes.length === 0) {
+        return [];
+    }
+    return models.Transaction.findAll({
+        where: {
+            blockNumber,
+            ...(hashes && { hash: hashes }),
+            ...(transactionTypes != null && { type: transactionTypes })
+        },
+        order: [["transactionIndex", "ASC"]],
+        include: [...fullIncludeArray],
+        transaction
+    });
+}
+
+/**
+ * Cancels every pending delivery of the retracted block, including the ones
+ * waiting for a retry, and queues a retraction for the ones that are attempted
+ * and may have been delivered. It is called in the transaction that deletes
+ * the block, and retracting the block again does nothing.
+ */
+export async function retractDeliveries(
+    block: {
+        number: number;
+        hash: string;
+    },
+    options: { transaction?: Transaction } = {}
+): Promise<void> {
+    const { transaction } = options;
+    const where = {
+        blockNumber: block.number,
+        blockHash: block.hash,
+        event: { [Sequelize.Op.ne]: "retraction" },
+        retracted: false
+    };
+    try {
+        // Locked so that the dispatchers don't take them meanwhile
+        const deliveries = (await models.WebhookDelivery.findAll({
+            where,
+            order: [["id", "ASC"]],
+            lock: Sequelize.Transaction.LOCK.UPDATE,
+            transaction
+        }))
+            .map(i => i.get({ plain: true }))
+            // The ones that are not attempted yet never reached the receiver
+            .filter(d => d.status !== "pending" || d.attempts > 0);
+        // Stops every pending delivery including the ones that are retried
+        await models.WebhookDelivery.update(
+            { status: "cancelled", retracted: true },
+            { where: { ...where, status: "pending" }, transaction }
+        );
+        await models.WebhookDelivery.bulkCreate(
+            deliveries.map(delivery => ({
+                subscriptionId: delivery.subscriptionId,
+                event: "retraction" as "retraction",
+                blockNumber: block.number,
+                blockHash: block.hash,
+                data: {
+                    deliveryId: delivery.id,
+                    event: delivery.event,
+                    data: delivery.data
+                },
+                status: "pending" as "pending",
+                attempts: 0,
+                // A pending one may be being posted until its lease expires.
+                // The retraction is sent after it.
+                nextAttemptAt:
+                    delivery.status === "pending"
+                        ? delivery.nextAttemptAt
+                        : new Date(),
+                retracted: true
+            })),
+            { transaction }
+        );
+        await models.WebhookDelivery.update(
+            { retracted: true },
+            { where: { id: deliveries.map(d => d.id!) }, transaction }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Takes the pending deliveries that are due, oldest first. A taken delivery
+ * isn't due again for leaseSeconds, so the dispatchers of the replicas don't
+ * send it at the same time.
+ */
+export async function claimDueDeliveries(
+    limit: number,
+    leaseSeconds: number
+): Promise<WebhookDeliveryInstance[]> {
+    try {
+        const [rows] = await models.sequelize.query(
+            `UPDATE "WebhookDeliveries"
+            SET "attempts" = "attempts" + 1,
+                "nextAttemptAt" = NOW() + INTERVAL '${Math.floor(
+                    leaseSeconds
+                )} seconds',
+                "updatedAt" = NOW()
+            WHERE "id" IN (
+                SELECT "id" FROM "WebhookDeliveries"
+                WHERE "status" = 'pending' AND "nextAttemptAt" <= NOW()
+                ORDER BY "id" LIMIT :limit
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING "id"`,
+            { replacements: { limit } }
+        );
+        if (rows.length === 0) {
+            return [];
+        }
+        return await models.WebhookDelivery.findAll({
+            where: { id: rows.map((row: { id: string }) => row.id) },
+            include: [
+                {
+                    as: "subscription",
+                    model: models.WebhookSubscription
+                }
+            ],
+            order: [["id", "ASC"]]
+        });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function markDelivered(id: string): Promise<void> {
+    try {
+        await models.WebhookDelivery.update(
+            { status: "delivered", deliveredAt: new Date(), lastError: null },
+            // A cancelled one stays cancelled
+            { where: { id, status: "pending" } }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+/**
+ * Retries the delivery after retryDelay seconds, or gives it up if
+ * retryDelay is null.
+ */
+export async function markFailed(
+    id: string,
+    error: string,
+    retryDelay: number | null
+): Promise<void> {
+    try {
+        if (retryDelay == null) {
+            await models.WebhookDelivery.update(
+                { status: "failed", lastError: error },
+                { where: { id, status: "pending" } }
+            );
+            return;
+        }
+        // The database clock is used so that the clocks of the replicas don't
+        // matter.
+        await models.sequelize.query(
+            `UPDATE "WebhookDeliveries"
+            SET "lastError" = :error,
+                "nextAttemptAt" = NOW() + :retryDelay * INTERVAL '1 second',
+                "updatedAt" = NOW()
+            WHERE "id" = :id AND "status" = 'pending'`,
+            {
+                replacements: {
+                    id,
+                    error,
+                    retryDelay: Math.floor(retryDelay)
+                }
+            }
+        );
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
@@ -0,0 +1,65 @@
+import * as Exception from "../../exception";
+import models from "../index";
+import { WorkerLeaseInstance } from "../workerLease";
+
+// The lease that the worker holds while it writes blocks
+export const WORKER_LEASE_NAME = "worker";
+
+/**
+ * Takes the lease if it is free or expired, or extends it if the holder
+ * already has it. Returns false if another holder has it. The database clock
+ * is used so that the clocks of the replicas don't matter.
+ */
+export async function acquireLease(
+    name: string,
+    holder: string,
+    ttlSeconds: number
+): Promise<boolean> {
+    try {
+        const [rows] = await models.sequelize.query(
+            `INSERT INTO "WorkerLeases" ("name", "holder", "expiresAt", "createdAt", "updatedAt")
+            VALUES (:name, :holder, NOW() + :ttlSeconds * INTERVAL '1 second', NOW(), NOW())
+            ON CONFLICT ("name") DO UPDATE
+            SET "holder" = EXCLUDED."holder",
+                "expiresAt" = EXCLUDED."expiresAt",
+                "updatedAt" = NOW()
+            WHERE "WorkerLeases"."holder" = EXCLUDED."holder"
+                OR "WorkerLeases"."expiresAt" < NOW()
+            RETURNING "name"`,
+            {
+                replacements: {
+                    name,
+                    holder,
+                    ttlSeconds: Math.floor(ttlSeconds)
+                }
+            }
+        );
+        return rows.length > 0;
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function releaseLease(
+    name: string,
+    holder: string
+): Promise<void> {
+    try {
+        await models.WorkerLease.destroy({ where: { name, holder } });
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
+
+export async function getLease(
+    name: string
+): Promise<WorkerLeaseInstance | null> {
+    try {
+        return await models.WorkerLease.findByPk(name);
+    } catch (err) {
+        console.error(err);
+        throw Exception.DBError();
+    }
+}
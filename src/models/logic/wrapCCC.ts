@@ -11,11 +11,8 @@ import {
 import { Transaction } from "sequelize";
 import models from "../index";
 import { WrapCCCInstance } from "../wrapCCC";
-import { createAddressLog } from "./addressLog";
-import { createAssetAddressLog } from "./assetAddressLog";
 import { createAssetSchemeOfWCCC } from "./assetscheme";
 import { createAssetTransferOutput } from "./assettransferoutput";
-import { createAssetTypeLog } from "./assetTypeLog";
 import { getOwner } from "./utils/address";
 import { strip0xPrefix } from "./utils/format";
 
@@ -29,8 +26,7 @@ export async function createWrapCCC(
         shardId,
         lockScriptHash,
         parameters,
-        quantity,
-        payer
+        quantity
     } = transaction.toJSON().action as WrapCCCActionJSON;
     const networkId = transaction.unsigned.networkId();
 
@@ -74,11 +70,5 @@ export async function createWrapCCC(
         { networkId },
         options
     );
-    await createAddressLog(transaction, payer, "AssetOwner", options);
-    const assetType = "0000000000000000000000000000000000000000";
-    if (recipient) {
-        await createAssetAddressLog(transaction, recipient, assetType, options);
-    }
-    await createAssetTypeLog(transaction, assetType, options);
     return result;
 }
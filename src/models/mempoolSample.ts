@@ -0,0 +1,52 @@
+import * as Sequelize from "sequelize";
+
+export interface MempoolSampleAttribute {
+    id?: string;
+    // The unix timestamp of the sync cycle
+    timestamp: number;
+    // The number of the pending transactions in the mempool
+    count: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface MempoolSampleInstance
+    extends Sequelize.Instance<MempoolSampleAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const MempoolSample = sequelize.define(
+        "MempoolSample",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            timestamp: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            count: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    MempoolSample.associate = () => {
+        // associations can be defined here
+    };
+    return MempoolSample;
+};
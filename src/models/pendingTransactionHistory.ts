@@ -0,0 +1,80 @@
+import * as Sequelize from "sequelize";
+
+export type PendingOutcome = "mined" | "dropped" | "replaced";
+
+export interface PendingTransactionHistoryAttribute {
+    hash: string;
+    signer: string;
+    seq: number;
+    // The unix timestamps when the transaction is seen in the mempool
+    firstSeen: number;
+    lastSeen: number;
+    // null while the transaction is in the mempool. "dropped" becomes
+    // "mined" if the transaction is found in a block later.
+    outcome?: PendingOutcome | null;
+    blockNumber?: number | null;
+    // The hash of the transaction with the same signer and seq
+    replacedBy?: string | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface PendingTransactionHistoryInstance
+    extends Sequelize.Instance<PendingTransactionHistoryAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const PendingTransactionHistory = sequelize.define(
+        "PendingTransactionHistory",
+        {
+            hash: {
+                primaryKey: true,
+                allowNull: false,
+                type: DataTypes.STRING,
+                validate: {
+                    is: ["^[a-f0-9]{64}$"]
+                }
+            },
+            signer: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            seq: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            firstSeen: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            lastSeen: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            outcome: {
+                type: DataTypes.STRING
+            },
+            blockNumber: {
+                type: DataTypes.INTEGER
+            },
+            replacedBy: {
+                type: DataTypes.STRING
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    PendingTransactionHistory.associate = () => {
+        // associations can be defined here
+    };
+    return PendingTransactionHistory;
+};
@@ -0,0 +1,86 @@
+import * as Sequelize from "sequelize";
+import { Reason } from "./cccChanges";
+
+export interface RetractedCCCChange {
+    address: string;
+    change: string;
+    blockNumber: number;
+    reason: Reason;
+    transactionHash?: string | null;
+}
+
+export interface ReorgAttribute {
+    id?: string;
+    // The number of the last block that both chains share
+    forkBlockNumber: number;
+    depth: number;
+    // The hashes of the retracted blocks from forkBlockNumber + 1
+    oldHashes: string[];
+    // The hashes of the new blocks from forkBlockNumber + 1
+    newHashes: string[];
+    retractedTransactionHashes: string[];
+    retractedCCCChanges: RetractedCCCChange[];
+    timestamp: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface ReorgInstance extends Sequelize.Instance<ReorgAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const Reorg = sequelize.define(
+        "Reorg",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            forkBlockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            depth: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            oldHashes: {
+                allowNull: false,
+                type: DataTypes.ARRAY(DataTypes.STRING)
+            },
+            newHashes: {
+                allowNull: false,
+                type: DataTypes.ARRAY(DataTypes.STRING)
+            },
+            retractedTransactionHashes: {
+                allowNull: false,
+                type: DataTypes.ARRAY(DataTypes.STRING)
+            },
+            retractedCCCChanges: {
+                allowNull: false,
+                type: DataTypes.JSONB
+            },
+            timestamp: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    Reorg.associate = () => {
+        // associations can be defined here
+    };
+    return Reorg;
+};
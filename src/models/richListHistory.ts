@@ -0,0 +1,75 @@
+import * as Sequelize from "sequelize";
+
+// The distribution of CCC at the first sync of a day, by the block time
+export interface RichListHistoryAttribute {
+    id?: string;
+    // YYYY-MM-DD in UTC
+    date: string;
+    blockNumber: number;
+    topN: number;
+    // The sum of the balances of the top N holders
+    topBalance: string;
+    totalSupply: string;
+    holders: number;
+    gini: number | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface RichListHistoryInstance
+    extends Sequelize.Instance<RichListHistoryAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const RichListHistory = sequelize.define(
+        "RichListHistory",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            date: {
+                allowNull: false,
+                type: DataTypes.DATEONLY
+            },
+            blockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            topN: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            topBalance: {
+                allowNull: false,
+                type: DataTypes.NUMERIC
+            },
+            totalSupply: {
+                allowNull: false,
+                type: DataTypes.NUMERIC
+            },
+            holders: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            gini: {
+                allowNull: true,
+                type: DataTypes.DOUBLE
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    return RichListHistory;
+};
@@ -0,0 +1,120 @@
+import * as Sequelize from "sequelize";
+import { WebhookSubscriptionAttribute } from "./webhookSubscription";
+
+export type WebhookEvent = "transaction" | "cccChange" | "retraction";
+
+export type WebhookDeliveryStatus =
+    | "pending"
+    | "delivered"
+    | "failed"
+    // Retracted before the first attempt
+    | "cancelled";
+
+export interface WebhookDeliveryAttribute {
+    id?: string;
+    subscriptionId: string;
+    event: WebhookEvent;
+    // The block that the event comes from
+    blockNumber: number;
+    blockHash: string;
+    data: object;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date;
+    lastError?: string | null;
+    deliveredAt?: Date | null;
+    // True once the retraction of the delivery is queued
+    retracted: boolean;
+    subscription?: WebhookSubscriptionAttribute;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface WebhookDeliveryInstance
+    extends Sequelize.Instance<WebhookDeliveryAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const WebhookDelivery = sequelize.define(
+        "WebhookDelivery",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            subscriptionId: {
+                allowNull: false,
+                type: DataTypes.BIGINT,
+                onDelete: "CASCADE",
+                references: {
+                    model: "WebhookSubscriptions",
+                    key: "id"
+                }
+            },
+            event: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            blockNumber: {
+                allowNull: false,
+                type: DataTypes.INTEGER
+            },
+            blockHash: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            data: {
+                allowNull: false,
+                type: DataTypes.JSONB
+            },
+            status: {
+                allowNull: false,
+                defaultValue: "pending",
+                type: DataTypes.STRING
+            },
+            attempts: {
+                allowNull: false,
+                defaultValue: 0,
+                type: DataTypes.INTEGER
+            },
+            nextAttemptAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            lastError: {
+                allowNull: true,
+                type: DataTypes.TEXT
+            },
+            deliveredAt: {
+                allowNull: true,
+                type: DataTypes.DATE
+            },
+            retracted: {
+                allowNull: false,
+                defaultValue: false,
+                type: DataTypes.BOOLEAN
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    WebhookDelivery.associate = models => {
+        WebhookDelivery.belongsTo(models.WebhookSubscription, {
+            foreignKey: "subscriptionId",
+            as: "subscription",
+            onDelete: "CASCADE"
+        });
+    };
+    return WebhookDelivery;
+};
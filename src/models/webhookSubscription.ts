@@ -0,0 +1,78 @@
+import * as Sequelize from "sequelize";
+import { Reason } from "./cccChanges";
+
+export interface WebhookSubscriptionAttribute {
+    id?: string;
+    url: string;
+    // The key of the HMAC signature of the deliveries
+    secret: string;
+    // A PlatformAddress or an AssetAddress
+    address?: string | null;
+    assetType?: string | null;
+    transactionTypes?: string[] | null;
+    // Subscribes to the CCCChanges with the reasons instead of transactions
+    reasons?: Reason[] | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface WebhookSubscriptionInstance
+    extends Sequelize.Instance<WebhookSubscriptionAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const WebhookSubscription = sequelize.define(
+        "WebhookSubscription",
+        {
+            id: {
+                allowNull: false,
+                autoIncrement: true,
+                primaryKey: true,
+                type: DataTypes.BIGINT
+            },
+            url: {
+                allowNull: false,
+                type: DataTypes.TEXT
+            },
+            secret: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            address: {
+                allowNull: true,
+                type: DataTypes.STRING
+            },
+            assetType: {
+                allowNull: true,
+                type: DataTypes.STRING
+            },
+            transactionTypes: {
+                allowNull: true,
+                type: DataTypes.ARRAY(DataTypes.STRING)
+            },
+            reasons: {
+                allowNull: true,
+                type: DataTypes.ARRAY(DataTypes.STRING)
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    WebhookSubscription.associate = models => {
+        WebhookSubscription.hasMany(models.WebhookDelivery, {
+            foreignKey: "subscriptionId",
+            as: "deliveries",
+            onDelete: "CASCADE"
+        });
+    };
+    return WebhookSubscription;
+};
@@ -0,0 +1,50 @@
+import * as Sequelize from "sequelize";
+
+export interface WorkerLeaseAttribute {
+    name: string;
+    // The process that writes to the database, as "hostname:pid"
+    holder: string;
+    expiresAt: Date;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface WorkerLeaseInstance
+    extends Sequelize.Instance<WorkerLeaseAttribute> {}
+
+export default (
+    sequelize: Sequelize.Sequelize,
+    DataTypes: Sequelize.DataTypes
+) => {
+    const WorkerLease = sequelize.define(
+        "WorkerLease",
+        {
+            name: {
+                primaryKey: true,
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            holder: {
+                allowNull: false,
+                type: DataTypes.STRING
+            },
+            expiresAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            createdAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            },
+            updatedAt: {
+                allowNull: false,
+                type: DataTypes.DATE
+            }
+        },
+        {}
+    );
+    WorkerLease.associate = () => {
+        // associations can be defined here
+    };
+    return WorkerLease;
+};
@@ -0,0 +1,172 @@
+import { ChildProcess, fork } from "child_process";
+import * as express from "express";
+import * as http from "http";
+import * as _ from "lodash";
+import * as readline from "readline";
+import * as swaggerUi from "swagger-ui-express";
+import { IndexerConfig, NetworkConfig } from "./config";
+import log from "./log";
+import { namespaceByNetwork, swaggerSpec } from "./swagger";
+
+interface NetworkProcess {
+    networkId: string;
+    child: ChildProcess;
+    // The HTTP port of the child, which serves the API of the network
+    port: number;
+    exited: Promise<void>;
+}
+
+/**
+ * Serves several networks from one process. Each network is indexed and
+ * served by a child process that runs the entry with the configuration of
+ * the network. The API of a network is proxied at /api/:networkId.
+ */
+export async function runNetworks(options: IndexerConfig, entry: string) {
+    const networks: NetworkProcess[] = [];
+    try {
+        for (const network of options.networks!) {
+            networks.push(await startNetwork(options, network, entry));
+        }
+    } catch (err) {
+        console.error(err);
+        networks.forEach(({ child }) => child.kill("SIGTERM"));
+        process.exitCode = 1;
+        return;
+    }
+
+    const app = express();
+    app.enable("trust proxy");
+    if (process.env.NODE_ENV === "dev") {
+        const networkIds = networks.map(({ networkId }) => networkId);
+        app.use(
+            "/api-docs",
+            swaggerUi.serve,
+            swaggerUi.setup(namespaceByNetwork(swaggerSpec, networkIds), {
+                explorer: true
+            })
+        );
+    }
+    app.use("/api/:networkId", (req, res, next) => {
+        const network = findNetwork(networks, req.params.networkId);
+        if (network == null) {
+            return next();
+        }
+        proxy(network, `/api${req.url}`, req, res);
+    });
+    app.get("/metrics/:networkId", (req, res, next) => {
+        const network = findNetwork(networks, req.params.networkId);
+        if (network == null) {
+            return next();
+        }
+        proxy(network, "/metrics", req, res);
+    });
+
+    const httpServer = http.createServer(app);
+    httpServer.listen(options.httpPort, () => {
+        log.info(
+            `HTTP server is listening on ${options.httpPort} for ${networks
+                .map(({ networkId }) => networkId)
+                .join(", ")} in ${process.env.NODE_ENV} mode`
+        );
+    });
+
+    let stopping = false;
+    // The children shut down gracefully by themselves on SIGTERM.
+    const shutdown = async (reason: string) => {
+        if (stopping) {
+            return;
+        }
+        stopping = true;
+        console.log(`${reason}. Shutting down the networks...`);
+        setTimeout(() => {
+            console.error(
+                `Shutdown is not finished in ${
+                    options.shutdownTimeout
+                }ms. Exit.`
+            );
+            process.exit(1);
+        }, options.shutdownTimeout).unref();
+        httpServer.close();
+        networks.forEach(({ child }) => child.kill("SIGTERM"));
+        await Promise.all(networks.map(({ exited }) => exited));
+        process.exit();
+    };
+    for (const { networkId, exited } of networks) {
+        exited.then(() => {
+            if (!stopping) {
+                process.exitCode = 1;
+                shutdown(`The process of ${networkId} exited`);
+            }
+        });
+    }
+    process.on("SIGINT", () => shutdown("Caught SIGINT"));
+    process.on("SIGTERM", () => shutdown("Caught SIGTERM"));
+}
+
+function startNetwork(
+    options: IndexerConfig,
+    network: NetworkConfig,
+    entry: string
+): Promise<NetworkProcess> {
+    const { networkId } = network.codechain;
+    const config = {
+        ..._.merge({}, options, network),
+        // The child listens on a free port and tells it
+        httpPort: 0,
+        networks: []
+    };
+    const child = fork(entry, [], {
+        env: { ...process.env, NODE_CONFIG: JSON.stringify(config) },
+        // Run the child with ts-node if the entry is run with ts-node
+        execArgv: entry.endsWith(".ts") ? ["-r", "ts-node/register"] : [],
+        silent: true
+    });
+    for (const stream of [child.stdout!, child.stderr!]) {
+        readline
+            .createInterface({ input: stream })
+            .on("line", line => console.log(`[${networkId}] ${line}`));
+    }
+    const exited = new Promise<void>(resolve => child.on("exit", resolve));
+    return new Promise((resolve, reject) => {
+        child.once("message", ({ port }: { port: number }) =>
+            resolve({ networkId, child, port, exited })
+        );
+        exited.then(() =>
+            reject(Error(`The process of ${networkId} exited on start`))
+        );
+    });
+}
+
+function findNetwork(networks: NetworkProcess[], networkId: string) {
+    return _.find(networks, network => network.networkId === networkId);
+}
+
+function proxy(
+    network: NetworkProcess,
+    path: string,
+    req: express.Request,
+    res: express.Response
+) {
+    const upstream = http.request(
+        {
+            host: "127.0.0.1",
+            port: network.port,
+            method: req.method,
+            path,
+            headers: req.headers
+        },
+        upstreamRes => {
+            res.writeHead(upstreamRes.statusCode!, upstreamRes.headers);
+            upstreamRes.pipe(res);
+        }
+    );
+    upstream.on("error", err => {
+        log.error(`Proxy to ${network.networkId} failed: ${err.message}`);
+        if (res.headersSent) {
+            res.end();
+        } else {
+            res.sendStatus(502);
+        }
+    });
+    req.pipe(upstream);
+}
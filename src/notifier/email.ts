@@ -0,0 +1,47 @@
+import * as sendgrid from "@sendgrid/mail";
+import * as nodemailer from "nodemailer";
+import { Channel, formatTitle, Notification } from "./index";
+
+const sendgridFrom = "no-reply+indexer-CCCChanges-checker@devop.codechain.io";
+
+export function createSMTPChannel(params: {
+    host: string;
+    port: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+    to: string;
+}): Channel {
+    const { host, port, secure, user, pass } = params;
+    const transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user != null ? { user, pass } : undefined
+    });
+    return {
+        send: async (notification: Notification) => {
+            await transporter.sendMail({
+                from: params.from,
+                to: params.to,
+                subject: formatTitle(notification),
+                text: notification.text
+            });
+        }
+    };
+}
+
+export function createSendgridChannel(apiKey: string, to: string): Channel {
+    sendgrid.setApiKey(apiKey);
+    return {
+        send: async (notification: Notification) => {
+            await sendgrid.send({
+                subject: formatTitle(notification),
+                from: sendgridFrom,
+                to,
+                content: [{ type: "text/plain", value: notification.text }]
+            });
+        }
+    };
+}
@@ -0,0 +1,23 @@
+import * as fs from "fs";
+import { Channel, Notification } from "./index";
+
+/**
+ * Appends the notifications to the file as lines of JSON in the order that
+ * they are sent.
+ */
+export function createFileChannel(path: string): Channel {
+    let lastWrite: Promise<void> = Promise.resolve();
+    const append = (line: string) =>
+        new Promise<void>((resolve, reject) => {
+            fs.appendFile(path, line, err => (err ? reject(err) : resolve()));
+        });
+    return {
+        send: (notification: Notification) => {
+            const line = `${JSON.stringify(notification)}\n`;
+            lastWrite = lastWrite
+                .catch(() => undefined)
+                .then(() => append(line));
+            return lastWrite;
+        }
+    };
+}
@@ -0,0 +1,223 @@
+import * as _ from "lodash";
+import { createSendgridChannel, createSMTPChannel } from "./email";
+import { createFileChannel } from "./file";
+import { createSlackChannel } from "./slack";
+import { createWebhookChannel } from "./webhook";
+
+export type Severity = "info" | "warning" | "error";
+
+const SEVERITIES: Severity[] = ["info", "warning", "error"];
+
+export interface Notification {
+    severity: Severity;
+    // Such as "[networkId][indexer]"
+    tag: string;
+    title: string;
+    text: string;
+    // Unix time in seconds
+    timestamp: number;
+}
+
+export interface Channel {
+    send(notification: Notification): Promise<void>;
+}
+
+export type ChannelConfig = {
+    // Sends only the notifications of this severity or higher
+    minSeverity?: Severity;
+} & (
+    | { type: "webhook"; url: string; headers?: { [name: string]: string } }
+    | {
+          type: "smtp";
+          host: string;
+          port: number;
+          secure?: boolean;
+          user?: string;
+          pass?: string;
+          from: string;
+          to: string;
+      }
+    | { type: "sendgrid"; apiKey: string; to: string }
+    | { type: "slack"; webhook: string }
+    | { type: "file"; path: string });
+
+export interface NotifierConfig {
+    // Drops a notification that is the same as one sent in this many seconds
+    dedupWindow: number;
+    // The maximum number of the notifications that a channel sends in a minute
+    rateLimit: number;
+    channels: ChannelConfig[];
+}
+
+export interface Notifier {
+    notify(severity: Severity, title: string, text: string): void;
+    sendError(text: string): void;
+    sendWarning(text: string): void;
+    sendInfo(title: string, text: string): void;
+}
+
+export class NullNotifier implements Notifier {
+    public notify(_S: Severity, __: string, ___: string) {
+        // empty
+    }
+    public sendError(__: string) {
+        // empty
+    }
+    public sendWarning(__: string) {
+        // empty
+    }
+    public sendInfo(__: string, ___: string) {
+        // empty
+    }
+}
+
+interface ChannelState {
+    name: string;
+    channel: Channel;
+    minSeverity: Severity;
+    windowStart: number;
+    sentInWindow: number;
+    // The notifications dropped by the rate limit, reported with the next one
+    suppressed: number;
+}
+
+// tslint:disable-next-line:max-classes-per-file
+class ChannelNotifier implements Notifier {
+    private readonly lastSent: Map<string, number> = new Map();
+
+    public constructor(
+        private readonly tag: string,
+        private readonly channels: ChannelState[],
+        private readonly config: NotifierConfig
+    ) {}
+
+    public notify(severity: Severity, title: string, text: string) {
+        const now = Date.now();
+        const key = JSON.stringify([severity, title, text]);
+        const lastSent = this.lastSent.get(key);
+        if (
+            lastSent != null &&
+            now - lastSent < this.config.dedupWindow * 1000
+        ) {
+            return;
+        }
+        this.lastSent.forEach((sentAt, k) => {
+            if (now - sentAt >= this.config.dedupWindow * 1000) {
+                this.lastSent.delete(k);
+            }
+        });
+        this.lastSent.set(key, now);
+
+        for (const state of this.channels) {
+            if (
+                SEVERITIES.indexOf(severity) <
+                SEVERITIES.indexOf(state.minSeverity)
+            ) {
+                continue;
+            }
+            if (now - state.windowStart >= 60 * 1000) {
+                state.windowStart = now;
+                state.sentInWindow = 0;
+            }
+            if (state.sentInWindow >= this.config.rateLimit) {
+                state.suppressed += 1;
+                continue;
+            }
+            state.sentInWindow += 1;
+            const suppressed = state.suppressed;
+            state.suppressed = 0;
+            state.channel
+                .send({
+                    severity,
+                    tag: this.tag,
+                    title,
+                    text:
+                        suppressed > 0
+                            ? `${text}\n(${suppressed} notifications are suppressed by the rate limit)`
+                            : text,
+                    timestamp: Math.floor(now / 1000)
+                })
+                .catch(err =>
+                    console.error(`Notification to ${state.name} failed`, err)
+                );
+        }
+    }
+
+    public sendError(text: string) {
+        this.notify("error", "has a problem", text);
+    }
+
+    public sendWarning(text: string) {
+        console.log(`Warning: ${text}`);
+        this.notify("warning", "finds a problem", text);
+    }
+
+    public sendInfo(title: string, text: string) {
+        console.log(`Info: ${text}`);
+        this.notify("info", title, text);
+    }
+}
+
+export function formatTitle(notification: Notification): string {
+    const { severity, tag, title } = notification;
+    const level = severity === "warning" ? "warn" : severity;
+    return `[${level}]${tag} ${title}`;
+}
+
+function createChannel(config: ChannelConfig): Channel {
+    switch (config.type) {
+        case "webhook":
+            return createWebhookChannel(config.url, config.headers);
+        case "smtp":
+            return createSMTPChannel(config);
+        case "sendgrid":
+            return createSendgridChannel(config.apiKey, config.to);
+        case "slack":
+            return createSlackChannel(config.webhook);
+        case "file":
+            return createFileChannel(config.path);
+    }
+}
+
+/**
+ * Creates the notifier that sends to the channels of the configuration. The
+ * SLACK_WEBHOOK, SENDGRID_API_KEY and SENDGRID_TO variables add the channels
+ * too.
+ */
+export function createNotifier(config: NotifierConfig, tag: string): Notifier {
+    const channelConfigs = [...config.channels];
+    if (process.env.SLACK_WEBHOOK) {
+        channelConfigs.push({
+            type: "slack",
+            webhook: process.env.SLACK_WEBHOOK
+        });
+    }
+    if (process.env.SENDGRID_API_KEY) {
+        if (process.env.SENDGRID_TO == null) {
+            throw Error("The email destination is not set");
+        }
+        channelConfigs.push({
+            type: "sendgrid",
+            apiKey: process.env.SENDGRID_API_KEY,
+            to: process.env.SENDGRID_TO
+        });
+    }
+    if (channelConfigs.length === 0) {
+        console.log("No notification channel is set");
+        return new NullNotifier();
+    }
+    const channels = channelConfigs.map(channelConfig => ({
+        name: channelConfig.type,
+        channel: createChannel(channelConfig),
+        minSeverity: channelConfig.minSeverity || "info",
+        windowStart: 0,
+        sentInWindow: 0,
+        suppressed: 0
+    }));
+    console.log(
+        `Notifications are sent to ${_.uniq(
+            channels.map(({ name }) => name)
+        ).join(", ")}`
+    );
+    return new ChannelNotifier(tag, channels, config);
+}
@@ -0,0 +1,25 @@
+import { IncomingWebhook } from "@slack/client";
+import { Channel, formatTitle, Notification } from "./index";
+
+const COLORS = {
+    info: "good",
+    warning: "warning",
+    error: "danger"
+};
+
+export function createSlackChannel(webhookUrl: string): Channel {
+    const webhook = new IncomingWebhook(webhookUrl, {});
+    return {
+        send: async (notification: Notification) => {
+            await webhook.send({
+                attachments: [
+                    {
+                        title: formatTitle(notification),
+                        text: notification.text,
+                        color: COLORS[notification.severity]
+                    }
+                ]
+            });
+        }
+    };
+}
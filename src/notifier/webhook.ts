@@ -0,0 +1,37 @@
+import * as request from "request";
+import { Channel, formatTitle, Notification } from "./index";
+
+/**
+ * Posts the notification as JSON.
+ */
+export function createWebhookChannel(
+    url: string,
+    headers: { [name: string]: string } = {}
+): Channel {
+    return {
+        send: (notification: Notification) =>
+            new Promise((resolve, reject) => {
+                request.post(
+                    {
+                        url,
+                        headers,
+                        json: {
+                            ...notification,
+                            title: formatTitle(notification)
+                        }
+                    },
+                    (err, res) => {
+                        if (err) {
+                            reject(err);
+                        } else if (res.statusCode >= 300) {
+                            reject(
+                                Error(`Webhook responded ${res.statusCode}`)
+                            );
+                        } else {
+                            resolve();
+                        }
+                    }
+                );
+            })
+    };
+}
@@ -1,14 +1,36 @@
-import { Router } from "express";
+import BigNumber from "bignumber.js";
+import { AssetAddress, PlatformAddress } from "codechain-sdk/lib/core/classes";
+import { Response, Router } from "express";
+import { BAD_REQUEST } from "http-status-codes";
+import * as moment from "moment";
 import { IndexerContext } from "../context";
+import * as Exception from "../exception";
+import { BlockInstance } from "../models/block";
+import { defaultAllReasons } from "../models/cccChanges";
 import * as AccountModel from "../models/logic/account";
+import * as BlockModel from "../models/logic/block";
+import * as CCCBalanceModel from "../models/logic/cccBalance";
 import * as CCCChangeModel from "../models/logic/cccChange";
+import {
+    StatementPeriod,
+    StatementPeriodUnit
+} from "../models/logic/cccChange";
+import * as HistoryModel from "../models/logic/history";
+import { HistoryRow } from "../models/logic/history";
+import * as RichListModel from "../models/logic/richList";
 import { parseEvaluatedKey } from "../models/logic/utils/middleware";
 import { createPaginationResult } from "./pagination";
 import {
     accountBalanceHistoryPaginationSchema,
+    accountExportSchema,
+    accountStatementSchema,
+    cccBalanceSchema,
+    cccSnapshotPaginationSchema,
     paginationSchema,
     platformAddressSchema,
     reasonFilterSchema,
+    richListHistorySchema,
+    richListSchema,
     validate
 } from "./validator";
 
@@ -18,7 +40,28 @@ import {
  *   name: Account
  *   description: Account management
  */
-export function handle(_C: IndexerContext, router: Router) {
+
+// The rows of the export are read and written in the pages.
+const EXPORT_PAGE_SIZE = 500;
+const EXPORT_CSV_COLUMNS = [
+    "time",
+    "blockNumber",
+    "transactionIndex",
+    "hash",
+    "type",
+    "success",
+    "roles",
+    "counterparty",
+    "cccDelta",
+    "assetDeltas",
+    "fee"
+];
+// A daily statement of about 27 years
+const MAX_STATEMENT_PERIODS = 10000;
+
+export function handle(context: IndexerContext, router: Router) {
+    const { excludedAddresses, bucketBounds } = context.options.richList;
+
     /**
      * @swagger
      * /account:
@@ -73,6 +116,158 @@ export function handle(_C: IndexerContext, router: Router) {
         }
     );
 
+    /**
+     * @swagger
+     * /account/rich-list:
+     *   get:
+     *     summary: Returns the accounts in the order of the balance except the excluded addresses, with the distribution of the balances
+     *     tags: [Account]
+     *     parameters:
+     *       - name: page
+     *         description: page for the pagination (default 1)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: itemsPerPage
+     *         description: items per page for the pagination (default 15)
+     *         in: query
+     *         required: false
+     *         type: number
+     *     responses:
+     *       200:
+     *         description: rich list
+     *         schema:
+     *           type: object
+     *           properties:
+     *             totalSupply:
+     *               type: string
+     *               description: the sum of the balances including the excluded addresses
+     *             holders:
+     *               type: number
+     *             gini:
+     *               type: number
+     *               description: the Gini coefficient of the balances of the holders
+     *             buckets:
+     *               type: array
+     *               items:
+     *                 type: object
+     *                 properties:
+     *                   min:
+     *                     type: string
+     *                   max:
+     *                     type: string
+     *                   holders:
+     *                     type: number
+     *                   balance:
+     *                     type: string
+     *             accounts:
+     *               type: array
+     *               items:
+     *                 type: object
+     *                 properties:
+     *                   rank:
+     *                     type: number
+     *                   address:
+     *                     type: string
+     *                   balance:
+     *                     type: string
+     *                   percentage:
+     *                     type: number
+     *                     description: the percentage of the total supply
+     */
+    router.get(
+        "/account/rich-list",
+        validate({ query: { ...richListSchema, ...paginationSchema } }),
+        async (req, res, next) => {
+            const page = req.query.page ? parseInt(req.query.page, 10) : 1;
+            const itemsPerPage = req.query.itemsPerPage
+                ? parseInt(req.query.itemsPerPage, 10)
+                : 15;
+            try {
+                const distribution = await RichListModel.getDistribution({
+                    excludedAddresses,
+                    bucketBounds
+                });
+                const accounts = await RichListModel.getRichList({
+                    excludedAddresses,
+                    totalSupply: distribution.totalSupply,
+                    page,
+                    itemsPerPage
+                });
+                res.json({ ...distribution, accounts });
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /account/rich-list/history:
+     *   get:
+     *     summary: Returns the daily records of the share of the top holders, which the worker writes at the first sync of each day by the block time
+     *     tags: [Account]
+     *     parameters:
+     *       - name: days
+     *         description: the number of the latest records (default 30)
+     *         in: query
+     *         required: false
+     *         type: number
+     *     responses:
+     *       200:
+     *         description: records in the order of the date
+     *         schema:
+     *           type: array
+     *           items:
+     *             type: object
+     *             properties:
+     *               date:
+     *                 type: string
+     *                 example: "2019-12-01"
+     *               blockNumber:
+     *                 type: number
+     *               topN:
+     *                 type: number
+     *               topBalance:
+     *                 type: string
+     *               topPercentage:
+     *                 type: number
+     *               totalSupply:
+     *                 type: string
+     *               holders:
+     *                 type: number
+     *               gini:
+     *                 type: number
+     */
+    router.get(
+        "/account/rich-list/history",
+        validate({ query: { ...richListHistorySchema } }),
+        async (req, res, next) => {
+            const days = req.query.days ? parseInt(req.query.days, 10) : 30;
+            try {
+                const history = await RichListModel.getHistory(days);
+                res.json(
+                    history.map(inst => {
+                        const record = inst.get({ plain: true });
+                        return {
+                            ...record,
+                            topPercentage: new BigNumber(
+                                record.totalSupply
+                            ).isZero()
+                                ? 0
+                                : new BigNumber(record.topBalance)
+                                      .times(100)
+                                      .div(record.totalSupply)
+                                      .toNumber()
+                        };
+                    })
+                );
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
     /**
      * @swagger
      * /account/{address}:
@@ -213,4 +408,555 @@ export function handle(_C: IndexerContext, router: Router) {
             }
         }
     );
+
+    /**
+     * @swagger
+     * /account/{address}/export:
+     *   get:
+     *     summary: Streams the transactions of the PlatformAddress or the AssetAddress in the order of the chain, with what they changed for the address
+     *     tags: [Account]
+     *     produces:
+     *       - text/csv
+     *       - application/x-ndjson
+     *     parameters:
+     *       - name: address
+     *         description: the PlatformAddress or the AssetAddress
+     *         required: true
+     *         in: path
+     *         type: string
+     *       - name: format
+     *         description: csv or ndjson (default csv)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: fromDate
+     *         description: the transactions of the blocks at or after the ISO 8601 date
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: toDate
+     *         description: the transactions of the blocks at or before the ISO 8601 date
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: fromBlockNumber
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: toBlockNumber
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: type
+     *         description: the comma separated transaction types
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: a CSV row or an NDJSON line for each transaction, which has time, blockNumber, transactionIndex, hash, type, success, roles, counterparty, cccDelta, assetDeltas and fee. The CSV has the assetDeltas as "<assetType>:<delta>" separated by ";"
+     *       400:
+     *         description: the address is invalid
+     */
+    router.get(
+        "/account/:address/export",
+        validate({
+            params: { address: platformAddressSchema },
+            query: {
+                ...accountExportSchema
+            }
+        }),
+        async (req, res, next) => {
+            const address = req.params.address;
+            const format = req.query.format || "csv";
+            const types =
+                typeof req.query.type === "string"
+                    ? req.query.type.split(",")
+                    : null;
+            if (
+                !PlatformAddress.check(address) &&
+                !AssetAddress.check(address)
+            ) {
+                res.status(BAD_REQUEST).json({
+                    message: `Invalid address: ${address}`
+                });
+                return;
+            }
+            try {
+                const range = await HistoryModel.getBlockNumberRange({
+                    fromTimestamp:
+                        req.query.fromDate &&
+                        moment(req.query.fromDate)
+                            .utc()
+                            .unix(),
+                    toTimestamp:
+                        req.query.toDate &&
+                        moment(req.query.toDate)
+                            .utc()
+                            .unix()
+                });
+                const fromBlockNumber = maxOf(
+                    req.query.fromBlockNumber &&
+                        parseInt(req.query.fromBlockNumber, 10),
+                    range.fromBlockNumber
+                );
+                const toBlockNumber = minOf(
+                    req.query.toBlockNumber &&
+                        parseInt(req.query.toBlockNumber, 10),
+                    range.toBlockNumber
+                );
+
+                res.setHeader(
+                    "Content-Type",
+                    format === "csv"
+                        ? "text/csv; charset=utf-8"
+                        : "application/x-ndjson; charset=utf-8"
+                );
+                res.setHeader(
+                    "Content-Disposition",
+                    `attachment; filename="${address}.${format}"`
+                );
+                let closed = false;
+                req.on("close", () => (closed = true));
+
+                if (format === "csv") {
+                    await write(res, `${EXPORT_CSV_COLUMNS.join(",")}\r\n`);
+                }
+                let after: [number, number] | null = null;
+                while (!closed) {
+                    const rows: HistoryRow[] = await HistoryModel.getHistory({
+                        address,
+                        fromBlockNumber,
+                        toBlockNumber,
+                        types,
+                        after,
+                        itemsPerPage: EXPORT_PAGE_SIZE
+                    });
+                    if (rows.length > 0) {
+                        await write(
+                            res,
+                            rows
+                                .map(
+                                    format === "csv" ? toCSVLine : toNDJSONLine
+                                )
+                                .join("")
+                        );
+                    }
+                    if (rows.length < EXPORT_PAGE_SIZE) {
+                        break;
+                    }
+                    const last = rows[rows.length - 1];
+                    after = [last.blockNumber, last.transactionIndex];
+                }
+                res.end();
+            } catch (e) {
+                if (!res.headersSent) {
+                    next(e);
+                    return;
+                }
+                // The client must not take the truncated export as a whole.
+                console.error(e);
+                req.socket.destroy();
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /account/{address}/statement:
+     *   get:
+     *     summary: Returns the CCC balances of the address at the start and the end of each period, with the totals of the CCCChanges of each reason in the period
+     *     tags: [Account]
+     *     produces:
+     *       - application/json
+     *       - text/csv
+     *     parameters:
+     *       - name: address
+     *         description: Account's address
+     *         required: true
+     *         in: path
+     *         type: string
+     *       - name: period
+     *         description: day, week (from Monday) or month (default month)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: timezone
+     *         description: the IANA timezone that the periods are split in (default UTC)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: fromDate
+     *         description: YYYY-MM-DD in the timezone. The statement starts with the period that has the date (default the date of the first CCCChange)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: toDate
+     *         description: YYYY-MM-DD in the timezone. The statement ends with the period that has the date (default today)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: format
+     *         description: json or csv (default json)
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: the periods. The CSV has from, to, openingBalance, the totals of the reasons and closingBalance
+     *         schema:
+     *           type: array
+     *           items:
+     *             type: object
+     *             properties:
+     *               from:
+     *                 type: string
+     *                 example: "2019-11-01"
+     *               to:
+     *                 type: string
+     *                 example: "2019-11-30"
+     *               openingBalance:
+     *                 type: string
+     *                 example: "9999999999"
+     *               closingBalance:
+     *                 type: string
+     *                 example: "9999999899"
+     *               totals:
+     *                 type: object
+     *                 example: { "fee": "-100", "author": "0", "stake": "0", "tx": "0", "initial_distribution": "0", "deposit": "0", "validator": "0", "report": "0" }
+     *       400:
+     *         description: the date or the timezone is invalid, or there are too many periods
+     */
+    router.get(
+        "/account/:address/statement",
+        validate({
+            params: { address: platformAddressSchema },
+            query: {
+                ...accountStatementSchema
+            }
+        }),
+        async (req, res, next) => {
+            const address = req.params.address;
+            const period: StatementPeriodUnit = req.query.period || "month";
+            const timezone: string = req.query.timezone || "UTC";
+            const format = req.query.format || "json";
+            const invalidDate = [req.query.fromDate, req.query.toDate].find(
+                date =>
+                    date != null &&
+                    !moment.utc(date, "YYYY-MM-DD", true).isValid()
+            );
+            if (invalidDate != null) {
+                res.status(BAD_REQUEST).json({
+                    message: `Invalid date: ${invalidDate}`
+                });
+                return;
+            }
+            try {
+                if (!(await CCCChangeModel.isTimezone(timezone))) {
+                    res.status(BAD_REQUEST).json({
+                        message: `Invalid timezone: ${timezone}`
+                    });
+                    return;
+                }
+                const fromDate =
+                    req.query.fromDate ||
+                    (await CCCChangeModel.getFirstChangeDate(
+                        address,
+                        timezone
+                    ));
+                const toDate = req.query.toDate || null;
+                if (
+                    fromDate != null &&
+                    moment
+                        .utc(toDate || undefined)
+                        .diff(moment.utc(fromDate), period) >=
+                        MAX_STATEMENT_PERIODS
+                ) {
+                    res.status(BAD_REQUEST).json({
+                        message: `More than ${MAX_STATEMENT_PERIODS} periods`
+                    });
+                    return;
+                }
+                const statement =
+                    fromDate == null
+                        ? []
+                        : await CCCChangeModel.getStatement({
+                              address,
+                              period,
+                              timezone,
+                              fromDate,
+                              toDate
+                          });
+                if (format === "csv") {
+                    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+                    res.setHeader(
+                        "Content-Disposition",
+                        `attachment; filename="${address}-${period}.csv"`
+                    );
+                    res.send(toStatementCSV(statement));
+                } else {
+                    res.json(statement);
+                }
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /account/{address}/balance:
+     *   get:
+     *     summary: Returns the CCC balance of the address at the end of the block, from the CCCChanges
+     *     tags: [Account]
+     *     parameters:
+     *       - name: address
+     *         description: Account's address
+     *         required: true
+     *         in: path
+     *         type: string
+     *       - name: blockNumber
+     *         description: the number of the block (default the latest block)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: date
+     *         description: the block at the date(ISO8601 format) instead of blockNumber
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: the balance, return null if the block does not exist yet
+     *         schema:
+     *           type: object
+     *           properties:
+     *             address:
+     *               type: string
+     *             blockNumber:
+     *               type: number
+     *             blockHash:
+     *               type: string
+     *             balance:
+     *               type: string
+     *               example: "9999999999"
+     */
+    router.get(
+        "/account/:address/balance",
+        validate({
+            params: { address: platformAddressSchema },
+            query: {
+                ...cccBalanceSchema
+            }
+        }),
+        async (req, res, next) => {
+            const address = req.params.address;
+            try {
+                const block = await getBlockAt(req.query);
+                if (!block) {
+                    res.json(null);
+                    return;
+                }
+                const balance = await CCCBalanceModel.getBalance(
+                    address,
+                    block.get("number")
+                );
+                res.json({
+                    address,
+                    blockNumber: block.get("number"),
+                    blockHash: block.get("hash"),
+                    balance
+                });
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /ccc-snapshot:
+     *   get:
+     *     summary: Returns the CCC balances of the addresses that have CCC at the end of the block, in the order of the address
+     *     tags: [Account]
+     *     parameters:
+     *       - name: blockNumber
+     *         description: the number of the block (default the latest block)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: date
+     *         description: the block at the date(ISO8601 format) instead of blockNumber
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: itemsPerPage
+     *         description: items per page for the pagination (default 100)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: lastEvaluatedKey
+     *         description: the evaulated key of the last item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: snapshot, return null if the block does not exist yet
+     *         schema:
+     *           type: object
+     *           properties:
+     *             blockNumber:
+     *               type: integer
+     *             blockHash:
+     *               type: string
+     *             data:
+     *               type: array
+     *               items:
+     *                 type: object
+     *                 properties:
+     *                   address:
+     *                     type: string
+     *                   balance:
+     *                     type: string
+     *             hasNextPage:
+     *               type: string
+     *             hasPreviousPage:
+     *               type: string
+     *             firstEvaluatedKey:
+     *               type: string
+     *             lastEvaluatedKey:
+     *               type: string
+     */
+    router.get(
+        "/ccc-snapshot",
+        parseEvaluatedKey,
+        validate({
+            query: {
+                ...cccBalanceSchema,
+                ...paginationSchema,
+                ...cccSnapshotPaginationSchema
+            }
+        }),
+        async (req, res, next) => {
+            const itemsPerPage = req.query.itemsPerPage
+                ? parseInt(req.query.itemsPerPage, 10)
+                : 100;
+            const lastEvaluatedKey = req.query.lastEvaluatedKey;
+            try {
+                const block = await getBlockAt(req.query);
+                if (!block) {
+                    res.json(null);
+                    return;
+                }
+                const snapshot = await CCCBalanceModel.getSnapshot({
+                    blockNumber: block.get("number"),
+                    itemsPerPage,
+                    lastEvaluatedKey
+                });
+                res.json({
+                    blockHash: block.get("hash"),
+                    blockNumber: block.get("number"),
+                    ...snapshot
+                });
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+}
+
+// The block of blockNumber or date, or the latest block
+async function getBlockAt(query: {
+    blockNumber?: string;
+    date?: string;
+}): Promise<BlockInstance | null> {
+    if (query.blockNumber != null) {
+        return BlockModel.getByNumber(parseInt(query.blockNumber, 10));
+    }
+    if (query.date != null) {
+        const time = moment(query.date);
+        if (!time.isValid()) {
+            throw Exception.InvalidDateParam();
+        }
+        return BlockModel.getByTime(time.utc().unix());
+    }
+    return BlockModel.getLatestBlock();
+}
+
+// Resolves when the response can take more, or when the client is gone.
+function write(res: Response, chunk: string): Promise<void> {
+    return new Promise(resolve => {
+        if (res.write(chunk)) {
+            resolve();
+            return;
+        }
+        const done = () => {
+            res.removeListener("drain", done);
+            res.removeListener("close", done);
+            resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+    });
+}
+
+function toCSVLine(row: HistoryRow): string {
+    const fields = [
+        moment.unix(row.timestamp).toISOString(),
+        row.blockNumber,
+        row.transactionIndex,
+        row.hash,
+        row.type,
+        row.success,
+        row.roles.join(";"),
+        row.counterparty || "",
+        row.cccDelta,
+        Object.keys(row.assetDeltas)
+            .map(assetType => `${assetType}:${row.assetDeltas[assetType]}`)
+            .join(";"),
+        row.fee
+    ];
+    return `${fields.map(field => escapeCSV(String(field))).join(",")}\r\n`;
+}
+
+function toStatementCSV(statement: StatementPeriod[]): string {
+    const header = [
+        "from",
+        "to",
+        "openingBalance",
+        ...defaultAllReasons,
+        "closingBalance"
+    ];
+    const lines = statement.map(period => [
+        period.from,
+        period.to,
+        period.openingBalance,
+        ...defaultAllReasons.map(reason => period.totals[reason]),
+        period.closingBalance
+    ]);
+    return [header, ...lines].map(fields => `${fields.join(",")}\r\n`).join("");
+}
+
+function toNDJSONLine(row: HistoryRow): string {
+    const { timestamp, ...rest } = row;
+    return `${JSON.stringify({
+        time: moment.unix(timestamp).toISOString(),
+        ...rest
+    })}\n`;
+}
+
+function escapeCSV(field: string): string {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// The narrowest of the bounds, or null without a bound
+function maxOf(...bounds: (number | null | undefined)[]): number | null {
+    const defined = bounds.filter(bound => bound != null) as number[];
+    return defined.length === 0 ? null : Math.max(...defined);
+}
+
+function minOf(...bounds: (number | null | undefined)[]): number | null {
+    const defined = bounds.filter(bound => bound != null) as number[];
+    return defined.length === 0 ? null : Math.min(...defined);
 }
@@ -1,8 +1,10 @@
+import BigNumber from "bignumber.js";
 import { H160 } from "codechain-sdk/lib/core/classes";
 import { Router } from "express";
 import * as moment from "moment";
 import { IndexerContext } from "../context";
 import * as Exception from "../exception";
+import * as AggsUTXOModel from "../models/logic/aggsUTXO";
 import * as AssetImageModel from "../models/logic/assetimage";
 import * as AssetSchemeModel from "../models/logic/assetscheme";
 import * as BlockModel from "../models/logic/block";
@@ -11,9 +13,11 @@ import {
     syncIfNeeded
 } from "../models/logic/utils/middleware";
 import * as UTXOModel from "../models/logic/utxo";
+import { Finality } from "./finality";
 import { createPaginationResult } from "./pagination";
 import {
     aggsUTXOPaginationSchema,
+    assetHolderPaginationSchema,
     assetTypeSchema,
     paginationSchema,
     snapshotPaginationSchema,
@@ -40,6 +44,14 @@ import {
  *       content:
  *         type: string
  *         description: UTXO example
+ *       confirmations:
+ *         type: number
+ *         description: the number of the indexed blocks on top of the block. null if pending
+ *         example: 3
+ *       isFinal:
+ *         type: boolean
+ *         description: true if confirmations is not less than worker.finalityDepth
+ *         example: false
  *   AssetScheme:
  *     type: object
  *     required:
@@ -166,7 +178,10 @@ export function handle(context: IndexerContext, router: Router) {
                     onlyConfirmed,
                     confirmThreshold
                 });
-                const utxo = utxoInsts.map(inst => inst.get({ plain: true }));
+                const finality = await Finality.load(context);
+                const utxo = utxoInsts.map(inst =>
+                    finality.ofRow(inst.get({ plain: true }))
+                );
 
                 res.json(
                     createPaginationResult({
@@ -483,6 +498,135 @@ export function handle(context: IndexerContext, router: Router) {
         }
     );
 
+    /**
+     * @swagger
+     * /asset/{assetType}/holders:
+     *   get:
+     *     summary: Returns the addresses that have the asset in the order of the quantity, with the number of them
+     *     tags: [Asset]
+     *     parameters:
+     *       - name: assetType
+     *         description: The type of the Asset
+     *         required: true
+     *         in: path
+     *         type: string
+     *       - name: itemsPerPage
+     *         description: items per page for the pagination (default 15)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: firstEvaluatedKey
+     *         description: the evaulated key of the first item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: lastEvaluatedKey
+     *         description: the evaulated key of the last item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: holders, return null if the asset scheme does not exist
+     *         schema:
+     *           type: object
+     *           properties:
+     *             assetType:
+     *               type: string
+     *             supply:
+     *               type: string
+     *             holderCount:
+     *               type: number
+     *             data:
+     *               type: array
+     *               items:
+     *                 type: object
+     *                 properties:
+     *                   address:
+     *                     type: string
+     *                   quantity:
+     *                     type: string
+     *                   percentage:
+     *                     type: number
+     *                     description: the percentage of the supply
+     *                   utxoCount:
+     *                     type: number
+     *             hasNextPage:
+     *               type: boolean
+     *             hasPreviousPage:
+     *               type: boolean
+     *             firstEvaluatedKey:
+     *               type: string
+     *             lastEvaluatedKey:
+     *               type: string
+     */
+    router.get(
+        "/asset/:assetType/holders",
+        parseEvaluatedKey,
+        validate({
+            params: { assetType: assetTypeSchema.required() },
+            query: {
+                ...paginationSchema,
+                ...assetHolderPaginationSchema
+            }
+        }),
+        async (req, res, next) => {
+            const itemsPerPage = req.query.itemsPerPage
+                ? parseInt(req.query.itemsPerPage, 10)
+                : 15;
+            const firstEvaluatedKey = req.query.firstEvaluatedKey;
+            const lastEvaluatedKey = req.query.lastEvaluatedKey;
+            try {
+                const assetType = new H160(req.params.assetType);
+                const assetSchemeInst = await AssetSchemeModel.getByAssetType(
+                    assetType
+                );
+                if (!assetSchemeInst) {
+                    res.json(null);
+                    return;
+                }
+                const { supply, holderCount } = assetSchemeInst.get({
+                    plain: true
+                });
+                const holderInsts = await AggsUTXOModel.getHolders({
+                    assetType,
+                    itemsPerPage: itemsPerPage + 1,
+                    firstEvaluatedKey,
+                    lastEvaluatedKey
+                });
+                const result = createPaginationResult({
+                    query: {
+                        firstEvaluatedKey,
+                        lastEvaluatedKey
+                    },
+                    rows: holderInsts.map(inst => inst.get({ plain: true })),
+                    getEvaluatedKey: AggsUTXOModel.createHolderEvaluatedKey,
+                    itemsPerPage
+                });
+                res.json({
+                    assetType: assetType.value,
+                    supply,
+                    holderCount,
+                    ...result,
+                    data: result.data.map(holder => ({
+                        address: holder.address,
+                        quantity: holder.totalAssetQuantity,
+                        percentage:
+                            supply == null || new BigNumber(supply).isZero()
+                                ? null
+                                : new BigNumber(holder.totalAssetQuantity)
+                                      .times(100)
+                                      .div(supply)
+                                      .toNumber(),
+                        utxoCount: parseInt(holder.utxoQuantity, 10)
+                    }))
+                });
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
     /**
      * @swagger
      * /snapshot:
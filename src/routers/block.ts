@@ -8,6 +8,7 @@ import {
     parseEvaluatedKey,
     syncIfNeeded
 } from "../models/logic/utils/middleware";
+import { Finality } from "./finality";
 import { createPaginationResult } from "./pagination";
 import {
     blockPaginationSchema,
@@ -35,6 +36,14 @@ import {
  *       content:
  *         type: string
  *         description: block example
+ *       confirmations:
+ *         type: number
+ *         description: the number of the indexed blocks on top of the block. null if pending
+ *         example: 3
+ *       isFinal:
+ *         type: boolean
+ *         description: true if confirmations is not less than worker.finalityDepth
+ *         example: false
  */
 export function handle(context: IndexerContext, router: Router) {
     /**
@@ -71,9 +80,10 @@ export function handle(context: IndexerContext, router: Router) {
         async (_A, res, next) => {
             try {
                 const latestBlockInst = await BlockModel.getLatestBlock();
+                const finality = await Finality.load(context);
                 res.json(
                     latestBlockInst
-                        ? latestBlockInst.get({ plain: true })
+                        ? finality.ofBlock(latestBlockInst.get({ plain: true }))
                         : null
                 );
             } catch (e) {
@@ -177,9 +187,10 @@ export function handle(context: IndexerContext, router: Router) {
                 } else if (numberValue !== undefined) {
                     latestBlockInst = await BlockModel.getByNumber(numberValue);
                 }
+                const finality = await Finality.load(context);
                 res.json(
                     latestBlockInst
-                        ? latestBlockInst.get({ plain: true })
+                        ? finality.ofBlock(latestBlockInst.get({ plain: true }))
                         : null
                 );
             } catch (e) {
@@ -252,13 +263,16 @@ export function handle(context: IndexerContext, router: Router) {
                     firstEvaluatedKey,
                     lastEvaluatedKey
                 });
+                const finality = await Finality.load(context);
                 res.json(
                     createPaginationResult({
                         query: {
                             firstEvaluatedKey,
                             lastEvaluatedKey
                         },
-                        rows: txs.map(tx => tx.get({ plain: true })),
+                        rows: txs.map(tx =>
+                            finality.ofRow(tx.get({ plain: true }))
+                        ),
                         getEvaluatedKey:
                             TransactionModel.createBlockTxEvaluatedKey,
                         itemsPerPage
@@ -381,13 +395,14 @@ export function handle(context: IndexerContext, router: Router) {
                 }).then(instances =>
                     instances.map(i => i.get({ plain: true }))
                 );
+                const finality = await Finality.load(context);
                 res.json(
                     createPaginationResult({
                         query: {
                             firstEvaluatedKey,
                             lastEvaluatedKey
                         },
-                        rows: blocks,
+                        rows: blocks.map(block => finality.ofBlock(block)),
                         getEvaluatedKey: BlockModel.createBlockEvaluatedKey,
                         itemsPerPage
                     })
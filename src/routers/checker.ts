@@ -0,0 +1,133 @@
+import { Router } from "express";
+import { IndexerContext } from "../context";
+import * as CheckerFindingModel from "../models/logic/checkerFinding";
+import { parseEvaluatedKey } from "../models/logic/utils/middleware";
+import { createPaginationResult } from "./pagination";
+import {
+    checkerFindingPaginationSchema,
+    checkerFindingsSchema,
+    paginationSchema,
+    validate
+} from "./validator";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Checker
+ *   description: The mismatches that the checker found
+ * definitions:
+ *   CheckerFinding:
+ *     type: object
+ *     properties:
+ *       id:
+ *         type: string
+ *         example: "1"
+ *       target:
+ *         type: string
+ *         enum: [cccChanges, accounts, utxos, assetSchemes]
+ *       key:
+ *         type: string
+ *         description: the address, "tracker:outputIndex" or the asset type
+ *         example: "tccq9h7vnl68frvqapzv3tujrxtxtwqdnxw6yamrrgd"
+ *       blockNumber:
+ *         type: number
+ *         description: the block where the mismatch is found
+ *         example: 1234
+ *       expected:
+ *         type: object
+ *         description: the value of CodeChain. null if CodeChain doesn't have it
+ *       actual:
+ *         type: object
+ *         description: the value of the indexer
+ *       resolved:
+ *         type: boolean
+ *         description: true if the indexer is repaired
+ */
+export function handle(_C: IndexerContext, router: Router) {
+    /**
+     * @swagger
+     * /checker/findings:
+     *   get:
+     *     summary: Returns the mismatches that the checker found, latest first
+     *     tags: [Checker]
+     *     parameters:
+     *       - name: resolved
+     *         description: filter by whether the mismatch is repaired
+     *         in: query
+     *         required: false
+     *         type: boolean
+     *       - name: target
+     *         description: filter by cccChanges, accounts, utxos or assetSchemes
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: itemsPerPage
+     *         description: items per page for the pagination (default 15)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: firstEvaluatedKey
+     *         description: the evaulated key of the first item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: lastEvaluatedKey
+     *         description: the evaulated key of the last item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: findings
+     *         schema:
+     *           type: array
+     *           items:
+     *             $ref: '#/definitions/CheckerFinding'
+     */
+    router.get(
+        "/checker/findings",
+        parseEvaluatedKey,
+        validate({
+            query: {
+                ...checkerFindingsSchema,
+                ...paginationSchema,
+                ...checkerFindingPaginationSchema
+            }
+        }),
+        async (req, res, next) => {
+            const resolved = req.query.resolved;
+            const target = req.query.target;
+            const itemsPerPage =
+                (req.query.itemsPerPage &&
+                    parseInt(req.query.itemsPerPage, 10)) ||
+                15;
+            const firstEvaluatedKey = req.query.firstEvaluatedKey;
+            const lastEvaluatedKey = req.query.lastEvaluatedKey;
+            try {
+                const findings = await CheckerFindingModel.getFindings({
+                    resolved,
+                    target,
+                    itemsPerPage: itemsPerPage + 1,
+                    firstEvaluatedKey,
+                    lastEvaluatedKey
+                }).then(instances =>
+                    instances.map(i => i.get({ plain: true }))
+                );
+                res.json(
+                    createPaginationResult({
+                        query: {
+                            firstEvaluatedKey,
+                            lastEvaluatedKey
+                        },
+                        rows: findings,
+                        getEvaluatedKey:
+                            CheckerFindingModel.createCheckerFindingEvaluatedKey,
+                        itemsPerPage
+                    })
+                );
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+}
@@ -0,0 +1,171 @@
+import {
+    AssetAddress,
+    H160,
+    PlatformAddress
+} from "codechain-sdk/lib/core/classes";
+import { Request, Router } from "express";
+import { BAD_REQUEST } from "http-status-codes";
+import { IndexerContext } from "../context";
+import {
+    EventSink,
+    EventStream,
+    STREAM_EVENT_TYPES,
+    StreamEventType,
+    StreamMessage
+} from "../events/stream";
+import * as BlockModel from "../models/logic/block";
+import { eventsSchema, validate } from "./validator";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Event
+ *   description: The events that the worker commits, as Server-Sent Events
+ */
+export function handle(context: IndexerContext, router: Router) {
+    const { heartbeatInterval, maxReplayBlocks } = context.options.events;
+
+    /**
+     * @swagger
+     * /events:
+     *   get:
+     *     summary: Streams the events as Server-Sent Events. The id of an event is the number of the last block sent, so an EventSource resumes with the Last-Event-ID header
+     *     tags: [Event]
+     *     produces:
+     *       - text/event-stream
+     *     parameters:
+     *       - name: types
+     *         description: the comma separated event types among block, transaction, blockRetracted, reorg and pendingTransactions (default all)
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: address
+     *         description: the transaction events are sent only for the confirmed transactions that involve the address
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: assetType
+     *         description: the transaction events are sent only for the confirmed transactions that involve the asset type
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: lastBlockNumber
+     *         description: the number of the last block that the client has seen. The blocks after it are sent first (default the latest block)
+     *         in: query
+     *         required: false
+     *         type: number
+     *     responses:
+     *       200:
+     *         description: the stream of the events
+     *       400:
+     *         description: the address is invalid or lastBlockNumber is too far behind
+     */
+    router.get(
+        "/events",
+        validate({
+            query: {
+                ...eventsSchema
+            }
+        }),
+        async (req, res, next) => {
+            const address = req.query.address;
+            const assetTypeString = req.query.assetType;
+            const types =
+                typeof req.query.types === "string"
+                    ? (req.query.types.split(",") as StreamEventType[])
+                    : STREAM_EVENT_TYPES;
+            if (
+                address != null &&
+                !PlatformAddress.check(address) &&
+                !AssetAddress.check(address)
+            ) {
+                res.status(BAD_REQUEST).json({
+                    message: `Invalid address: ${address}`
+                });
+                return;
+            }
+            try {
+                const latestBlockInst = await BlockModel.getLatestBlock();
+                const latestBlockNumber = latestBlockInst
+                    ? latestBlockInst.get("number")
+                    : -1;
+                const resumeBlockNumber = parseLastBlockNumber(req);
+                if (
+                    resumeBlockNumber != null &&
+                    latestBlockNumber - resumeBlockNumber > maxReplayBlocks
+                ) {
+                    res.status(BAD_REQUEST).json({
+                        message: `Cannot resume more than ${maxReplayBlocks} blocks behind`
+                    });
+                    return;
+                }
+                const lastBlockNumber =
+                    resumeBlockNumber == null
+                        ? latestBlockNumber
+                        : Math.min(resumeBlockNumber, latestBlockNumber);
+
+                const sink: EventSink = {
+                    write: message => res.write(formatMessage(message)),
+                    end: () => res.end()
+                };
+                const stream = new EventStream(
+                    sink,
+                    {
+                        types,
+                        address,
+                        assetType:
+                            assetTypeString &&
+                            H160.ensure(assetTypeString).value
+                    },
+                    lastBlockNumber
+                );
+                // Subscribes before the catch-up not to miss the blocks
+                // indexed during it.
+                const unsubscribe = await context.events.subscribe(stream);
+                res.writeHead(200, {
+                    "Content-Type": "text/event-stream",
+                    "Cache-Control": "no-cache",
+                    Connection: "keep-alive",
+                    "X-Accel-Buffering": "no"
+                });
+                const heartbeat = setInterval(
+                    () => res.write(": heartbeat\n\n"),
+                    heartbeatInterval * 1000
+                );
+                const cleanUp = () => {
+                    clearInterval(heartbeat);
+                    stream.stop();
+                    unsubscribe();
+                };
+                req.on("close", cleanUp);
+                res.on("finish", cleanUp);
+                stream.catchUp();
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+}
+
+// lastBlockNumber in the query or Last-Event-ID of a reconnecting EventSource
+function parseLastBlockNumber(req: Request): number | null {
+    if (req.query.lastBlockNumber != null) {
+        return parseInt(req.query.lastBlockNumber, 10);
+    }
+    const lastEventId = parseInt(req.header("Last-Event-ID") || "", 10);
+    return isNaN(lastEventId) ? null : lastEventId;
+}
+
+function formatMessage({ event, data, id }: StreamMessage): string {
+    const lines: string[] = [];
+    if (id != null) {
+        lines.push(`id: ${id}`);
+    }
+    if (event != null) {
+        lines.push(`event: ${event}`);
+    }
+    if (data != null) {
+        lines.push(`data: ${JSON.stringify(data)}`);
+    }
+    return `${lines.join("\n")}\n\n`;
+}
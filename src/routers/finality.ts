@@ -0,0 +1,46 @@
+import { IndexerContext } from "../context";
+import * as BlockModel from "../models/logic/block";
+
+/**
+ * Adds `confirmations` and `isFinal` to the rows in the responses.
+ * A block is final once `worker.finalityDepth` blocks are indexed on top of it.
+ * No block is final if it is null.
+ */
+export class Finality {
+    public static async load(context: IndexerContext): Promise<Finality> {
+        const latestBlockInst = await BlockModel.getLatestBlock();
+        return new Finality(
+            latestBlockInst ? latestBlockInst.get("number") : null,
+            context.options.worker.finalityDepth
+        );
+    }
+
+    private constructor(
+        private readonly latestBlockNumber: number | null,
+        private readonly finalityDepth: number | null
+    ) {}
+
+    public of(
+        blockNumber?: number | null
+    ): { confirmations: number | null; isFinal: boolean } {
+        if (blockNumber == null || this.latestBlockNumber == null) {
+            return { confirmations: null, isFinal: false };
+        }
+        const confirmations = Math.max(this.latestBlockNumber - blockNumber, 0);
+        return {
+            confirmations,
+            isFinal:
+                this.finalityDepth != null &&
+                confirmations >= this.finalityDepth
+        };
+    }
+
+    public ofBlock<T extends { number: number }>(block: T) {
+        return { ...block, ...this.of(block.number) };
+    }
+
+    // For transactions and UTXOs. Pending transactions are never final.
+    public ofRow<T extends { blockNumber?: number | null }>(row: T) {
+        return { ...row, ...this.of(row.blockNumber) };
+    }
+}
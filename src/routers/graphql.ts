@@ -0,0 +1,72 @@
+import { Router } from "express";
+import { formatError } from "graphql";
+import { BAD_REQUEST } from "http-status-codes";
+import { IndexerContext } from "../context";
+import { GraphQLRequest, runQuery } from "../graphql";
+
+/**
+ * @swagger
+ * tags:
+ *   name: GraphQL
+ *   description: Blocks, transactions, UTXOs, asset schemes, accounts, CCCChanges and logs in one query
+ */
+export function handle(context: IndexerContext, router: Router) {
+    /**
+     * @swagger
+     * /graphql:
+     *   post:
+     *     summary: Runs a GraphQL query. The lists are paginated with the evaluated keys as the REST API
+     *     tags: [GraphQL]
+     *     parameters:
+     *       - name: body
+     *         in: body
+     *         required: true
+     *         schema:
+     *           type: object
+     *           properties:
+     *             query:
+     *               type: string
+     *               example: "{ blocks(itemsPerPage: 5) { data { number transactions { hash } } lastEvaluatedKey } }"
+     *             variables:
+     *               type: object
+     *             operationName:
+     *               type: string
+     *     responses:
+     *       200:
+     *         description: the data and the errors of the resolvers
+     *         schema:
+     *           type: object
+     *           properties:
+     *             data:
+     *               type: object
+     *             errors:
+     *               type: array
+     *               items:
+     *                 type: object
+     *       400:
+     *         description: the query is invalid, too deep or too costly
+     */
+    router.post("/graphql", async (req, res, next) => {
+        const body: Partial<GraphQLRequest> = req.body || {};
+        const { query, variables, operationName } = body;
+        if (typeof query !== "string") {
+            res.status(BAD_REQUEST).json({
+                errors: [{ message: "The query is required" }]
+            });
+            return;
+        }
+        try {
+            const { badRequest, data, errors } = await runQuery(context, {
+                query,
+                variables,
+                operationName
+            });
+            res.status(badRequest ? BAD_REQUEST : 200).json({
+                data,
+                errors: errors && errors.map(formatError)
+            });
+        } catch (e) {
+            next(e);
+        }
+    });
+}
@@ -55,8 +55,8 @@ export function createPaginationResult<Row>(params: {
 }
 
 function queryOrder(params: {
-    firstEvaluatedKey?: number[] | null;
-    lastEvaluatedKey?: number[] | null;
+    firstEvaluatedKey?: Array<number | string> | null;
+    lastEvaluatedKey?: Array<number | string> | null;
 }): "reverse" | "forward" {
     if (params.firstEvaluatedKey && params.lastEvaluatedKey) {
         throw new Error("Unreachable");
@@ -144,6 +144,74 @@ export const blockPagination = {
     }
 };
 
+type ReorgEvaluationKey = [number];
+export const reorgPagination = {
+    orderby: (params: {
+        firstEvaluatedKey?: ReorgEvaluationKey | null;
+        lastEvaluatedKey?: ReorgEvaluationKey | null;
+    }) => {
+        switch (queryOrder(params)) {
+            case "forward":
+                return [["id", "DESC"]];
+            case "reverse":
+                return [["id", "ASC"]];
+            default:
+                throw Error("Unreachable");
+        }
+    },
+    where: (params: {
+        firstEvaluatedKey?: ReorgEvaluationKey | null;
+        lastEvaluatedKey?: ReorgEvaluationKey | null;
+    }) => {
+        switch (queryOrder(params)) {
+            case "forward": {
+                const [id] = params.lastEvaluatedKey!;
+                return { id: { [Sequelize.Op.lt]: id } };
+            }
+            case "reverse": {
+                const [id] = params.firstEvaluatedKey!;
+                return { id: { [Sequelize.Op.gt]: id } };
+            }
+            default:
+                throw Error("Unreachable");
+        }
+    }
+};
+
+type CheckerFindingEvaluationKey = [number];
+export const checkerFindingPagination = {
+    orderby: (params: {
+        firstEvaluatedKey?: CheckerFindingEvaluationKey | null;
+        lastEvaluatedKey?: CheckerFindingEvaluationKey | null;
+    }) => {
+        switch (queryOrder(params)) {
+            case "forward":
+                return [["id", "DESC"]];
+            case "reverse":
+                return [["id", "ASC"]];
+            default:
+                throw Error("Unreachable");
+        }
+    },
+    where: (params: {
+        firstEvaluatedKey?: CheckerFindingEvaluationKey | null;
+        lastEvaluatedKey?: CheckerFindingEvaluationKey | null;
+    }) => {
+        switch (queryOrder(params)) {
+            case "forward": {
+                const [id] = params.lastEvaluatedKey!;
+                return { id: { [Sequelize.Op.lt]: id } };
+            }
+            case "reverse": {
+                const [id] = params.firstEvaluatedKey!;
+                return { id: { [Sequelize.Op.gt]: id } };
+            }
+            default:
+                throw Error("Unreachable");
+        }
+    }
+};
+
 export const blockTxPagination = {
     forwardOrder: [["transactionIndex", "DESC"]],
     reverseOrder: [["transactionIndex", "ASC"]],
@@ -256,6 +324,52 @@ export const aggsUTXOPagination = {
                 };
             }
         }
+    },
+    // The key is [totalAssetQuantity, address]
+    byQuantity: {
+        forwardOrder: [["totalAssetQuantity", "DESC"], ["address", "DESC"]],
+        reverseOrder: [["totalAssetQuantity", "ASC"], ["address", "ASC"]],
+        orderby: (params: {
+            firstEvaluatedKey?: string[] | null;
+            lastEvaluatedKey?: string[] | null;
+        }) => {
+            const order = queryOrder(params);
+            if (order === "forward") {
+                return aggsUTXOPagination.byQuantity.forwardOrder;
+            } else if (order === "reverse") {
+                return aggsUTXOPagination.byQuantity.reverseOrder;
+            }
+        },
+        where: (params: {
+            firstEvaluatedKey?: string[] | null;
+            lastEvaluatedKey?: string[] | null;
+        }) => {
+            const order = queryOrder(params);
+            const { firstEvaluatedKey, lastEvaluatedKey } = params;
+            if (order === "forward") {
+                const [quantity, address] = lastEvaluatedKey!;
+                return {
+                    [Sequelize.Op.or]: [
+                        { totalAssetQuantity: { [Sequelize.Op.lt]: quantity } },
+                        {
+                            totalAssetQuantity: quantity,
+                            address: { [Sequelize.Op.lt]: address }
+                        }
+                    ]
+                };
+            } else if (order === "reverse") {
+                const [quantity, address] = firstEvaluatedKey!;
+                return {
+                    [Sequelize.Op.or]: [
+                        { totalAssetQuantity: { [Sequelize.Op.gt]: quantity } },
+                        {
+                            totalAssetQuantity: quantity,
+                            address: { [Sequelize.Op.gt]: address }
+                        }
+                    ]
+                };
+            }
+        }
     }
 };
 
@@ -0,0 +1,163 @@
+import { Router } from "express";
+import { IndexerContext } from "../context";
+import * as ReorgModel from "../models/logic/reorg";
+import { parseEvaluatedKey } from "../models/logic/utils/middleware";
+import { createPaginationResult } from "./pagination";
+import {
+    paginationSchema,
+    reorgIdSchema,
+    reorgPaginationSchema,
+    validate
+} from "./validator";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Reorg
+ *   description: The history of the retracted blocks
+ * definitions:
+ *   Reorg:
+ *     type: object
+ *     properties:
+ *       id:
+ *         type: string
+ *         example: "1"
+ *       forkBlockNumber:
+ *         type: number
+ *         description: the number of the last block that both chains share
+ *         example: 1234
+ *       depth:
+ *         type: number
+ *         description: the number of the retracted blocks
+ *         example: 2
+ *       oldHashes:
+ *         type: array
+ *         description: the hashes of the retracted blocks from forkBlockNumber + 1
+ *         items:
+ *           type: string
+ *       newHashes:
+ *         type: array
+ *         description: the hashes of the new blocks from forkBlockNumber + 1
+ *         items:
+ *           type: string
+ *       retractedTransactionHashes:
+ *         type: array
+ *         items:
+ *           type: string
+ *       retractedCCCChanges:
+ *         type: array
+ *         items:
+ *           type: object
+ *       timestamp:
+ *         type: number
+ *         description: when the blocks were retracted
+ *         example: 1574640000
+ */
+export function handle(_C: IndexerContext, router: Router) {
+    /**
+     * @swagger
+     * /reorg:
+     *   get:
+     *     summary: Returns the reorgs, latest first
+     *     tags: [Reorg]
+     *     parameters:
+     *       - name: itemsPerPage
+     *         description: items per page for the pagination (default 15)
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: firstEvaluatedKey
+     *         description: the evaulated key of the first item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *       - name: lastEvaluatedKey
+     *         description: the evaulated key of the last item in the previous page. It will be used for the pagination
+     *         in: query
+     *         required: false
+     *         type: string
+     *     responses:
+     *       200:
+     *         description: reorgs
+     *         schema:
+     *           type: array
+     *           items:
+     *             $ref: '#/definitions/Reorg'
+     */
+    router.get(
+        "/reorg",
+        parseEvaluatedKey,
+        validate({
+            query: {
+                ...paginationSchema,
+                ...reorgPaginationSchema
+            }
+        }),
+        async (req, res, next) => {
+            const itemsPerPage =
+                (req.query.itemsPerPage &&
+                    parseInt(req.query.itemsPerPage, 10)) ||
+                15;
+            const firstEvaluatedKey = req.query.firstEvaluatedKey;
+            const lastEvaluatedKey = req.query.lastEvaluatedKey;
+            try {
+                const reorgs = await ReorgModel.getReorgs({
+                    itemsPerPage: itemsPerPage + 1,
+                    firstEvaluatedKey,
+                    lastEvaluatedKey
+                }).then(instances =>
+                    instances.map(i => i.get({ plain: true }))
+                );
+                res.json(
+                    createPaginationResult({
+                        query: {
+                            firstEvaluatedKey,
+                            lastEvaluatedKey
+                        },
+                        rows: reorgs,
+                        getEvaluatedKey: ReorgModel.createReorgEvaluatedKey,
+                        itemsPerPage
+                    })
+                );
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /reorg/{id}:
+     *   get:
+     *     summary: Returns specific reorg
+     *     tags: [Reorg]
+     *     parameters:
+     *       - name: id
+     *         description: Reorg id
+     *         required: true
+     *         in: path
+     *         type: number
+     *     responses:
+     *       200:
+     *         description: specific reorg
+     *         schema:
+     *           $ref: '#/definitions/Reorg'
+     */
+    router.get(
+        "/reorg/:id",
+        validate({
+            params: {
+                id: reorgIdSchema.required()
+            }
+        }),
+        async (req, res, next) => {
+            const id = parseInt(req.params.id, 10);
+            try {
+                const reorgInst = await ReorgModel.getById(id);
+                res.json(reorgInst ? reorgInst.get({ plain: true }) : null);
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+}
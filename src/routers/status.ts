@@ -3,6 +3,7 @@ import { SERVICE_UNAVAILABLE } from "http-status-codes";
 import * as moment from "moment";
 import { IndexerContext } from "../context";
 import * as BlockModel from "../models/logic/block";
+import * as WorkerLeaseModel from "../models/logic/workerLease";
 
 const { version } = require("../../package.json");
 
@@ -143,6 +144,21 @@ export function handle(context: IndexerContext, router: Router) {
      *             indexedBlockHash:
      *               type: string
      *               example: "c76ef861a4d4e93057b84425f996e9cd9e1a3b88"
+     *             finalIndexedBlockNumber:
+     *               type: number
+     *               description: the highest indexed block with at least finalityDepth confirmations. null if finalityDepth is null
+     *               example: 5545
+     *             finalIndexedBlockHash:
+     *               type: string
+     *               example: "c76ef861a4d4e93057b84425f996e9cd9e1a3b88"
+     *             leaseHolder:
+     *               type: string
+     *               description: the worker that writes blocks, as "hostname:pid". null if no worker holds the lease
+     *               example: "indexer-worker-0:1"
+     *             leaseExpiresAt:
+     *               type: string
+     *               description: a standby worker takes over after this time unless the holder renews the lease
+     *               example: "2019-11-29T02:00:00.000Z"
      */
     router.get("/status/sync", async (_, res, next) => {
         try {
@@ -151,6 +167,18 @@ export function handle(context: IndexerContext, router: Router) {
             const codechainBestBlock = await context.sdk.rpc.chain.getBlock(
                 codechainBestBlockNumber
             );
+            const { finalityDepth } = context.options.worker;
+            const finalBlockNumber =
+                latestBlockInst && finalityDepth != null
+                    ? latestBlockInst.get().number - finalityDepth
+                    : -1;
+            const finalBlockInst =
+                finalBlockNumber >= 0
+                    ? await BlockModel.getByNumber(finalBlockNumber)
+                    : null;
+            const leaseInst = await WorkerLeaseModel.getLease(
+                WorkerLeaseModel.WORKER_LEASE_NAME
+            );
             res.json({
                 codechainBestBlockNumber,
                 codechainBestBlockHash: codechainBestBlock
@@ -161,7 +189,15 @@ export function handle(context: IndexerContext, router: Router) {
                     : 0,
                 indexedBlockHash: latestBlockInst
                     ? latestBlockInst.get().hash
-                    : null
+                    : null,
+                finalIndexedBlockNumber: finalBlockInst
+                    ? finalBlockInst.get().number
+                    : null,
+                finalIndexedBlockHash: finalBlockInst
+                    ? finalBlockInst.get().hash
+                    : null,
+                leaseHolder: leaseInst ? leaseInst.get().holder : null,
+                leaseExpiresAt: leaseInst ? leaseInst.get().expiresAt : null
             });
         } catch (e) {
             const error = e as Error;
@@ -2,13 +2,17 @@ import { H160, H256 } from "codechain-primitives/lib";
 import { Router } from "express";
 import * as Joi from "joi";
 import { IndexerContext } from "../context";
+import * as MempoolSampleModel from "../models/logic/mempoolSample";
+import * as PendingHistoryModel from "../models/logic/pendingTransactionHistory";
 import * as TxModel from "../models/logic/transaction";
 import {
     parseEvaluatedKey,
     syncIfNeeded
 } from "../models/logic/utils/middleware";
+import { Finality } from "./finality";
 import { createPaginationResult } from "./pagination";
 import {
+    mempoolStatsSchema,
     paginationSchema,
     pendingTxPaginationSchema,
     pendingTxSchema,
@@ -34,6 +38,39 @@ import {
  *       content:
  *         type: string
  *         description: Transaction example
+ *       confirmations:
+ *         type: number
+ *         description: the number of the indexed blocks on top of the block. null if pending
+ *         example: 3
+ *       isFinal:
+ *         type: boolean
+ *         description: true if confirmations is not less than worker.finalityDepth
+ *         example: false
+ *   PendingTransactionHistory:
+ *     type: object
+ *     properties:
+ *       hash:
+ *         type: string
+ *       signer:
+ *         type: string
+ *       seq:
+ *         type: number
+ *       firstSeen:
+ *         type: number
+ *         description: the unix timestamp when the transaction is first seen in the mempool
+ *       lastSeen:
+ *         type: number
+ *         description: the unix timestamp when the transaction is last seen in the mempool
+ *       outcome:
+ *         type: string
+ *         description: mined, dropped or replaced. null while the transaction is in the mempool
+ *         example: replaced
+ *       blockNumber:
+ *         type: number
+ *         description: the number of the block if mined
+ *       replacedBy:
+ *         type: string
+ *         description: the hash of the transaction with the same signer and seq if replaced
  */
 export function handle(context: IndexerContext, router: Router) {
     /**
@@ -141,7 +178,10 @@ export function handle(context: IndexerContext, router: Router) {
                     onlyConfirmed,
                     confirmThreshold
                 });
-                const txs = txInsts.map(tx => tx.get({ plain: true }));
+                const finality = await Finality.load(context);
+                const txs = txInsts.map(tx =>
+                    finality.ofRow(tx.get({ plain: true }))
+                );
                 res.json(
                     createPaginationResult({
                         query: {
@@ -218,7 +258,7 @@ export function handle(context: IndexerContext, router: Router) {
      *         type: boolean
      *     responses:
      *       200:
-     *         description: specific transaction
+     *         description: specific transaction. If the transaction is not indexed but was pending, { pendingHistory } is returned instead
      *         schema:
      *           type: object
      *           $ref: '#/definitions/Transaction'
@@ -236,7 +276,23 @@ export function handle(context: IndexerContext, router: Router) {
             try {
                 const hash = new H256(hashString);
                 const txInst = await TxModel.getByHash(hash);
-                res.json(txInst ? txInst.get({ plain: true }) : null);
+                if (txInst == null) {
+                    const historyInst = await PendingHistoryModel.getByHash(
+                        hash
+                    );
+                    res.json(
+                        historyInst
+                            ? {
+                                  pendingHistory: historyInst.get({
+                                      plain: true
+                                  })
+                              }
+                            : null
+                    );
+                    return;
+                }
+                const finality = await Finality.load(context);
+                res.json(finality.ofRow(txInst.get({ plain: true })));
             } catch (e) {
                 next(e);
             }
@@ -310,8 +366,9 @@ export function handle(context: IndexerContext, router: Router) {
                     firstEvaluatedKey,
                     lastEvaluatedKey
                 });
+                const finality = await Finality.load(context);
                 const pendingTxs = pendingTxInsts.map(tx =>
-                    tx.get({ plain: true })
+                    finality.ofRow(tx.get({ plain: true }))
                 );
                 res.json(
                     createPaginationResult({
@@ -329,4 +386,114 @@ export function handle(context: IndexerContext, router: Router) {
             }
         }
     );
+
+    /**
+     * @swagger
+     * /pending-tx/stats:
+     *   get:
+     *     summary: Returns the statistics of the pending transactions
+     *     tags: [Transaction]
+     *     parameters:
+     *       - name: sampleCount
+     *         description: the number of the latest pending counts to return. They are sampled each sync cycle. Default is 60
+     *         in: query
+     *         required: false
+     *         type: number
+     *       - name: sync
+     *         description: wait for sync
+     *         in: query
+     *         required: false
+     *         type: boolean
+     *     responses:
+     *       200:
+     *         description: The counts and the fee distributions by type, the age of the oldest pending transaction in seconds, the number of distinct signers and the pending counts over time
+     *         schema:
+     *           type: object
+     *           example: {
+     *             "count": 3,
+     *             "distinctSigners": 2,
+     *             "oldestPendingAge": 42,
+     *             "types": {
+     *               "pay": {
+     *                 "count": 3,
+     *                 "fee": { "min": "100", "p25": "100", "median": "120", "p75": "150", "p90": "150", "max": "150" }
+     *               }
+     *             },
+     *             "samples": [{ "timestamp": 1574900000, "count": 2 }, { "timestamp": 1574900010, "count": 3 }]
+     *           }
+     */
+    router.get(
+        "/pending-tx/stats",
+        validate({ query: { ...mempoolStatsSchema } }),
+        syncIfNeeded(context),
+        async (req, res, next) => {
+            const sampleCount =
+                (req.query.sampleCount &&
+                    parseInt(req.query.sampleCount, 10)) ||
+                60;
+            try {
+                const {
+                    oldestPendingTimestamp,
+                    ...stats
+                } = await TxModel.getPendingStats();
+                const samples = await MempoolSampleModel.getLatestSamples(
+                    sampleCount
+                );
+                res.json({
+                    ...stats,
+                    oldestPendingAge:
+                        oldestPendingTimestamp == null
+                            ? null
+                            : Math.floor(Date.now() / 1000) -
+                              oldestPendingTimestamp,
+                    samples: samples.map(sample => sample.get({ plain: true }))
+                });
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /pending-tx/{hash}/history:
+     *   get:
+     *     summary: Returns when the transaction was in the mempool and how it left
+     *     tags: [Transaction]
+     *     parameters:
+     *       - name: hash
+     *         description: Transaction hash
+     *         required: true
+     *         in: path
+     *         type: string
+     *       - name: sync
+     *         description: wait for sync
+     *         in: query
+     *         required: false
+     *         type: boolean
+     *     responses:
+     *       200:
+     *         description: the history of the pending transaction. null if it has never been pending
+     *         schema:
+     *           type: object
+     *           $ref: '#/definitions/PendingTransactionHistory'
+     */
+    router.get(
+        "/pending-tx/:hash/history",
+        validate({
+            params: {
+                hash: Joi.string().regex(/^(0x)?[0-9a-f]{64}$/)
+            }
+        }),
+        syncIfNeeded(context),
+        async (req, res, next) => {
+            try {
+                const hash = new H256(req.params.hash);
+                const historyInst = await PendingHistoryModel.getByHash(hash);
+                res.json(historyInst ? historyInst.get({ plain: true }) : null);
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
 }
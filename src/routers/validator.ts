@@ -7,12 +7,15 @@ const expressValidation = require("express-validation");
 export const validate: (params: {
     query?: Joi.SchemaLike;
     params?: Joi.SchemaLike;
+    body?: Joi.SchemaLike;
 }) => express.RequestHandler = params => {
     return expressValidation({
         query: params.query && Joi.compile(params.query),
         params: params.params && Joi.compile(params.params),
+        body: params.body && Joi.compile(params.body),
         options: {
-            allowUnknownQuery: false
+            allowUnknownQuery: false,
+            allowUnknownBody: false
         },
         ...params
     });
@@ -42,6 +45,12 @@ export const platformAddressSchema = Joi.string();
 // FIXME: PlatformAddress or AssetAddress
 const address = Joi.string();
 export const assetTypeSchema = Joi.string().regex(/^(0x)?[0-9a-f]{40}$/);
+export const reorgIdSchema = Joi.number()
+    .integer()
+    .positive();
+export const webhookIdSchema = Joi.number()
+    .integer()
+    .positive();
 const type = Joi.string().regex(
     new RegExp(`^(${TYPES.join("|")})(,(${TYPES.join("|")}))*$`)
 );
@@ -66,6 +75,13 @@ export const paginationSchema = {
         .max(100)
 };
 
+export const mempoolStatsSchema = {
+    sampleCount: Joi.number()
+        .integer()
+        .min(1)
+        .max(1440)
+};
+
 export const utxoPaginationSchema = {
     firstEvaluatedKey: Joi.array().items(
         Joi.number(),
@@ -85,6 +101,63 @@ export const blockPaginationSchema = {
     firstEvaluatedKey: blockEvaluationKey
 };
 
+const reorgEvaluationKey = Joi.array().items(Joi.number());
+export const reorgPaginationSchema = {
+    lastEvaluatedKey: reorgEvaluationKey,
+    firstEvaluatedKey: reorgEvaluationKey
+};
+
+const checkerFindingEvaluationKey = Joi.array().items(Joi.number());
+export const checkerFindingPaginationSchema = {
+    lastEvaluatedKey: checkerFindingEvaluationKey,
+    firstEvaluatedKey: checkerFindingEvaluationKey
+};
+
+export const checkerFindingsSchema = {
+    resolved: Joi.boolean(),
+    target: Joi.string().valid(
+        "cccChanges",
+        "accounts",
+        "utxos",
+        "assetSchemes"
+    )
+};
+
+// The subscription with reasons is told the CCCChanges, not the transactions.
+export const webhookSubscriptionSchema = Joi.object({
+    url: Joi.string()
+        .uri({ scheme: ["http", "https"] })
+        .required(),
+    secret: Joi.string().min(16),
+    address,
+    assetType: assetTypeSchema,
+    transactionTypes: Joi.array()
+        .items(Joi.string().valid(TYPES))
+        .min(1),
+    reasons: Joi.array()
+        .items(Joi.string().valid(defaultAllReasons))
+        .min(1)
+}).without("reasons", ["assetType", "transactionTypes"]);
+
+const EVENT_TYPES = [
+    "block",
+    "transaction",
+    "blockRetracted",
+    "reorg",
+    "pendingTransactions"
+];
+
+export const eventsSchema = {
+    types: Joi.string().regex(
+        new RegExp(`^(${EVENT_TYPES.join("|")})(,(${EVENT_TYPES.join("|")}))*$`)
+    ),
+    address,
+    assetType: assetTypeSchema,
+    lastBlockNumber: Joi.number()
+        .integer()
+        .min(-1)
+};
+
 export const blockTxPaginationSchema = {
     firstEvaluatedKey: Joi.array().items(Joi.number()),
     lastEvaluatedKey: Joi.array().items(Joi.number())
@@ -95,6 +168,15 @@ export const aggsUTXOPaginationSchema = {
     lastEvaluatedKey: Joi.array().items(Joi.string())
 };
 
+const assetHolderKey = Joi.array()
+    .ordered(Joi.string().regex(/^\d+$/), Joi.string().alphanum())
+    .length(2);
+
+export const assetHolderPaginationSchema = {
+    firstEvaluatedKey: assetHolderKey,
+    lastEvaluatedKey: assetHolderKey
+};
+
 export const txPaginationSchema = {
     firstEvaluatedKey: Joi.array().items(Joi.number(), Joi.number()),
     lastEvaluatedKey: Joi.array().items(Joi.number(), Joi.number())
@@ -118,6 +200,19 @@ export const accountBalanceHistoryPaginationSchema = {
     lastEvaluatedKey: Joi.array().items(Joi.number(), Joi.string())
 };
 
+export const accountExportSchema = {
+    format: Joi.string().valid("csv", "ndjson"),
+    fromDate: Joi.date().iso(),
+    toDate: Joi.date().iso(),
+    fromBlockNumber: Joi.number()
+        .integer()
+        .min(0),
+    toBlockNumber: Joi.number()
+        .integer()
+        .min(0),
+    type
+};
+
 export const txSchema = {
     address,
     assetType: assetTypeSchema,
@@ -161,6 +256,14 @@ export const logMinersSchema = {
     date: logDate.required()
 };
 
+export const accountStatementSchema = {
+    period: Joi.string().valid("day", "week", "month"),
+    timezone: Joi.string(),
+    fromDate: logDate,
+    toDate: logDate,
+    format: Joi.string().valid("json", "csv")
+};
+
 export const utxoSchema = {
     address,
     assetType: assetTypeSchema,
@@ -170,6 +273,30 @@ export const utxoSchema = {
     sync
 };
 
+export const richListSchema = {
+    page: Joi.number()
+        .integer()
+        .min(1)
+};
+
+export const richListHistorySchema = {
+    days: Joi.number()
+        .integer()
+        .min(1)
+        .max(3660)
+};
+
+export const cccBalanceSchema = {
+    blockNumber: Joi.number()
+        .integer()
+        .min(0),
+    date: Joi.date().iso()
+};
+
+export const cccSnapshotPaginationSchema = {
+    lastEvaluatedKey: Joi.array().items(Joi.string())
+};
+
 export const snapshotSchema = {
     assetType: assetTypeSchema.required(),
     date: Joi.date().iso()
@@ -0,0 +1,238 @@
+import {
+    AssetAddress,
+    H160,
+    PlatformAddress
+} from "codechain-sdk/lib/core/classes";
+import * as crypto from "crypto";
+import { Router } from "express";
+import { BAD_REQUEST, CREATED, NO_CONTENT, NOT_FOUND } from "http-status-codes";
+import * as _ from "lodash";
+import { IndexerContext } from "../context";
+import * as WebhookModel from "../models/logic/webhook";
+import { WebhookSubscriptionInstance } from "../models/webhookSubscription";
+import {
+    validate,
+    webhookIdSchema,
+    webhookSubscriptionSchema
+} from "./validator";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Webhook
+ *   description: The subscriptions that the indexed transactions and CCCChanges are posted to
+ * definitions:
+ *   WebhookSubscription:
+ *     type: object
+ *     properties:
+ *       id:
+ *         type: string
+ *         example: "1"
+ *       url:
+ *         type: string
+ *         example: "https://example.com/hook"
+ *       address:
+ *         type: string
+ *         description: the transactions or the CCCChanges of the PlatformAddress or the AssetAddress
+ *       assetType:
+ *         type: string
+ *         description: the transactions of the asset type
+ *       transactionTypes:
+ *         type: array
+ *         description: the transactions of the types
+ *         items:
+ *           type: string
+ *       reasons:
+ *         type: array
+ *         description: the CCCChanges of the reasons instead of the transactions
+ *         items:
+ *           type: string
+ */
+export function handle(context: IndexerContext, router: Router) {
+    // The routes would let anyone make the indexer send requests.
+    if (!context.options.webhook.enabled) {
+        return;
+    }
+
+    /**
+     * @swagger
+     * /webhook:
+     *   post:
+     *     summary: Subscribes to the transactions or the CCCChanges that match all the filters. The response has the secret of the HMAC signature, which is generated if it is not given
+     *     tags: [Webhook]
+     *     parameters:
+     *       - name: body
+     *         in: body
+     *         required: true
+     *         schema:
+     *           type: object
+     *           required:
+     *             - url
+     *           properties:
+     *             url:
+     *               type: string
+     *             secret:
+     *               type: string
+     *             address:
+     *               type: string
+     *             assetType:
+     *               type: string
+     *             transactionTypes:
+     *               type: array
+     *               items:
+     *                 type: string
+     *             reasons:
+     *               type: array
+     *               items:
+     *                 type: string
+     *     responses:
+     *       201:
+     *         description: the subscription with the secret
+     *         schema:
+     *           $ref: '#/definitions/WebhookSubscription'
+     *       400:
+     *         description: the filters are invalid
+     */
+    router.post(
+        "/webhook",
+        validate({
+            body: webhookSubscriptionSchema
+        }),
+        async (req, res, next) => {
+            const {
+                url,
+                secret,
+                address,
+                assetType,
+                transactionTypes,
+                reasons
+            } = req.body;
+            if (
+                address != null &&
+                !PlatformAddress.check(address) &&
+                !AssetAddress.check(address)
+            ) {
+                res.status(BAD_REQUEST).json({
+                    message: `Invalid address: ${address}`
+                });
+                return;
+            }
+            try {
+                const subscriptionInst = await WebhookModel.createSubscription({
+                    url,
+                    secret: secret || crypto.randomBytes(32).toString("hex"),
+                    address,
+                    assetType: assetType && H160.ensure(assetType).value,
+                    transactionTypes,
+                    reasons
+                });
+                res.status(CREATED).json(subscriptionInst.get({ plain: true }));
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /webhook:
+     *   get:
+     *     summary: Returns the subscriptions without the secrets
+     *     tags: [Webhook]
+     *     responses:
+     *       200:
+     *         description: subscriptions
+     *         schema:
+     *           type: array
+     *           items:
+     *             $ref: '#/definitions/WebhookSubscription'
+     */
+    router.get("/webhook", async (_A, res, next) => {
+        try {
+            const subscriptions = await WebhookModel.getSubscriptions();
+            res.json(subscriptions.map(withoutSecret));
+        } catch (e) {
+            next(e);
+        }
+    });
+
+    /**
+     * @swagger
+     * /webhook/{id}:
+     *   get:
+     *     summary: Returns specific subscription without the secret
+     *     tags: [Webhook]
+     *     parameters:
+     *       - name: id
+     *         description: Subscription id
+     *         required: true
+     *         in: path
+     *         type: number
+     *     responses:
+     *       200:
+     *         description: specific subscription
+     *         schema:
+     *           $ref: '#/definitions/WebhookSubscription'
+     */
+    router.get(
+        "/webhook/:id",
+        validate({
+            params: {
+                id: webhookIdSchema.required()
+            }
+        }),
+        async (req, res, next) => {
+            const id = parseInt(req.params.id, 10);
+            try {
+                const subscriptionInst = await WebhookModel.getSubscriptionById(
+                    id
+                );
+                res.json(
+                    subscriptionInst ? withoutSecret(subscriptionInst) : null
+                );
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+
+    /**
+     * @swagger
+     * /webhook/{id}:
+     *   delete:
+     *     summary: Deletes specific subscription and its queued deliveries
+     *     tags: [Webhook]
+     *     parameters:
+     *       - name: id
+     *         description: Subscription id
+     *         required: true
+     *         in: path
+     *         type: number
+     *     responses:
+     *       204:
+     *         description: deleted
+     *       404:
+     *         description: there is no such subscription
+     */
+    router.delete(
+        "/webhook/:id",
+        validate({
+            params: {
+                id: webhookIdSchema.required()
+            }
+        }),
+        async (req, res, next) => {
+            const id = parseInt(req.params.id, 10);
+            try {
+                const deleted = await WebhookModel.deleteSubscription(id);
+                res.sendStatus(deleted ? NO_CONTENT : NOT_FOUND);
+            } catch (e) {
+                next(e);
+            }
+        }
+    );
+}
+
+function withoutSecret(subscriptionInst: WebhookSubscriptionInstance) {
+    return _.omit(subscriptionInst.get({ plain: true }), "secret");
+}
@@ -1,31 +1,16 @@
 import * as bodyParser from "body-parser";
 import * as express from "express";
-import swaggerJSDoc = require("swagger-jsdoc");
 import * as swaggerUi from "swagger-ui-express";
 import { createApiRouter } from "./api";
-import { IndexerConfig } from "./config";
 import { IndexerContext } from "./context";
 import log from "./log";
+import { handleMetrics } from "./metrics";
+import { swaggerSpec } from "./swagger";
 
-const config = require("config") as IndexerConfig;
-const { publicAddress, httpPort } = config;
-const swaggerDefinition = {
-    info: {
-        title: "CodeChain Indexer API",
-        version: "1.0.0"
-    },
-    host: `${publicAddress}:${httpPort}`,
-    basePath: "/api"
-};
-
-const options = {
-    swaggerDefinition,
-    apis: ["src/routers/*.ts"]
-};
-
-const swaggerSpec = swaggerJSDoc(options);
-
-export function createServer(context: IndexerContext) {
+export function createServer(
+    context: IndexerContext,
+    options: { api: boolean } = { api: true }
+) {
     const app = express();
 
     // Enable reverse proxy support in Express. This causes the
@@ -40,15 +25,17 @@ export function createServer(context: IndexerContext) {
         })
     );
 
-    if (process.env.NODE_ENV === "dev") {
-        app.use(
-            "/api-docs",
-            swaggerUi.serve,
-            swaggerUi.setup(swaggerSpec, { explorer: true })
-        );
+    app.get("/metrics", handleMetrics);
+    if (options.api) {
+        if (process.env.NODE_ENV === "dev") {
+            app.use(
+                "/api-docs",
+                swaggerUi.serve,
+                swaggerUi.setup(swaggerSpec, { explorer: true })
+            );
+        }
+        app.use("/api", createApiRouter(context, true));
     }
-
-    app.use("/api", createApiRouter(context, true));
     app.use(handleErrors);
 
     return app;
@@ -0,0 +1,75 @@
+import {
+    H160Value,
+    H256Value,
+    PlatformAddress,
+    PlatformAddressValue,
+    U64
+} from "codechain-primitives";
+import {
+    Asset,
+    AssetScheme,
+    Block,
+    SignedTransaction
+} from "codechain-sdk/lib/core/classes";
+import { Candidate, Prisoner } from "codechain-stakeholder-sdk";
+
+// [lastTermFinishedBlockNumber, currentTermId] from "chain_getTermMetadata"
+export type TermMetadata = [number, number];
+
+/**
+ * Every chain read the indexer makes goes through this interface.
+ */
+export interface ChainSource {
+    readonly networkId: string;
+
+    getBestBlockNumber(): Promise<number>;
+    getBlock(blockNumber: number): Promise<Block | null>;
+    getMiningReward(blockNumber: number): Promise<U64 | null>;
+    getPendingTransactions(): Promise<SignedTransaction[]>;
+    getGenesisAccounts(): Promise<PlatformAddress[]>;
+    getBalance(
+        address: PlatformAddressValue,
+        blockNumber?: number
+    ): Promise<U64>;
+    getSeq(
+        address: PlatformAddressValue,
+        blockNumber?: number
+    ): Promise<number>;
+    getShardIdByHash(
+        hash: H256Value,
+        blockNumber?: number
+    ): Promise<number | null>;
+    getAsset(
+        tracker: H256Value,
+        index: number,
+        shardId: number,
+        blockNumber?: number
+    ): Promise<Asset | null>;
+    getAssetScheme(
+        assetType: H160Value,
+        shardId: number,
+        blockNumber?: number
+    ): Promise<AssetScheme | null>;
+    getTermMetadata(blockNumber: number): Promise<TermMetadata | null>;
+    // The raw result of "chain_getCommonParams"
+    getCommonParams(blockNumber: number): Promise<any>;
+    // null for PoW or Solo consensus
+    getPossibleAuthors(blockNumber: number): Promise<string[] | null>;
+    getCustomActionData(
+        handlerId: number,
+        keyFragments: any[],
+        blockNumber?: number
+    ): Promise<string | null>;
+
+    getCCSHolders(blockNumber: number): Promise<PlatformAddress[]>;
+    getUndelegatedCCS(
+        address: PlatformAddressValue,
+        blockNumber: number
+    ): Promise<U64>;
+    getCandidates(blockNumber: number): Promise<Candidate[]>;
+    getJailed(blockNumber: number): Promise<Prisoner[]>;
+    getBanned(blockNumber: number): Promise<PlatformAddress[]>;
+}
+
+export { SDKChainSource } from "./sdk";
+export { ReplayChainSource, recordRpcResponses } from "./replay";
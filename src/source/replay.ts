@@ -0,0 +1,89 @@
+import { SDK } from "codechain-sdk";
+import * as fs from "fs";
+import { SDKChainSource } from "./sdk";
+
+/**
+ * A line of the NDJSON file that `recordRpcResponses` writes and
+ * `ReplayChainSource` reads.
+ */
+export interface RecordedResponse {
+    method: string;
+    params: any[];
+    result?: any;
+    error?: any;
+}
+
+function responseKey(method: string, params: any[]) {
+    return `${method}${JSON.stringify(params)}`;
+}
+
+/**
+ * Appends every RPC response that the SDK receives to `file`.
+ */
+export function recordRpcResponses(sdk: SDK, file: string) {
+    const sendRpcRequest = sdk.rpc.sendRpcRequest;
+    const record = (response: RecordedResponse) =>
+        fs.appendFileSync(file, `${JSON.stringify(response)}\n`);
+    sdk.rpc.sendRpcRequest = async (
+        method: string,
+        params: any[],
+        options?: any
+    ) => {
+        try {
+            const result = await sendRpcRequest(method, params, options);
+            record({ method, params, result });
+            return result;
+        } catch (error) {
+            record({
+                method,
+                params,
+                error: { code: error.code, message: error.message }
+            });
+            throw error;
+        }
+    };
+}
+
+/**
+ * Serves the chain from the responses recorded by `recordRpcResponses`.
+ * When a request was recorded several times, the responses are replayed
+ * in the recorded order and the last one is repeated afterwards.
+ */
+export class ReplayChainSource extends SDKChainSource {
+    private readonly responses: Map<string, RecordedResponse[]> = new Map();
+
+    constructor(file: string, networkId: string) {
+        super(new SDK({ server: "", networkId }));
+        fs.readFileSync(file, "utf8")
+            .split("\n")
+            .filter(line => line.trim() !== "")
+            .forEach(line => this.add(JSON.parse(line)));
+        this.sdk.rpc.sendRpcRequest = async (method: string, params: any[]) =>
+            this.replay(method, params);
+    }
+
+    public add(response: RecordedResponse) {
+        const key = responseKey(response.method, response.params);
+        const responses = this.responses.get(key);
+        if (responses == null) {
+            this.responses.set(key, [response]);
+        } else {
+            responses.push(response);
+        }
+    }
+
+    private replay(method: string, params: any[]) {
+        const responses = this.responses.get(responseKey(method, params));
+        if (responses == null) {
+            throw Error(
+                `No recorded response for ${method} ${JSON.stringify(params)}`
+            );
+        }
+        const response =
+            responses.length > 1 ? responses.shift()! : responses[0];
+        if (response.error !== undefined) {
+            throw Object.assign(Error(response.error.message), response.error);
+        }
+        return response.result;
+    }
+}
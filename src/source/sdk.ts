@@ -0,0 +1,130 @@
+import {
+    H160Value,
+    H256Value,
+    PlatformAddressValue
+} from "codechain-primitives";
+import { SDK } from "codechain-sdk";
+import * as Stakeholder from "codechain-stakeholder-sdk";
+import { ChainSource, TermMetadata } from ".";
+
+export class SDKChainSource implements ChainSource {
+    constructor(public readonly sdk: SDK) {}
+
+    public get networkId() {
+        return this.sdk.networkId;
+    }
+
+    public getBestBlockNumber() {
+        return this.sdk.rpc.chain.getBestBlockNumber();
+    }
+
+    public getBlock(blockNumber: number) {
+        return this.sdk.rpc.chain.getBlock(blockNumber);
+    }
+
+    public getMiningReward(blockNumber: number) {
+        return this.sdk.rpc.chain.getMiningReward(blockNumber);
+    }
+
+    public async getPendingTransactions() {
+        const {
+            transactions
+        } = await this.sdk.rpc.chain.getPendingTransactions();
+        return transactions;
+    }
+
+    public getGenesisAccounts() {
+        return this.sdk.rpc.chain.getGenesisAccounts();
+    }
+
+    public getBalance(address: PlatformAddressValue, blockNumber?: number) {
+        return this.sdk.rpc.chain.getBalance(address, blockNumber);
+    }
+
+    public getSeq(address: PlatformAddressValue, blockNumber?: number) {
+        return this.sdk.rpc.chain.getSeq(address, blockNumber);
+    }
+
+    public getShardIdByHash(hash: H256Value, blockNumber?: number) {
+        return this.sdk.rpc.chain.getShardIdByHash(hash, blockNumber);
+    }
+
+    public getAsset(
+        tracker: H256Value,
+        index: number,
+        shardId: number,
+        blockNumber?: number
+    ) {
+        return this.sdk.rpc.chain.getAsset(
+            tracker,
+            index,
+            shardId,
+            blockNumber
+        );
+    }
+
+    public getAssetScheme(
+        assetType: H160Value,
+        shardId: number,
+        blockNumber?: number
+    ) {
+        return this.sdk.rpc.chain.getAssetSchemeByType(
+            assetType,
+            shardId,
+            blockNumber
+        );
+    }
+
+    public getTermMetadata(blockNumber: number): Promise<TermMetadata | null> {
+        return this.sdk.rpc.sendRpcRequest("chain_getTermMetadata", [
+            blockNumber
+        ]);
+    }
+
+    public getCommonParams(blockNumber: number): Promise<any> {
+        return this.sdk.rpc.sendRpcRequest("chain_getCommonParams", [
+            blockNumber
+        ]);
+    }
+
+    public getPossibleAuthors(blockNumber: number): Promise<string[] | null> {
+        return this.sdk.rpc.sendRpcRequest("chain_getPossibleAuthors", [
+            blockNumber
+        ]);
+    }
+
+    public getCustomActionData(
+        handlerId: number,
+        keyFragments: any[],
+        blockNumber?: number
+    ) {
+        return this.sdk.rpc.engine.getCustomActionData(
+            handlerId,
+            keyFragments,
+            blockNumber
+        );
+    }
+
+    public getCCSHolders(blockNumber: number) {
+        return Stakeholder.getCCSHolders(this.sdk, blockNumber);
+    }
+
+    public getUndelegatedCCS(
+        address: PlatformAddressValue,
+        blockNumber: number
+    ) {
+        return Stakeholder.getUndelegatedCCS(this.sdk, address, blockNumber);
+    }
+
+    public getCandidates(blockNumber: number) {
+        return Stakeholder.getCandidates(this.sdk, blockNumber);
+    }
+
+    public getJailed(blockNumber: number) {
+        return Stakeholder.getJailed(this.sdk, blockNumber);
+    }
+
+    public getBanned(blockNumber: number) {
+        return Stakeholder.getBanned(this.sdk, blockNumber);
+    }
+}
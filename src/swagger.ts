@@ -0,0 +1,46 @@
+import * as _ from "lodash";
+import swaggerJSDoc = require("swagger-jsdoc");
+import { IndexerConfig } from "./config";
+
+const config = require("config") as IndexerConfig;
+const { publicAddress, httpPort } = config;
+const swaggerDefinition = {
+    info: {
+        title: "CodeChain Indexer API",
+        version: "1.0.0"
+    },
+    host: `${publicAddress}:${httpPort}`,
+    basePath: "/api"
+};
+
+const options = {
+    swaggerDefinition,
+    apis: ["src/routers/*.ts"]
+};
+
+export const swaggerSpec = swaggerJSDoc(options);
+
+/**
+ * Prefixes every path with the network ID, which is how the API is served
+ * when an indexer serves several networks.
+ */
+export function namespaceByNetwork(spec: any, networkIds: string[]): any {
+    const parameter = {
+        name: "networkId",
+        description: "the network ID",
+        in: "path",
+        required: true,
+        type: "string",
+        enum: networkIds
+    };
+    return {
+        ...spec,
+        paths: _.mapKeys(
+            _.mapValues(spec.paths, pathItem => ({
+                ...pathItem,
+                parameters: [parameter, ...(pathItem.parameters || [])]
+            })),
+            (__, path) => `/{networkId}${path}`
+        )
+    };
+}
@@ -0,0 +1,139 @@
+import * as crypto from "crypto";
+import { Job, scheduleJob } from "node-schedule";
+import * as request from "request";
+import * as WebhookModel from "../models/logic/webhook";
+import { WebhookDeliveryInstance } from "../models/webhookDelivery";
+
+export interface WebhookConfig {
+    // Enables the subscription API and the delivery
+    enabled: boolean;
+    dispatchSchedule: string;
+    batchSize: number;
+    // Seconds to wait for the response
+    timeout: number;
+    maxAttempts: number;
+    // Seconds before the first retry, which doubles on each failure
+    retryDelay: number;
+    maxRetryDelay: number;
+}
+
+/**
+ * The signature of a delivery in the X-Webhook-Signature header, which is
+ * the HMAC-SHA256 of "<X-Webhook-Timestamp>.<body>" with the secret.
+ */
+export function signDelivery(
+    secret: string,
+    timestamp: number,
+    body: string
+): string {
+    const hmac = crypto
+        .createHmac("sha256", secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+    return `sha256=${hmac}`;
+}
+
+/**
+ * Posts the queued deliveries to the subscribers. A failed delivery is
+ * retried with an exponential backoff until maxAttempts.
+ */
+export class WebhookDispatcher {
+    private job: Job | null = null;
+    private dispatching: Promise<void> | null = null;
+
+    constructor(private readonly config: WebhookConfig) {}
+
+    public run() {
+        this.job = scheduleJob(this.config.dispatchSchedule, () => {
+            if (this.dispatching) {
+                return;
+            }
+            this.dispatching = this.dispatch()
+                .catch(err => console.error("webhook dispatch error: ", err))
+                .finally(() => {
+                    this.dispatching = null;
+                });
+        });
+    }
+
+    public async destroy() {
+        if (this.job) {
+            this.job.cancel();
+        }
+        await this.dispatching;
+    }
+
+    public async dispatch() {
+        const { batchSize, timeout } = this.config;
+        for (;;) {
+            // A delivery isn't taken again while its request may be running.
+            const deliveries = await WebhookModel.claimDueDeliveries(
+                batchSize,
+                timeout * 2
+            );
+            await Promise.all(deliveries.map(this.deliver));
+            if (deliveries.length < batchSize) {
+                return;
+            }
+        }
+    }
+
+    private deliver = async (deliveryInst: WebhookDeliveryInstance) => {
+        const delivery = deliveryInst.get({ plain: true });
+        const { url, secret } = delivery.subscription!;
+        const body = JSON.stringify({
+            id: delivery.id,
+            subscriptionId: delivery.subscriptionId,
+            event: delivery.event,
+            blockNumber: delivery.blockNumber,
+            blockHash: delivery.blockHash,
+            data: delivery.data
+        });
+        const timestamp = Math.floor(Date.now() / 1000);
+        try {
+            await this.post(url, body, {
+                "Content-Type": "application/json",
+                "X-Webhook-Id": delivery.id!,
+                "X-Webhook-Event": delivery.event,
+                "X-Webhook-Timestamp": String(timestamp),
+                "X-Webhook-Signature": signDelivery(secret, timestamp, body)
+            });
+            await WebhookModel.markDelivered(delivery.id!);
+        } catch (err) {
+            const { maxAttempts, retryDelay, maxRetryDelay } = this.config;
+            // attempts includes this one
+            const { attempts } = delivery;
+            await WebhookModel.markFailed(
+                delivery.id!,
+                err.message,
+                attempts >= maxAttempts
+                    ? null
+                    : Math.min(
+                          retryDelay * Math.pow(2, attempts - 1),
+                          maxRetryDelay
+                      )
+            );
+        }
+    };
+
+    private post(
+        url: string,
+        body: string,
+        headers: { [name: string]: string }
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            request.post(
+                { url, body, headers, timeout: this.config.timeout * 1000 },
+                (err, res) => {
+                    if (err) {
+                        reject(err);
+                    } else if (res.statusCode >= 300) {
+                        reject(Error(`Webhook responded ${res.statusCode}`));
+                    } else {
+                        resolve();
+                    }
+                }
+            );
+        });
+    }
+}
@@ -1,5 +1,3 @@
-import { SDK } from "codechain-sdk";
-import { getCCSHolders } from "codechain-stakeholder-sdk";
 import * as _ from "lodash";
 import { Transaction } from "sequelize";
 import { WorkerContext } from ".";
@@ -7,26 +5,51 @@ import models from "../models";
 import { BlockAttribute } from "../models/block";
 import * as AccountModel from "../models/logic/account";
 import { getBecomeEligible } from "../models/logic/utils/custom";
+import { ChainSource, TermMetadata } from "../source";
 
 export async function updateAccount(
     block: BlockAttribute,
     params: {
         checkingBlockNumber: number;
+        // The term metadata of the block and its parent, if already fetched.
+        termMetadata?: [TermMetadata, TermMetadata];
     },
     context: WorkerContext,
     options: {
         transaction?: Transaction;
     } = {}
 ) {
+    const affectedAddresses = await getAffectedAddresses(
+        block,
+        params,
+        context,
+        options
+    );
+    await updateAccounts(
+        affectedAddresses,
+        params.checkingBlockNumber,
+        context,
+        options
+    );
+}
+
+// The addresses whose balance or seq can be changed by the block
+export async function getAffectedAddresses(
+    block: BlockAttribute,
+    params: {
+        termMetadata?: [TermMetadata, TermMetadata];
+    },
+    context: WorkerContext,
+    options: {
+        transaction?: Transaction;
+    } = {}
+): Promise<string[]> {
     const { transaction } = options;
-    const { sdk } = context;
+    const { source } = context;
     const affectedAddresses = new Array<string>();
     if (block.number === 0) {
-        const genesisAccounts: string[] = await sdk.rpc.sendRpcRequest(
-            "chain_getGenesisAccounts",
-            []
-        );
-        affectedAddresses.push(...genesisAccounts);
+        const genesisAccounts = await source.getGenesisAccounts();
+        affectedAddresses.push(...genesisAccounts.map(a => a.value));
         affectedAddresses.push(block.author);
     } else {
         affectedAddresses.push(block.author);
@@ -42,32 +65,43 @@ export async function updateAccount(
                     .map(i => i.get().address)
                     .filter(address => address.charAt(2) === "c")
             )),
-            ...(sdk.networkId === "tc"
+            ...(source.networkId === "tc"
                 ? []
-                : await getCCSHolders(sdk, block.number)
+                : await source.getCCSHolders(block.number)
             ).map(p => p.toString())
         );
         affectedAddresses.push(
-            ...(await getBecomeEligible(sdk, block.number)).map(
+            ...(await getBecomeEligible(source, block.number)).map(
                 x => x.address.value
             )
         );
         affectedAddresses.push(
-            ...(await getTermValidatorsIfTermEnd(sdk, block.number))
+            ...(await getTermValidatorsIfTermEnd(
+                source,
+                block.number,
+                params.termMetadata
+            ))
         );
     }
 
-    return Promise.all(
-        _.uniq(affectedAddresses).map(async affectedAddress => {
+    return _.uniq(affectedAddresses);
+}
+
+export async function updateAccounts(
+    addresses: string[],
+    checkingBlockNumber: number,
+    context: WorkerContext,
+    options: {
+        transaction?: Transaction;
+    } = {}
+) {
+    const { transaction } = options;
+    const { source } = context;
+    await Promise.all(
+        addresses.map(async affectedAddress => {
             const [balance, seq] = await Promise.all([
-                sdk.rpc.chain.getBalance(
-                    affectedAddress,
-                    params.checkingBlockNumber
-                ),
-                sdk.rpc.chain.getSeq(
-                    affectedAddress,
-                    params.checkingBlockNumber
-                )
+                source.getBalance(affectedAddress, checkingBlockNumber),
+                source.getSeq(affectedAddress, checkingBlockNumber)
             ]);
             await AccountModel.updateAccountOrCreate(
                 affectedAddress,
@@ -82,23 +116,21 @@ export async function updateAccount(
 }
 
 async function getTermValidatorsIfTermEnd(
-    sdk: SDK,
-    blockNumber: number
+    source: ChainSource,
+    blockNumber: number,
+    termMetadata?: [TermMetadata, TermMetadata]
 ): Promise<string[]> {
-    const [
-        [prevTermEndBlockNumber],
-        [maybeCurrentTermEndBlockNumber]
-    ] = await Promise.all([
-        sdk.rpc.sendRpcRequest("chain_getTermMetadata", [blockNumber]),
-        sdk.rpc.sendRpcRequest("chain_getTermMetadata", [blockNumber - 1])
-    ]);
+    const [[prevTermEndBlockNumber], [maybeCurrentTermEndBlockNumber]] =
+        termMetadata ||
+        ((await Promise.all([
+            source.getTermMetadata(blockNumber),
+            source.getTermMetadata(blockNumber - 1)
+        ])) as [TermMetadata, TermMetadata]);
 
     // The current block is not the last block in the current term.
     if (blockNumber !== maybeCurrentTermEndBlockNumber) {
         return [];
     }
 
-    return sdk.rpc.sendRpcRequest("chain_getPossibleAuthors", [
-        prevTermEndBlockNumber
-    ]);
+    return (await source.getPossibleAuthors(prevTermEndBlockNumber))!;
 }
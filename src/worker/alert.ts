@@ -0,0 +1,168 @@
+import { Notifier } from "../notifier";
+
+export interface SyncAlertConfig {
+    // Fires when the indexer is more than this many blocks behind the chain
+    maxLagBlocks?: number | null;
+    // Fires when the indexer is behind the chain and the latest indexed block
+    // is older than this many minutes
+    maxLagMinutes?: number | null;
+    // Fires when no new block is indexed for this many seconds
+    stallSeconds?: number | null;
+    // Fires when the same block fails to be indexed this many times
+    maxBlockFailures?: number | null;
+}
+
+export type SyncAlertRule =
+    | "lagBlocks"
+    | "lagMinutes"
+    | "stall"
+    | "blockFailures";
+
+const RULES: SyncAlertRule[] = [
+    "lagBlocks",
+    "lagMinutes",
+    "stall",
+    "blockFailures"
+];
+
+/**
+ * Watches the progress of the worker and notifies when a rule fires and when
+ * it is resolved. A rule without a threshold never fires.
+ */
+export class SyncAlerts {
+    private chainBestBlockNumber: number | null = null;
+    private indexedBlockNumber: number | null = null;
+    // Unix time in seconds
+    private indexedBlockTimestamp: number | null = null;
+    private lastProgressAt: number;
+    private failingBlockNumber: number | null = null;
+    private failures = 0;
+    private lastFailure: string | null = null;
+    private firing: Set<SyncAlertRule> = new Set();
+
+    public constructor(
+        private readonly notifier: Notifier,
+        private readonly config: SyncAlertConfig
+    ) {
+        this.lastProgressAt = Date.now();
+    }
+
+    public setChainBestBlockNumber(blockNumber: number) {
+        this.chainBestBlockNumber = blockNumber;
+    }
+
+    public setIndexedBlock(blockNumber: number, timestamp: number) {
+        if (
+            this.indexedBlockNumber == null ||
+            blockNumber > this.indexedBlockNumber
+        ) {
+            this.lastProgressAt = Date.now();
+        }
+        this.indexedBlockNumber = blockNumber;
+        this.indexedBlockTimestamp = timestamp;
+    }
+
+    public recordSuccess() {
+        this.failingBlockNumber = null;
+        this.failures = 0;
+        this.lastFailure = null;
+    }
+
+    /**
+     * Counts a failure of the block after the latest indexed one.
+     */
+    public recordFailure(err: Error | null) {
+        const blockNumber =
+            this.indexedBlockNumber == null ? 0 : this.indexedBlockNumber + 1;
+        if (this.failingBlockNumber === blockNumber) {
+            this.failures += 1;
+        } else {
+            this.failingBlockNumber = blockNumber;
+            this.failures = 1;
+        }
+        this.lastFailure = err && err.message;
+    }
+
+    public getFiringRules(): SyncAlertRule[] {
+        return RULES.filter(rule => this.firing.has(rule));
+    }
+
+    public evaluate(now: number = Date.now()) {
+        for (const rule of RULES) {
+            const problem = this.check(rule, now);
+            if (problem != null && !this.firing.has(rule)) {
+                this.firing.add(rule);
+                this.notifier.notify(
+                    "error",
+                    `alert ${rule} is firing`,
+                    problem
+                );
+            } else if (problem == null && this.firing.has(rule)) {
+                this.firing.delete(rule);
+                this.notifier.notify(
+                    "info",
+                    `alert ${rule} is resolved`,
+                    `The indexer is at block ${this.indexedBlockNumber} of ${
+                        this.chainBestBlockNumber
+                    }`
+                );
+            }
+        }
+    }
+
+    // Returns the description of the problem if the rule fires
+    private check(rule: SyncAlertRule, now: number): string | null {
+        const {
+            maxLagBlocks,
+            maxLagMinutes,
+            stallSeconds,
+            maxBlockFailures
+        } = this.config;
+        const indexed =
+            this.indexedBlockNumber == null ? -1 : this.indexedBlockNumber;
+        const lag =
+            this.chainBestBlockNumber == null
+                ? 0
+                : this.chainBestBlockNumber - indexed;
+        switch (rule) {
+            case "lagBlocks":
+                if (maxLagBlocks == null || lag <= maxLagBlocks) {
+                    return null;
+                }
+                return `The indexer is ${lag} blocks behind the chain`;
+            case "lagMinutes": {
+                if (
+                    maxLagMinutes == null ||
+                    lag <= 0 ||
+                    this.indexedBlockTimestamp == null
+                ) {
+                    return null;
+                }
+                const minutes = Math.floor(
+                    (now / 1000 - this.indexedBlockTimestamp) / 60
+                );
+                if (minutes <= maxLagMinutes) {
+                    return null;
+                }
+                return `The latest indexed block ${indexed} is ${minutes} minutes old and ${lag} blocks behind the chain`;
+            }
+            case "stall": {
+                const seconds = Math.floor((now - this.lastProgressAt) / 1000);
+                if (stallSeconds == null || seconds <= stallSeconds) {
+                    return null;
+                }
+                return `No block is indexed for ${seconds} seconds after block ${indexed}`;
+            }
+            case "blockFailures":
+                if (
+                    maxBlockFailures == null ||
+                    this.failures < maxBlockFailures
+                ) {
+                    return null;
+                }
+                return `Block ${this.failingBlockNumber} failed ${
+                    this.failures
+                } times: ${this.lastFailure}`;
+        }
+    }
+}
@@ -0,0 +1,237 @@
+import { SignedTransaction } from "codechain-sdk/lib/core/classes";
+import * as _ from "lodash";
+import models from "../models";
+import { BackfillSegmentAttribute } from "../models/backfillSegment";
+import { BlockAttribute } from "../models/block";
+import * as BackfillSegmentModel from "../models/logic/backfillSegment";
+import * as BlockModel from "../models/logic/block";
+import * as CCCBalanceModel from "../models/logic/cccBalance";
+import * as TxModel from "../models/logic/transaction";
+import { ChainSource } from "../source";
+import { indexDerivedData, WorkerContext } from "./index";
+import { BlockPrefetcher } from "./prefetch";
+
+// A block is retried when another segment creates the same asset scheme.
+const MAX_ATTEMPTS = 3;
+
+// These transactions read the outputs of the earlier transactions when they
+// are created. They are created in the stitching pass.
+function isDeferred(tx: SignedTransaction) {
+    const type = tx.unsigned.type();
+    return type === "transferAsset" || type === "unwrapCCC";
+}
+
+export interface BackfillProgress {
+    fromBlockNumber: number;
+    toBlockNumber: number;
+    indexed: number;
+    stitched: number;
+}
+
+/**
+ * Splits [fromBlockNumber, toBlockNumber] into segments. The blocks before
+ * fromBlockNumber must be indexed and the range must be final.
+ */
+export async function createBackfill(
+    source: ChainSource,
+    params: {
+        fromBlockNumber: number;
+        toBlockNumber: number;
+        segmentSize: number;
+        // null to backfill up to the best block
+        finalityDepth: number | null;
+    }
+): Promise<BackfillSegmentAttribute[]> {
+    const { fromBlockNumber, toBlockNumber, finalityDepth } = params;
+    if ((await BackfillSegmentModel.getUnfinishedSegments()).length > 0) {
+        throw Error("Another backfill is not finished");
+    }
+    const latestBlockInst = await BlockModel.getLatestBlock();
+    const latestBlockNumber = latestBlockInst
+        ? latestBlockInst.get("number")
+        : -1;
+    if (fromBlockNumber !== latestBlockNumber + 1) {
+        throw Error(
+            `The backfill must start from ${latestBlockNumber +
+                1}, the next of the latest indexed block`
+        );
+    }
+    const finalBlockNumber =
+        (await source.getBestBlockNumber()) - (finalityDepth || 0);
+    if (toBlockNumber < fromBlockNumber || toBlockNumber > finalBlockNumber) {
+        throw Error(
+            `The backfill must end between ${fromBlockNumber} and ${finalBlockNumber}, the latest final block`
+        );
+    }
+    return (await BackfillSegmentModel.createSegments(params)).map(i =>
+        i.get({ plain: true })
+    );
+}
+
+export async function getProgress(): Promise<BackfillProgress | null> {
+    const segments = (await BackfillSegmentModel.getUnfinishedSegments()).map(
+        i => i.get({ plain: true })
+    );
+    if (segments.length === 0) {
+        return null;
+    }
+    const count = (from: number, last?: number | null) =>
+        last == null ? 0 : last - from + 1;
+    return {
+        fromBlockNumber: segments[0].fromBlockNumber,
+        toBlockNumber: segments[segments.length - 1].toBlockNumber,
+        indexed: _.sumBy(segments, s =>
+            count(s.fromBlockNumber, s.indexedBlockNumber)
+        ),
+        stitched: _.sumBy(segments, s =>
+            count(s.fromBlockNumber, s.stitchedBlockNumber)
+        )
+    };
+}
+
+/**
+ * Creates the block, transaction and action rows of the segment. Segments can
+ * be indexed in parallel because they don't read the data of the earlier
+ * segments.
+ */
+export async function indexSegment(
+    source: ChainSource,
+    segmentId: string,
+    options: { prefetchCount: number }
+) {
+    const segment = (await BackfillSegmentModel.getById(segmentId))!.get({
+        plain: true
+    });
+    const { fromBlockNumber, toBlockNumber, indexedBlockNumber } = segment;
+    const startBlockNumber =
+        indexedBlockNumber == null ? fromBlockNumber : indexedBlockNumber + 1;
+    const prefetcher = new BlockPrefetcher(
+        source,
+        startBlockNumber,
+        toBlockNumber,
+        options.prefetchCount
+    );
+    for (
+        let blockNumber = startBlockNumber;
+        blockNumber <= toBlockNumber;
+        blockNumber++
+    ) {
+        const { block, miningReward } = await prefetcher.next();
+        for (let attempt = 1; ; attempt++) {
+            const transaction = await models.sequelize.transaction();
+            try {
+                await BlockModel.createRawBlock(block, source, miningReward, {
+                    transaction,
+                    transactions: block.transactions.filter(
+                        tx => !isDeferred(tx)
+                    )
+                });
+                await BackfillSegmentModel.updateProgress(
+                    segmentId,
+                    { indexedBlockNumber: blockNumber },
+                    { transaction }
+                );
+                await transaction.commit();
+                break;
+            } catch (err) {
+                await transaction.rollback();
+                if (attempt >= MAX_ATTEMPTS) {
+                    throw err;
+                }
+                console.error("%d block is retrying...", blockNumber);
+            }
+        }
+    }
+}
+
+/**
+ * Updates the data that depends on the earlier blocks in the order of the
+ * blocks: UTXO, Account, Log, CCCChange and the CCC balance checkpoints. All
+ * the segments must be indexed.
+ */
+export async function stitchSegments(
+    context: WorkerContext,
+    options: { prefetchCount: number; cccCheckpointInterval?: number }
+) {
+    const { cccCheckpointInterval } = options;
+    const { source } = context;
+    const segments = (await BackfillSegmentModel.getUnfinishedSegments()).map(
+        i => i.get({ plain: true })
+    );
+    if (segments.some(s => s.indexedBlockNumber !== s.toBlockNumber)) {
+        throw Error("Some segments are not indexed yet");
+    }
+    for (const segment of segments) {
+        const { fromBlockNumber, toBlockNumber, stitchedBlockNumber } = segment;
+        const startBlockNumber =
+            stitchedBlockNumber == null
+                ? fromBlockNumber
+                : stitchedBlockNumber + 1;
+        const prefetcher = new BlockPrefetcher(
+            source,
+            startBlockNumber,
+            toBlockNumber,
+            options.prefetchCount
+        );
+        for (
+            let blockNumber = startBlockNumber;
+            blockNumber <= toBlockNumber;
+            blockNumber++
+        ) {
+            const blockData = await prefetcher.next();
+            const { block } = blockData;
+            // Same as the worker, which passes it for both block 0 and 1
+            const parentBlock: BlockAttribute | "ParentOfGenesis" =
+                blockNumber > 1
+                    ? (await BlockModel.getByNumber(blockNumber - 1))!.get({
+                          plain: true
+                      })
+                    : "ParentOfGenesis";
+
+            const transaction = await models.sequelize.transaction({
+                isolationLevel:
+                    models.Sequelize.Transaction.ISOLATION_LEVELS.SERIALIZABLE,
+                deferrable: models.Sequelize.Deferrable.SET_DEFERRED
+            });
+            try {
+                await BlockModel.createBlockTransactions(
+                    block.transactions.filter(isDeferred),
+                    block.timestamp,
+                    { transaction }
+                );
+                await TxModel.refreshSigners(block.transactions, blockNumber, {
+                    transaction
+                });
+                await BlockModel.applyTransactions(
+                    block.transactions,
+                    source,
+                    blockNumber,
+                    { transaction }
+                );
+                await indexDerivedData(
+                    context,
+                    parentBlock,
+                    blockData,
+                    transaction
+                );
+                if (
+                    cccCheckpointInterval &&
+                    blockNumber % cccCheckpointInterval === 0
+                ) {
+                    await CCCBalanceModel.createCheckpoints(blockNumber, {
+                        transaction
+                    });
+                }
+                await BackfillSegmentModel.updateProgress(
+                    segment.id!,
+                    { stitchedBlockNumber: blockNumber },
+                    { transaction }
+                );
+                await transaction.commit();
+            } catch (err) {
+                await transaction.rollback();
+                throw err;
+            }
+        }
+    }
+}
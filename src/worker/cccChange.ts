@@ -1,42 +1,41 @@
-import { SDK } from "codechain-sdk";
 import { Block, U64 } from "codechain-sdk/lib/core/classes";
 import { Transaction } from "sequelize";
 import { BlockAttribute } from "../models/block";
 import * as BlockModel from "../models/logic/block";
 import * as CCCChangeModel from "../models/logic/cccChange";
 import { getBecomeEligible } from "../models/logic/utils/custom";
+import { ChainSource, TermMetadata } from "../source";
 import * as dynamicFeeDistribution from "./dynamicFeeDistribution";
 import * as staticFeeDistribution from "./staticFeeDistribution";
 
 export async function updateCCCChange(
-    sdk: SDK,
+    source: ChainSource,
     block: Block,
     parentBlock: BlockAttribute | "ParentOfGenesis",
     miningReward: U64,
+    parentTermMetadata: TermMetadata | null,
     transaction: Transaction
 ): Promise<void> {
     if (block.number === 0) {
-        await staticFeeDistribution.initialDistribute(sdk, transaction);
+        await staticFeeDistribution.initialDistribute(source, transaction);
         return;
     }
 
     const commonParams = await dynamicFeeDistribution.getCommonParams(
-        sdk,
+        source,
         block.number - 1
     );
 
     // When a block closes a term, the current term from "chain_getTermMetadata" is changed to the next term.
     // To get the "real" current term of the block, we use the parent block number.
-    const [, currentTerm] = await sdk.rpc.sendRpcRequest(
-        "chain_getTermMetadata",
-        [block.number - 1]
-    );
+    const [, currentTerm] =
+        parentTermMetadata || (await source.getTermMetadata(block.number - 1))!;
 
     if (currentTerm === 0) {
         const queries = [];
         queries.push(
             staticFeeDistribution.distributeFee(
-                sdk,
+                source,
                 block.number,
                 block.author,
                 miningReward,
@@ -46,7 +45,7 @@ export async function updateCCCChange(
         );
         queries.push(
             staticFeeDistribution.payFee(
-                sdk,
+                source,
                 block.number,
                 block.transactions,
                 transaction
@@ -54,7 +53,7 @@ export async function updateCCCChange(
         );
         queries.push(
             staticFeeDistribution.trackBalanceChangeByTx(
-                sdk,
+                source,
                 block.number,
                 block.transactions,
                 transaction
@@ -75,7 +74,7 @@ export async function updateCCCChange(
         const queries: Promise<any>[] = [];
         queries.push(
             dynamicFeeDistribution.distributeFee(
-                sdk,
+                source,
                 commonParams,
                 block.number,
                 miningReward,
@@ -86,7 +85,7 @@ export async function updateCCCChange(
 
         queries.push(
             staticFeeDistribution.payFee(
-                sdk,
+                source,
                 block.number,
                 block.transactions,
                 transaction
@@ -94,7 +93,7 @@ export async function updateCCCChange(
         );
         queries.push(
             staticFeeDistribution.trackBalanceChangeByTx(
-                sdk,
+                source,
                 block.number,
                 block.transactions,
                 transaction
@@ -108,12 +107,9 @@ export async function updateCCCChange(
             return;
         }
 
-        const [
-            prevTermEndBlockNumber,
-            currentTermID
-        ] = await sdk.rpc.sendRpcRequest("chain_getTermMetadata", [
-            block.number - 1
-        ]);
+        const [prevTermEndBlockNumber, currentTermID] =
+            parentTermMetadata ||
+            (await source.getTermMetadata(block.number - 1))!;
 
         // If the `block` is the closing block of the term 0, currentTermID is 1.
         if (currentTermID <= 1) {
@@ -121,10 +117,9 @@ export async function updateCCCChange(
             return;
         }
 
-        const [prevPrevTermEndBlockNumber] = await sdk.rpc.sendRpcRequest(
-            "chain_getTermMetadata",
-            [prevTermEndBlockNumber - 1]
-        );
+        const [prevPrevTermEndBlockNumber] = (await source.getTermMetadata(
+            prevTermEndBlockNumber - 1
+        ))!;
 
         const allBlocks = (await BlockModel.getBlocksByNumber(
             prevPrevTermEndBlockNumber + 1,
@@ -136,16 +131,15 @@ export async function updateCCCChange(
             allBlocks.slice(-1)[0]
         ];
 
-        const validators = await sdk.rpc.sendRpcRequest(
-            "chain_getPossibleAuthors",
-            [prevTermEndBlockNumber]
-        );
+        const validators = (await source.getPossibleAuthors(
+            prevTermEndBlockNumber
+        ))!;
 
         const {
             authorRewards,
             penaltyAmount
         } = await dynamicFeeDistribution.applyPenalty({
-            sdk,
+            source,
             currentBlockNumber: block.number,
             termBlocks,
             nextTermStartBlock,
@@ -175,7 +169,7 @@ export async function updateCCCChange(
             })
         );
 
-        const becomeEligibles = await getBecomeEligible(sdk, block.number);
+        const becomeEligibles = await getBecomeEligible(source, block.number);
 
         queries.push(
             Promise.all(
@@ -1,14 +1,14 @@
-import { SDK } from "codechain-sdk";
 import { PlatformAddress, U64 } from "codechain-sdk/lib/core/classes";
+import { ChainSource } from "../source";
 
 const rlp = require("rlp");
 
 export async function getDelegation(
-    sdk: SDK,
+    source: ChainSource,
     delegator: PlatformAddress,
     blockNumber: number
 ): Promise<U64[]> {
-    const data = await sdk.rpc.engine.getCustomActionData(
+    const data = await source.getCustomActionData(
         2,
         ["Delegation", delegator.accountId.toEncodeObject()],
         blockNumber
@@ -1,13 +1,12 @@
 import { PlatformAddress, U64, U64Value } from "codechain-primitives";
-import { SDK } from "codechain-sdk";
 import { SignedTransaction } from "codechain-sdk/lib/core/classes";
-import { getCCSHolders, getUndelegatedCCS } from "codechain-stakeholder-sdk";
 import * as _ from "lodash";
 import { Transaction } from "sequelize";
 import { BlockAttribute } from "../models/block";
 import { CCCChangeInstance } from "../models/cccChanges";
 import * as BlockModel from "../models/logic/block";
 import * as CCCChangeModel from "../models/logic/cccChange";
+import { ChainSource } from "../source";
 import { getDelegation } from "./commonFeeDistribution";
 
 const rlp = require("rlp");
@@ -56,12 +55,10 @@ function U64ValueToNumber(value: U64Value) {
 }
 
 export async function getCommonParams(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number
 ): Promise<CommonParams> {
-    const result = await sdk.rpc.sendRpcRequest("chain_getCommonParams", [
-        blockNumber
-    ]);
+    const result = await source.getCommonParams(blockNumber);
 
     try {
         return {
@@ -162,7 +159,7 @@ export function getMinimumFees(params: CommonParams): MinimumFees {
 }
 
 export async function distributeFee(
-    sdk: SDK,
+    source: ChainSource,
     commonParams: CommonParams,
     blockNumber: number,
     miningReward: U64,
@@ -170,15 +167,17 @@ export async function distributeFee(
     transaction: Transaction
 ): Promise<any[]> {
     const stakeHolders =
-        sdk.networkId === "tc" ? [] : await getCCSHolders(sdk, blockNumber);
+        source.networkId === "tc"
+            ? []
+            : await source.getCCSHolders(blockNumber);
     const stakeBalances: [PlatformAddress, U64][] = await Promise.all(
         stakeHolders.map(
             async holder =>
                 [
                     holder,
-                    (await getDelegation(sdk, holder, blockNumber)).reduce(
+                    (await getDelegation(source, holder, blockNumber)).reduce(
                         U64.plus,
-                        await getUndelegatedCCS(sdk, holder, blockNumber)
+                        await source.getUndelegatedCCS(holder, blockNumber)
                     )
                 ] as [PlatformAddress, U64]
         )
@@ -259,7 +258,7 @@ const MINIMUM_FEES: { [param: string]: (params: CommonParams) => number } = {
 };
 
 export async function applyPenalty({
-    sdk,
+    source,
     currentBlockNumber,
     termBlocks,
     nextTermStartBlock,
@@ -267,7 +266,7 @@ export async function applyPenalty({
     termEndBlockNumber,
     validators
 }: {
-    sdk: SDK;
+    source: ChainSource;
     currentBlockNumber: number;
     termBlocks: BlockAttribute[];
     nextTermStartBlock: BlockAttribute;
@@ -284,7 +283,7 @@ export async function applyPenalty({
     let penaltyAmount = new U64(0);
 
     const bannedAccounts = await getAccountsInState(
-        sdk,
+        source,
         AccountState.Banned,
         currentBlockNumber
     );
@@ -449,12 +448,12 @@ function statesToDecoder(
 }
 
 export async function getAccountsInState(
-    sdk: SDK,
+    source: ChainSource,
     state: QueryableStates,
     blockNumber: number
 ): Promise<string[]> {
     const queryString = statesToString(state);
-    const data = await sdk.rpc.engine.getCustomActionData(
+    const data = await source.getCustomActionData(
         2,
         [queryString],
         blockNumber
@@ -464,7 +463,7 @@ export async function getAccountsInState(
     }
     const decoder = statesToDecoder(state);
     const decoded = rlp.decode(Buffer.from(data, "hex"));
-    return decoder(decoded, sdk.networkId);
+    return decoder(decoded, source.networkId);
 }
 export enum AccountState {
     Eligible,
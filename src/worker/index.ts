@@ -1,77 +1,186 @@
 import * as AsyncLock from "async-lock";
-import { SDK } from "codechain-sdk";
-import { Block } from "codechain-sdk/lib/core/classes";
 import * as _ from "lodash";
 import { Job, scheduleJob } from "node-schedule";
-import { Slack } from "../checker/slack";
-import { InvalidBlockNumber } from "../exception";
+import * as os from "os";
+import { Transaction } from "sequelize";
+import { publishEvent, publishPendingTransactions } from "../events";
+import {
+    BackfillNotFinished,
+    InvalidBlockNumber,
+    LeaseLost,
+    RetractFinalBlock
+} from "../exception";
+import * as Metrics from "../metrics";
 import models from "../models";
 import { BlockAttribute } from "../models/block";
+import * as BackfillSegmentModel from "../models/logic/backfillSegment";
 import * as BlockModel from "../models/logic/block";
+import * as CCCBalanceModel from "../models/logic/cccBalance";
+import * as MempoolSampleModel from "../models/logic/mempoolSample";
+import * as PendingHistoryModel from "../models/logic/pendingTransactionHistory";
+import * as ReorgModel from "../models/logic/reorg";
+import * as RichListModel from "../models/logic/richList";
+import { RichListConfig } from "../models/logic/richList";
 import * as TxModel from "../models/logic/transaction";
+import { strip0xPrefix } from "../models/logic/utils/format";
+import * as WebhookModel from "../models/logic/webhook";
+import * as WorkerLeaseModel from "../models/logic/workerLease";
+import { ReorgAttribute } from "../models/reorg";
+import { Notifier } from "../notifier";
+import { ChainSource } from "../source";
 import * as AccountUtil from "./account";
+import { SyncAlertConfig, SyncAlerts } from "./alert";
 import { updateCCCChange } from "./cccChange";
 import * as LogUtil from "./log";
+import { BlockData, BlockPrefetcher } from "./prefetch";
 
 const ASYNC_LOCK_KEY = "worker";
 
 export interface WorkerContext {
-    sdk: SDK;
-    slack: Slack;
+    source: ChainSource;
+    notifier: Notifier;
 }
 
 export interface WorkerConfig {
     watchSchedule: string;
+    prefetchCount?: number;
+    // Blocks with this many indexed blocks on top of them are never retracted.
+    finalityDepth?: number | null;
+    // Seconds until a standby replica can take over from a dead worker
+    leaseTtl?: number;
+    alerts?: SyncAlertConfig;
+    // Blocks between the CCC balance checkpoints
+    cccCheckpointInterval?: number;
+    // Records the history of the rich list
+    richList?: RichListConfig;
 }
+
+// Only the worker holding the lease writes blocks. The workers of a process
+// share the lease.
+const LEASE_HOLDER = `${os.hostname()}:${process.pid}`;
+const DEFAULT_LEASE_TTL = 60;
+/**
+ * Updates Account, Log and CCCChange for a block that is already created.
+ * They depend on the data of the earlier blocks.
+ */
+export async function indexDerivedData(
+    context: WorkerContext,
+    parentBlock: BlockAttribute | "ParentOfGenesis",
+    blockData: BlockData,
+    transaction: Transaction
+) {
+    const { source } = context;
+    const { block, miningReward, parentTermMetadata, termMetadata } = blockData;
+    const blockInstance = await BlockModel.getByHash(block.hash, {
+        transaction
+    });
+    const blockAttribute = blockInstance!.get({ plain: true });
+    await Metrics.measureStage("updateAccount", () =>
+        AccountUtil.updateAccount(
+            blockAttribute,
+            {
+                checkingBlockNumber: block.number,
+                termMetadata:
+                    parentTermMetadata == null
+                        ? undefined
+                        : [termMetadata, parentTermMetadata]
+            },
+            context,
+            { transaction }
+        )
+    );
+    await Metrics.measureStage("indexLog", () =>
+        LogUtil.indexLog(blockAttribute, false, { transaction })
+    );
+    await Metrics.measureStage("updateCCCChange", () =>
+        updateCCCChange(
+            source,
+            block,
+            parentBlock,
+            miningReward,
+            parentTermMetadata,
+            transaction
+        )
+    );
+}
+
 export default class Worker {
     public context: WorkerContext;
     private watchJob!: Job;
     private config: WorkerConfig;
     private lock: AsyncLock;
+    private stopping = false;
+    private alerts: SyncAlerts;
+    // False while another worker holds the lease
+    private holdsLease = true;
+    // The pending transactions of the last sync, to publish the changes
+    private pendingHashes: string[] | null = null;
 
     constructor(context: WorkerContext, config: WorkerConfig) {
         this.context = context;
         this.config = config;
         this.lock = new AsyncLock({ timeout: 30000, maxPending: 100 });
+        this.alerts = new SyncAlerts(context.notifier, config.alerts || {});
     }
 
-    public destroy() {
+    /**
+     * Stops syncing after the block that is being indexed. Resolves when the
+     * block is committed.
+     */
+    public async destroy() {
+        this.stopping = true;
         if (this.watchJob) {
             this.watchJob.cancel(false);
         }
+        while (this.lock.isBusy(ASYNC_LOCK_KEY)) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        // A standby replica takes over without waiting for the expiry.
+        await WorkerLeaseModel.releaseLease(
+            WorkerLeaseModel.WORKER_LEASE_NAME,
+            LEASE_HOLDER
+        );
     }
 
     public run = async () => {
-        let lastError: Error | null = null;
         this.watchJob = scheduleJob(this.config.watchSchedule, async () => {
-            try {
-                if (this.lock.isBusy(ASYNC_LOCK_KEY) === false) {
+            // A sync that doesn't finish keeps the lock, which the stall
+            // alert catches.
+            if (this.lock.isBusy(ASYNC_LOCK_KEY) === false) {
+                try {
                     await this.sync();
+                    this.alerts.recordSuccess();
+                } catch (err) {
+                    console.error("sync error: ", err);
+                    this.alerts.recordFailure(err);
+                    // The notifier drops the same error in its dedup window.
+                    this.context.notifier.sendError(err && err.message);
                 }
-                lastError = null;
-            } catch (err) {
-                if (
-                    lastError &&
-                    err &&
-                    lastError.name === err.name &&
-                    lastError.message === err.message
-                ) {
-                    return;
-                }
-                lastError = err;
-                console.error("sync error: ", err);
-                this.context.slack.sendError(err && err.message);
+            }
+            // The worker holding the lease alerts
+            if (this.holdsLease && !this.stopping) {
+                this.alerts.evaluate();
             }
         });
         this.watchJob.invoke();
     };
 
     public sync = async () => {
-        const { sdk } = this.context;
-        const chainBestBlockNumber = await sdk.rpc.chain.getBestBlockNumber();
+        const { source } = this.context;
+        const chainBestBlockNumber = await source.getBestBlockNumber();
+        Metrics.chainBestBlockNumber.set(chainBestBlockNumber);
+        this.alerts.setChainBestBlockNumber(chainBestBlockNumber);
         console.log("latest codechain block number : %d", chainBestBlockNumber);
         await this.lock
-            .acquire(ASYNC_LOCK_KEY, () => {
+            .acquire(ASYNC_LOCK_KEY, async () => {
+                if (this.stopping) {
+                    return;
+                }
+                this.holdsLease = await this.renewLease();
+                if (!this.holdsLease) {
+                    console.log("Another worker holds the lease. Standing by");
+                    return;
+                }
                 console.log("================ sync start ==================");
                 return this.indexTransactionsAndSync(chainBestBlockNumber);
             })
@@ -90,7 +199,11 @@ export default class Worker {
     private indexTransactionsAndSync = async (
         chainBestBlockNumber: number
     ): Promise<void> => {
-        const { sdk } = this.context;
+        const { source } = this.context;
+        // The blocks after the backfilled ones need the derived data of them.
+        if ((await BackfillSegmentModel.getUnfinishedSegments()).length > 0) {
+            throw BackfillNotFinished();
+        }
         const latestIndexedBlockInst = await BlockModel.getLatestBlock();
         if (!latestIndexedBlockInst) {
             console.log("There is no synchronized block");
@@ -104,10 +217,33 @@ export default class Worker {
         let lastIndexedBlockNumber = latestIndexedBlockInst
             ? latestIndexedBlockInst.get().number
             : -1;
-        while (lastIndexedBlockNumber < chainBestBlockNumber) {
+        Metrics.indexedBlockNumber.set(lastIndexedBlockNumber);
+        if (latestIndexedBlockInst) {
+            this.alerts.setIndexedBlock(
+                lastIndexedBlockNumber,
+                latestIndexedBlockInst.get().timestamp
+            );
+        }
+        const createPrefetcher = () =>
+            new BlockPrefetcher(
+                source,
+                lastIndexedBlockNumber + 1,
+                chainBestBlockNumber,
+                this.config.prefetchCount || 1
+            );
+        let prefetcher = createPrefetcher();
+        while (
+            lastIndexedBlockNumber < chainBestBlockNumber &&
+            !this.stopping
+        ) {
+            // Stops writing if a standby replica took over
+            if (!(await this.renewLease())) {
+                throw LeaseLost();
+            }
             const nextBlockNumber = lastIndexedBlockNumber + 1;
-            const nextBlock = await sdk.rpc.chain.getBlock(nextBlockNumber);
-            if (!nextBlock) {
+            const nextBlockData = await prefetcher.next();
+            const nextBlock = nextBlockData.block;
+            if (nextBlock.number !== nextBlockNumber) {
                 throw InvalidBlockNumber();
             }
             let lastIndexedBlock: BlockAttribute | "ParentOfGenesis" =
@@ -123,28 +259,73 @@ export default class Worker {
                     lastIndexedBlockNumber = await this.checkRetractAndReturnSyncNumber(
                         lastIndexedBlockNumber
                     );
+                    Metrics.indexedBlockNumber.set(lastIndexedBlockNumber);
+                    await this.updateAlertsIndexedBlock(lastIndexedBlockNumber);
+                    // The prefetched blocks may belong to the retracted chain.
+                    prefetcher = createPrefetcher();
                     continue;
                 }
             }
             console.log("%d block is indexing...", nextBlockNumber);
-            await this.indexNewBlock(lastIndexedBlock, nextBlock);
+            await this.indexNewBlock(lastIndexedBlock, nextBlockData);
+            await PendingHistoryModel.markMined(
+                nextBlock.transactions.map(tx =>
+                    strip0xPrefix(tx.hash().value)
+                ),
+                nextBlockNumber
+            );
             // FIXME: It's slow due to the getSignerAddress()
             await TxModel.removeOutdatedPendings(nextBlock.transactions);
             console.log("%d block is synchronized", nextBlockNumber);
             lastIndexedBlockNumber = nextBlockNumber;
+            Metrics.indexedBlockNumber.set(lastIndexedBlockNumber);
+            this.alerts.setIndexedBlock(nextBlockNumber, nextBlock.timestamp);
+        }
+        if (this.stopping) {
+            return;
+        }
+        if (this.config.richList) {
+            // The statistics don't block the sync
+            try {
+                await RichListModel.recordHistoryIfNeeded(this.config.richList);
+            } catch (err) {
+                console.error("rich list history error: ", err);
+            }
         }
         await this.indexPendingTransaction();
     };
 
+    private updateAlertsIndexedBlock = async (blockNumber: number) => {
+        const blockInst = await BlockModel.getByNumber(blockNumber);
+        if (blockInst) {
+            this.alerts.setIndexedBlock(
+                blockNumber,
+                blockInst.get("timestamp")
+            );
+        }
+    };
+
+    private renewLease = () =>
+        WorkerLeaseModel.acquireLease(
+            WorkerLeaseModel.WORKER_LEASE_NAME,
+            LEASE_HOLDER,
+            this.config.leaseTtl || DEFAULT_LEASE_TTL
+        );
+
     private checkRetractAndReturnSyncNumber = async (
         currentBlockNumber: number
     ) => {
-        const { sdk } = this.context;
+        const { source, notifier } = this.context;
+        const { finalityDepth } = this.config;
+        const finalBlockNumber =
+            finalityDepth == null ? -1 : currentBlockNumber - finalityDepth;
+        const retractedBlocks: BlockAttribute[] = [];
+        const newHashes: string[] = [];
         while (currentBlockNumber > -1) {
             const currentIndexedBlock = (await BlockModel.getByNumber(
                 currentBlockNumber
             ))!.get({ plain: true });
-            const currentCodeChainBlock = await sdk.rpc.chain.getBlock(
+            const currentCodeChainBlock = await source.getBlock(
                 currentBlockNumber
             );
             if (!currentCodeChainBlock) {
@@ -154,55 +335,109 @@ export default class Worker {
             if (currentCodeChainBlock.hash.value === currentIndexedBlock.hash) {
                 break;
             }
+            if (currentBlockNumber <= finalBlockNumber) {
+                console.error(
+                    "%d block is final but CodeChain has %s",
+                    currentBlockNumber,
+                    currentCodeChainBlock.hash.value
+                );
+                throw RetractFinalBlock();
+            }
 
-            console.log("%d block is retracting...", currentBlockNumber);
-            await this.deleteBlock(currentIndexedBlock);
-            console.log("%d block is retracted", currentBlockNumber);
+            retractedBlocks.push(currentIndexedBlock);
+            newHashes.push(currentCodeChainBlock.hash.value);
             currentBlockNumber--;
         }
+
+        if (retractedBlocks.length === 0) {
+            return currentBlockNumber;
+        }
+        // The reorg is journaled with the deletions, so that a failed
+        // deletion journals the same reorg again on the next sync.
+        const transaction = await models.sequelize.transaction();
+        let reorg: ReorgAttribute;
+        try {
+            reorg = (await ReorgModel.createReorg(
+                { retractedBlocks, newHashes },
+                { transaction }
+            )).get({ plain: true });
+            // Delivered on the commit before the retracted blocks
+            await publishEvent(
+                {
+                    type: "reorg",
+                    reorgId: reorg.id!,
+                    forkBlockNumber: reorg.forkBlockNumber,
+                    depth: reorg.depth
+                },
+                { transaction }
+            );
+            for (const block of retractedBlocks) {
+                console.log("%d block is retracting...", block.number);
+                await this.deleteBlock(block, transaction);
+            }
+            await transaction.commit();
+        } catch (err) {
+            await transaction.rollback();
+            throw err;
+        }
+        console.log("%d block(s) are retracted", retractedBlocks.length);
+        Metrics.reorgs.inc();
+        notifier.sendWarning(
+            `Reorg ${reorg.id}: ${reorg.depth} block(s) after block ${
+                reorg.forkBlockNumber
+            } are retracted with ${
+                reorg.retractedTransactionHashes.length
+            } transaction(s)`
+        );
         return currentBlockNumber;
     };
 
     private indexNewBlock = async (
         parentBlock: BlockAttribute | "ParentOfGenesis",
-        block: Block
+        blockData: BlockData
     ) => {
-        const { sdk } = this.context;
+        const { source } = this.context;
+        const { block, miningReward } = blockData;
 
-        const miningReward = await sdk.rpc.chain.getMiningReward(block.number);
-        if (miningReward == null) {
-            throw InvalidBlockNumber();
-        }
         const transaction = await models.sequelize.transaction({
             isolationLevel:
                 models.Sequelize.Transaction.ISOLATION_LEVELS.SERIALIZABLE,
             deferrable: models.Sequelize.Deferrable.SET_DEFERRED
         });
         try {
-            await BlockModel.createBlock(block, sdk, miningReward, {
-                transaction
-            });
-            const blockInstance = await BlockModel.getByHash(block.hash, {
+            await Metrics.measureStage("createBlock", () =>
+                BlockModel.createBlock(block, source, miningReward, {
+                    transaction
+                })
+            );
+            await indexDerivedData(
+                this.context,
+                parentBlock,
+                blockData,
                 transaction
-            });
-            const blockAttribute = blockInstance!.get({ plain: true });
-            await AccountUtil.updateAccount(
-                blockAttribute,
+            );
+            const { cccCheckpointInterval } = this.config;
+            if (
+                cccCheckpointInterval &&
+                block.number % cccCheckpointInterval === 0
+            ) {
+                await CCCBalanceModel.createCheckpoints(block.number, {
+                    transaction
+                });
+            }
+            await WebhookModel.enqueueDeliveries(
+                { number: block.number, hash: block.hash.value },
+                { transaction }
+            );
+            // Delivered on the commit
+            await publishEvent(
                 {
-                    checkingBlockNumber: block.number
+                    type: "block",
+                    blockNumber: block.number,
+                    hash: block.hash.value
                 },
-                this.context,
                 { transaction }
             );
-            await LogUtil.indexLog(blockAttribute, false, { transaction });
-
-            await updateCCCChange(
-                sdk,
-                block,
-                parentBlock,
-                miningReward,
-                transaction
-            );
 
             await transaction.commit();
         } catch (err) {
@@ -211,23 +446,38 @@ export default class Worker {
         }
     };
 
-    private deleteBlock = async (block: BlockAttribute) => {
-        await BlockModel.deleteBlockByNumber(block.number);
+    private deleteBlock = async (
+        block: BlockAttribute,
+        transaction: Transaction
+    ) => {
+        // The deliveries are retracted with the deletion, so that a failed
+        // deletion retracts them again on the next sync.
+        await WebhookModel.retractDeliveries(block, { transaction });
+        await BlockModel.deleteBlockByNumber(block.number, { transaction });
         await AccountUtil.updateAccount(
             block,
             {
                 checkingBlockNumber: block.number - 1
             },
-            this.context
+            this.context,
+            { transaction }
+        );
+        await LogUtil.indexLog(block, true, { transaction });
+        // Delivered on the commit
+        await publishEvent(
+            {
+                type: "blockRetracted",
+                blockNumber: block.number,
+                hash: block.hash
+            },
+            { transaction }
         );
-        await LogUtil.indexLog(block, true);
     };
 
     private indexPendingTransaction = async () => {
         console.log("======== indexing pending transactions =======");
-        const {
-            transactions
-        } = await this.context.sdk.rpc.chain.getPendingTransactions();
+        const transactions = await this.context.source.getPendingTransactions();
+        Metrics.pendingTransactions.set(transactions.length);
         const indexedHashes = await TxModel.getAllPendingTransactionHashes();
 
         console.log(
@@ -245,5 +495,20 @@ export default class Worker {
             pending => !_.includes(indexedHashes, pending.hash().value)
         );
         await TxModel.createTransactions(newPendingTransactions, true);
+        const now = Math.floor(Date.now() / 1000);
+        await PendingHistoryModel.updateMempool(
+            transactions.map(tx => strip0xPrefix(tx.hash().value)),
+            now
+        );
+        await MempoolSampleModel.createSample(transactions.length, now);
+
+        // The mined, replaced and new ones since the last sync
+        const previousHashes = this.pendingHashes || indexedHashes;
+        const pendingHashes = await TxModel.getAllPendingTransactionHashes();
+        await publishPendingTransactions(
+            _.difference(pendingHashes, previousHashes),
+            _.difference(previousHashes, pendingHashes)
+        );
+        this.pendingHashes = pendingHashes;
     };
 }
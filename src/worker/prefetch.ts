@@ -0,0 +1,82 @@
+import { Block, U64 } from "codechain-sdk/lib/core/classes";
+import { InvalidBlockNumber } from "../exception";
+import { ChainSource, TermMetadata } from "../source";
+
+export interface BlockData {
+    block: Block;
+    miningReward: U64;
+    // "chain_getTermMetadata" of the parent block. null for the genesis block.
+    parentTermMetadata: TermMetadata | null;
+    // "chain_getTermMetadata" of the block itself.
+    termMetadata: TermMetadata;
+}
+
+export async function fetchBlockData(
+    source: ChainSource,
+    blockNumber: number
+): Promise<BlockData> {
+    const [
+        block,
+        miningReward,
+        parentTermMetadata,
+        termMetadata
+    ] = await Promise.all([
+        source.getBlock(blockNumber),
+        source.getMiningReward(blockNumber),
+        blockNumber > 0
+            ? source.getTermMetadata(blockNumber - 1)
+            : Promise.resolve(null),
+        source.getTermMetadata(blockNumber)
+    ]);
+    if (block == null || miningReward == null || termMetadata == null) {
+        throw InvalidBlockNumber();
+    }
+    return {
+        block,
+        miningReward,
+        parentTermMetadata,
+        termMetadata
+    };
+}
+
+/**
+ * Fetches up to `windowSize` blocks ahead of the block being indexed.
+ * Blocks are handed out strictly in the order of their numbers.
+ */
+export class BlockPrefetcher {
+    private readonly queue: Promise<BlockData>[] = [];
+    private nextBlockNumber: number;
+
+    constructor(
+        private readonly source: ChainSource,
+        fromBlockNumber: number,
+        private readonly toBlockNumber: number,
+        private readonly windowSize: number
+    ) {
+        this.nextBlockNumber = fromBlockNumber;
+        this.fill();
+    }
+
+    public next(): Promise<BlockData> {
+        const data = this.queue.shift();
+        if (data == null) {
+            throw InvalidBlockNumber();
+        }
+        this.fill();
+        return data;
+    }
+
+    private fill() {
+        while (
+            this.queue.length < Math.max(this.windowSize, 1) &&
+            this.nextBlockNumber <= this.toBlockNumber
+        ) {
+            const data = fetchBlockData(this.source, this.nextBlockNumber);
+            // The error is thrown again when the caller takes the block.
+            // Prefetched blocks can be discarded without being taken.
+            data.catch(() => undefined);
+            this.queue.push(data);
+            this.nextBlockNumber += 1;
+        }
+    }
+}
@@ -0,0 +1,410 @@
+import * as _ from "lodash";
+import * as moment from "moment";
+import * as Sequelize from "sequelize";
+import { Transaction } from "sequelize";
+import models from "../models";
+import { BlockAttribute } from "../models/block";
+import * as BlockModel from "../models/logic/block";
+import * as CCCBalanceModel from "../models/logic/cccBalance";
+import { getTransactionLogs } from "../models/logic/transactionLog";
+import { getAffectedAddresses, updateAccounts } from "./account";
+import { updateCCCChange } from "./cccChange";
+import { WorkerContext } from "./index";
+import { indexLog } from "./log";
+import { fetchBlockData } from "./prefetch";
+
+export type DerivedTable =
+    | "AddressLogs"
+    | "AssetAddressLogs"
+    | "AssetTypeLogs"
+    | "Logs"
+    | "CCCChanges"
+    | "Accounts";
+
+// In the order of rebuilding. Accounts reads AddressLogs.
+export const DERIVED_TABLES: DerivedTable[] = [
+    "AddressLogs",
+    "AssetAddressLogs",
+    "AssetTypeLogs",
+    "Logs",
+    "CCCChanges",
+    "Accounts"
+];
+
+export interface TableDiff {
+    table: DerivedTable;
+    removed: object[];
+    added: object[];
+}
+
+interface Range {
+    fromBlockNumber: number;
+    toBlockNumber: number;
+}
+
+/**
+ * Recomputes the derived tables of the indexed blocks in the range. All the
+ * tables are rebuilt in a transaction, which is rolled back on a dry run.
+ * Returns the rows that are removed and added.
+ */
+export async function rebuild(
+    context: WorkerContext,
+    params: Range & {
+        tables: DerivedTable[];
+        dryRun: boolean;
+    }
+): Promise<TableDiff[]> {
+    const { fromBlockNumber, toBlockNumber, tables, dryRun } = params;
+    const latestBlockInst = await BlockModel.getLatestBlock();
+    const latestBlockNumber = latestBlockInst
+        ? latestBlockInst.get("number")
+        : -1;
+    if (
+        fromBlockNumber < 0 ||
+        fromBlockNumber > toBlockNumber ||
+        toBlockNumber > latestBlockNumber
+    ) {
+        throw Error(
+            `The range must be in the indexed blocks from 0 to ${latestBlockNumber}`
+        );
+    }
+
+    const diffs: TableDiff[] = [];
+    const transaction = await models.sequelize.transaction();
+    try {
+        const logTables = tables.filter(table =>
+            _.includes(
+                ["AddressLogs", "AssetAddressLogs", "AssetTypeLogs"],
+                table
+            )
+        );
+        if (logTables.length > 0) {
+            diffs.push(
+                ...(await rebuildTransactionLogs(
+                    context,
+                    params,
+                    logTables,
+                    transaction
+                ))
+            );
+        }
+        if (_.includes(tables, "Logs")) {
+            diffs.push(await rebuildLogs(params, transaction));
+        }
+        if (_.includes(tables, "CCCChanges")) {
+            diffs.push(await rebuildCCCChanges(context, params, transaction));
+            await CCCBalanceModel.rebuildCheckpoints(fromBlockNumber, {
+                transaction
+            });
+        }
+        if (_.includes(tables, "Accounts")) {
+            diffs.push(
+                await rebuildAccounts(
+                    context,
+                    params,
+                    latestBlockNumber,
+                    transaction
+                )
+            );
+        }
+        if (dryRun) {
+            await transaction.rollback();
+        } else {
+            await transaction.commit();
+        }
+    } catch (err) {
+        await transaction.rollback();
+        throw err;
+    }
+    return _.sortBy(diffs, diff => DERIVED_TABLES.indexOf(diff.table));
+}
+
+async function rebuildTransactionLogs(
+    context: WorkerContext,
+    range: Range,
+    tables: DerivedTable[],
+    transaction: Transaction
+): Promise<TableDiff[]> {
+    const { fromBlockNumber, toBlockNumber } = range;
+    const targets = tables.map(table => {
+        switch (table) {
+            case "AddressLogs":
+                return {
+                    table,
+                    model: models.AddressLog as Sequelize.Model<any, any>,
+                    key: "addressLogs" as "addressLogs",
+                    attributes: ["address", "type"]
+                };
+            case "AssetAddressLogs":
+                return {
+                    table,
+                    model: models.AssetAddressLog as Sequelize.Model<any, any>,
+                    key: "assetAddressLogs" as "assetAddressLogs",
+                    attributes: ["address", "assetType"]
+                };
+            default:
+                return {
+                    table,
+                    model: models.AssetTypeLog as Sequelize.Model<any, any>,
+                    key: "assetTypeLogs" as "assetTypeLogs",
+                    attributes: ["assetType"]
+                };
+        }
+    });
+    const where = {
+        blockNumber: {
+            [Sequelize.Op.between]: [fromBlockNumber, toBlockNumber]
+        }
+    };
+    const snapshot = () =>
+        Promise.all(
+            targets.map(({ model, attributes }) =>
+                findRows(
+                    model,
+                    [
+                        "transactionHash",
+                        "transactionTracker",
+                        "transactionType",
+                        "blockNumber",
+                        "transactionIndex",
+                        "isPending",
+                        ...attributes
+                    ],
+                    where,
+                    transaction
+                )
+            )
+        );
+
+    const before = await snapshot();
+    for (const { model } of targets) {
+        await model.destroy({ where, transaction });
+    }
+    for (
+        let blockNumber = fromBlockNumber;
+        blockNumber <= toBlockNumber;
+        blockNumber++
+    ) {
+        const block = await getIndexedBlock(context, blockNumber);
+        const signers = await models.Transaction.findAll({
+            attributes: ["hash", "signer"],
+            where: { blockNumber },
+            transaction
+        }).then(instances =>
+            _.fromPairs(
+                instances.map(
+                    i => [i.get("hash"), i.get("signer")] as [string, string]
+                )
+            )
+        );
+        for (const tx of block.transactions) {
+            const logs = await getTransactionLogs(
+                tx,
+                signers[tx.hash().value],
+                { transaction }
+            );
+            for (const { model, key } of targets) {
+                await model.bulkCreate(logs[key], { transaction });
+            }
+        }
+    }
+    const after = await snapshot();
+    return targets.map(({ table }, i) => diffRows(table, before[i], after[i]));
+}
+
+// The Logs are counted by day. Every indexed block of the days is counted.
+async function rebuildLogs(
+    range: Range,
+    transaction: Transaction
+): Promise<TableDiff> {
+    const blocks = await models.Block.findAll({
+        attributes: ["timestamp"],
+        where: {
+            number: {
+                [Sequelize.Op.between]: [
+                    range.fromBlockNumber,
+                    range.toBlockNumber
+                ]
+            }
+        },
+        transaction
+    });
+    const days = _.uniq(
+        blocks.map(block =>
+            moment
+                .unix(block.get("timestamp"))
+                .utc()
+                .format("YYYY-MM-DD")
+        )
+    );
+    const snapshot = () =>
+        findRows(
+            models.Log,
+            ["date", "type", "value", "count"],
+            { date: days },
+            transaction
+        );
+
+    const before = await snapshot();
+    await models.Log.destroy({ where: { date: days }, transaction });
+    for (const day of days) {
+        const start = moment.utc(day, "YYYY-MM-DD");
+        const blocksOfDay = await models.Block.findAll({
+            where: {
+                timestamp: {
+                    [Sequelize.Op.gte]: start.unix(),
+                    [Sequelize.Op.lt]: start.add(1, "day").unix()
+                }
+            },
+            order: [["number", "ASC"]],
+            transaction
+        });
+        for (const block of blocksOfDay) {
+            await indexLog(block.get({ plain: true }), false, { transaction });
+        }
+    }
+    const after = await snapshot();
+    return diffRows("Logs", before, after);
+}
+
+async function rebuildCCCChanges(
+    context: WorkerContext,
+    range: Range,
+    transaction: Transaction
+): Promise<TableDiff> {
+    const { source } = context;
+    const { fromBlockNumber, toBlockNumber } = range;
+    const where = {
+        blockNumber: {
+            [Sequelize.Op.between]: [fromBlockNumber, toBlockNumber]
+        }
+    };
+    const snapshot = () =>
+        findRows(
+            models.CCCChange,
+            ["address", "change", "blockNumber", "reason", "transactionHash"],
+            where,
+            transaction
+        );
+
+    const before = await snapshot();
+    await models.CCCChange.destroy({ where, transaction });
+    for (
+        let blockNumber = fromBlockNumber;
+        blockNumber <= toBlockNumber;
+        blockNumber++
+    ) {
+        const {
+            block,
+            miningReward,
+            parentTermMetadata
+        } = await fetchBlockData(source, blockNumber);
+        await checkIndexedBlock(blockNumber, block.hash.value);
+        // Same as the worker, which passes it for both block 0 and 1
+        const parentBlock: BlockAttribute | "ParentOfGenesis" =
+            blockNumber > 1
+                ? (await BlockModel.getByNumber(blockNumber - 1))!.get({
+                      plain: true
+                  })
+                : "ParentOfGenesis";
+        await updateCCCChange(
+            source,
+            block,
+            parentBlock,
+            miningReward,
+            parentTermMetadata,
+            transaction
+        );
+    }
+    const after = await snapshot();
+    return diffRows("CCCChanges", before, after);
+}
+
+// Accounts hold the latest state. The accounts that the blocks in the range
+// affect are updated to the latest indexed block.
+async function rebuildAccounts(
+    context: WorkerContext,
+    range: Range,
+    latestBlockNumber: number,
+    transaction: Transaction
+): Promise<TableDiff> {
+    const addresses: string[] = [];
+    for (
+        let blockNumber = range.fromBlockNumber;
+        blockNumber <= range.toBlockNumber;
+        blockNumber++
+    ) {
+        const block = (await BlockModel.getByNumber(blockNumber))!.get({
+            plain: true
+        });
+        addresses.push(
+            ...(await getAffectedAddresses(block, {}, context, {
+                transaction
+            }))
+        );
+    }
+    const uniqAddresses = _.uniq(addresses);
+    const snapshot = () =>
+        findRows(
+            models.Account,
+            ["address", "balance", "seq"],
+            { address: uniqAddresses },
+            transaction
+        );
+
+    const before = await snapshot();
+    await updateAccounts(uniqAddresses, latestBlockNumber, context, {
+        transaction
+    });
+    const after = await snapshot();
+    return diffRows("Accounts", before, after);
+}
+
+async function getIndexedBlock(context: WorkerContext, blockNumber: number) {
+    const block = (await context.source.getBlock(blockNumber))!;
+    await checkIndexedBlock(blockNumber, block.hash.value);
+    return block;
+}
+
+async function checkIndexedBlock(blockNumber: number, hash: string) {
+    const indexedBlockInst = await BlockModel.getByNumber(blockNumber);
+    if (indexedBlockInst == null || indexedBlockInst.get("hash") !== hash) {
+        throw Error(`${blockNumber} block of CodeChain is not indexed`);
+    }
+}
+
+async function findRows(
+    model: Sequelize.Model<any, any>,
+    attributes: string[],
+    where: Sequelize.WhereOptions<any>,
+    transaction: Transaction
+): Promise<object[]> {
+    return model
+        .findAll({ attributes, where, transaction })
+        .then(instances => instances.map(i => i.get({ plain: true })));
+}
+
+function diffRows(
+    table: DerivedTable,
+    before: object[],
+    after: object[]
+): TableDiff {
+    return {
+        table,
+        removed: subtractRows(before, after),
+        added: subtractRows(after, before)
+    };
+}
+
+// Rows are compared by value. Duplicated rows are counted.
+function subtractRows(rows: object[], others: object[]): object[] {
+    const remaining = _.countBy(others, other => JSON.stringify(other));
+    return rows.filter(row => {
+        const key = JSON.stringify(row);
+        if (remaining[key] > 0) {
+            remaining[key] -= 1;
+            return false;
+        }
+        return true;
+    });
+}
@@ -2,20 +2,16 @@ import { H512, PlatformAddress, U64 } from "codechain-primitives";
 import { SDK } from "codechain-sdk";
 import { SignedTransaction, UnwrapCCC } from "codechain-sdk/lib/core/classes";
 import { Custom } from "codechain-sdk/lib/core/transaction/Custom";
-import {
-    actionFromCustom as stakeActionFromCustom,
-    getCandidates,
-    getCCSHolders,
-    getUndelegatedCCS
-} from "codechain-stakeholder-sdk";
+import { actionFromCustom as stakeActionFromCustom } from "codechain-stakeholder-sdk";
 import { Transaction } from "sequelize";
 import { CCCChangeInstance } from "../models/cccChanges";
 import * as CCCChangeModel from "../models/logic/cccChange";
 import * as TransactionModel from "../models/logic/transaction";
+import { ChainSource } from "../source";
 import { getDelegation } from "./commonFeeDistribution";
 
 export async function distributeFee(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number,
     blockAuthor: PlatformAddress,
     miningReward: U64,
@@ -23,15 +19,17 @@ export async function distributeFee(
     transaction: Transaction
 ): Promise<(CCCChangeInstance | undefined)[]> {
     const stakeHolders =
-        sdk.networkId === "tc" ? [] : await getCCSHolders(sdk, blockNumber);
+        source.networkId === "tc"
+            ? []
+            : await source.getCCSHolders(blockNumber);
     const stakeBalances: [PlatformAddress, U64][] = await Promise.all(
         stakeHolders.map(
             async holder =>
                 [
                     holder,
-                    (await getDelegation(sdk, holder, blockNumber)).reduce(
+                    (await getDelegation(source, holder, blockNumber)).reduce(
                         U64.plus,
-                        await getUndelegatedCCS(sdk, holder, blockNumber)
+                        await source.getUndelegatedCCS(holder, blockNumber)
                     )
                 ] as [PlatformAddress, U64]
         )
@@ -96,13 +94,13 @@ function minFee(transactionType: string): Promise<number | null> {
 }
 
 export async function initialDistribute(
-    sdk: SDK,
+    source: ChainSource,
     transaction: Transaction
 ): Promise<(CCCChangeInstance | undefined)[]> {
-    const accounts = await sdk.rpc.chain.getGenesisAccounts();
+    const accounts = await source.getGenesisAccounts();
     return Promise.all(
         accounts.map(async account => {
-            const change = await sdk.rpc.chain.getBalance(account, 0);
+            const change = await source.getBalance(account, 0);
             if (change.isEqualTo(0)) {
                 return;
             }
@@ -131,7 +129,7 @@ const MINIMUM_FEES: { [param: string]: number } = {
 };
 
 async function getFeePayer(
-    sdk: SDK,
+    source: ChainSource,
     signerPublic: H512,
     blockNumber: number,
     transaction: Transaction
@@ -141,12 +139,14 @@ async function getFeePayer(
         { blockNumber, transaction }
     );
     return owner == null
-        ? PlatformAddress.fromPublic(signerPublic, { networkId: sdk.networkId })
+        ? PlatformAddress.fromPublic(signerPublic, {
+              networkId: source.networkId
+          })
         : PlatformAddress.ensure(owner);
 }
 
 export async function payFee(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number,
     transactions: SignedTransaction[],
     transaction: Transaction
@@ -155,7 +155,7 @@ export async function payFee(
     for (const tx of transactions) {
         const signerPublic = tx.getSignerPublic();
         const address = (await getFeePayer(
-            sdk,
+            source,
             signerPublic,
             blockNumber,
             transaction
@@ -181,13 +181,13 @@ export async function payFee(
 }
 
 async function getDeposit(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number,
     pubkey: H512,
     transaction: Transaction
 ): Promise<U64> {
     // Get the deposit at the previous block
-    const candidates = await getCandidates(sdk, blockNumber - 1);
+    const candidates = await source.getCandidates(blockNumber - 1);
     const target = candidates.find(c => c.pubkey.isEqualTo(pubkey));
     let deposit = new U64(0);
     if (target != null) {
@@ -196,7 +196,7 @@ async function getDeposit(
 
     // Get the accumulated self nomination transactions
     const address = PlatformAddress.fromPublic(pubkey, {
-        networkId: sdk.networkId
+        networkId: source.networkId
     });
     const nominations = await CCCChangeModel.getNominations(
         address.toString(),
@@ -216,7 +216,7 @@ async function getDeposit(
 }
 
 export async function trackBalanceChangeByTx(
-    sdk: SDK,
+    source: ChainSource,
     blockNumber: number,
     transactions: SignedTransaction[],
     transaction: Transaction
@@ -230,7 +230,7 @@ export async function trackBalanceChangeByTx(
                 const receiver = pay.receiver.value;
                 const change = pay.quantity;
                 const sender = (await getFeePayer(
-                    sdk,
+                    source,
                     tx.getSignerPublic(),
                     blockNumber,
                     transaction
@@ -267,7 +267,7 @@ export async function trackBalanceChangeByTx(
             }
             case "wrapCCC": {
                 const receiver = (await getFeePayer(
-                    sdk,
+                    source,
                     tx.getSignerPublic(),
                     blockNumber,
                     transaction
@@ -290,7 +290,7 @@ export async function trackBalanceChangeByTx(
             }
             case "unwrapCCC": {
                 const receiver = (await getFeePayer(
-                    sdk,
+                    source,
                     tx.getSignerPublic(),
                     blockNumber,
                     transaction
@@ -312,8 +312,9 @@ export async function trackBalanceChangeByTx(
                 break;
             }
             case "custom": {
+                // actionFromCustom reads nothing but the network ID from the SDK.
                 const stakeAction = stakeActionFromCustom(
-                    sdk,
+                    { networkId: source.networkId } as SDK,
                     tx.unsigned as Custom
                 );
                 if (stakeAction === null) {
@@ -322,7 +323,7 @@ export async function trackBalanceChangeByTx(
                 switch (stakeAction.type) {
                     case "selfNominate": {
                         const signer = tx.getSignerAddress({
-                            networkId: sdk.networkId
+                            networkId: source.networkId
                         });
                         const deposit = stakeAction.deposit;
                         if (deposit.isGreaterThan(0)) {
@@ -343,11 +344,11 @@ export async function trackBalanceChangeByTx(
                     }
                     case "reportDoubleVote": {
                         const signer = tx.getSignerAddress({
-                            networkId: sdk.networkId
+                            networkId: source.networkId
                         });
                         const criminal = stakeAction.criminal();
                         const deposit = await getDeposit(
-                            sdk,
+                            source,
                             blockNumber,
                             criminal,
                             transaction
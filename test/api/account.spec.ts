@@ -1,3 +1,4 @@
+import BigNumber from "bignumber.js";
 import * as bodyParser from "body-parser";
 import { expect } from "chai";
 import * as express from "express";
@@ -6,7 +7,12 @@ import * as request from "supertest";
 
 import { MintAsset } from "codechain-sdk/lib/core/classes";
 
+import { IndexerConfig } from "../../src/config";
 import { IndexerContext } from "../../src/context";
+import * as BlockModel from "../../src/models/logic/block";
+import * as CCCBalanceModel from "../../src/models/logic/cccBalance";
+import * as CCCChangeModel from "../../src/models/logic/cccChange";
+import * as RichListModel from "../../src/models/logic/richList";
 import { createServer } from "../../src/server";
 import * as Helper from "../helper";
 
@@ -106,4 +112,231 @@ describe("account-api", function() {
             .expect(200)
             .expect(res => expect(res).not.be.null);
     });
+
+    it("api /account/{address}/export as csv", async function() {
+        const { text } = await request(app)
+            .get(`/api/account/${Helper.ACCOUNT_ADDRESS}/export?type=mintAsset`)
+            .expect(200)
+            .expect("Content-Type", /text\/csv/);
+        const [header, ...lines] = text.trim().split("\r\n");
+        expect(header).equal(
+            "time,blockNumber,transactionIndex,hash,type,success,roles,counterparty,cccDelta,assetDeltas,fee"
+        );
+        expect(lines).length(1);
+        for (const line of lines) {
+            expect(line.split(",")[4]).equal("mintAsset");
+        }
+    });
+
+    it("api /account/{address}/export as ndjson", async function() {
+        const { text } = await request(app)
+            .get(`/api/account/${bobAddress}/export?format=ndjson`)
+            .expect(200)
+            .expect("Content-Type", /application\/x-ndjson/);
+        const rows = text
+            .trim()
+            .split("\n")
+            .map(line => JSON.parse(line));
+        expect(rows).length(1);
+        expect(rows[0].type).equal("transferAsset");
+        expect(rows[0].roles).deep.equal(["AssetOwner"]);
+        expect(rows[0].assetDeltas).deep.equal({
+            [mintTx.getMintedAsset().assetType.value]: "3000"
+        });
+    });
+
+    it("api /account/{address}/export with a block range", async function() {
+        const { text } = await request(app)
+            .get(
+                `/api/account/${bobAddress}/export?format=ndjson&toBlockNumber=0`
+            )
+            .expect(200);
+        expect(text).equal("");
+        await request(app)
+            .get(`/api/account/invalid/export`)
+            .expect(400);
+    });
+
+    it("api /account/{address}/statement", async function() {
+        const { body: account } = await request(app)
+            .get(`/api/account/${Helper.ACCOUNT_ADDRESS}`)
+            .expect(200);
+        const { body: statement } = await request(app)
+            .get(
+                `/api/account/${
+                    Helper.ACCOUNT_ADDRESS
+                }/statement?period=week&timezone=Asia/Seoul`
+            )
+            .expect(200);
+        expect(statement).not.empty;
+        expect(statement[0].openingBalance).equal("0");
+        expect(statement[statement.length - 1].closingBalance).equal(
+            account.balance
+        );
+        statement.forEach((period: any, index: number) => {
+            if (index > 0) {
+                expect(period.openingBalance).equal(
+                    statement[index - 1].closingBalance
+                );
+            }
+            const total = Object.keys(period.totals).reduce(
+                (sum, reason) => sum.plus(period.totals[reason]),
+                new BigNumber(period.openingBalance)
+            );
+            expect(total.toString(10)).equal(period.closingBalance);
+        });
+    });
+
+    it("api /account/{address}/statement as csv", async function() {
+        const { text } = await request(app)
+            .get(
+                `/api/account/${
+                    Helper.ACCOUNT_ADDRESS
+                }/statement?format=csv&fromDate=2019-01-01&toDate=2019-03-31`
+            )
+            .expect(200)
+            .expect("Content-Type", /text\/csv/);
+        const lines = text.trim().split("\r\n");
+        expect(lines[0]).equal(
+            "from,to,openingBalance,fee,author,stake,tx,initial_distribution,deposit,validator,report,closingBalance"
+        );
+        expect(lines.slice(1).map(line => line.split(",")[0])).deep.equal([
+            "2019-01-01",
+            "2019-02-01",
+            "2019-03-01"
+        ]);
+    });
+
+    it("api /account/{address}/statement rejects an invalid timezone", async function() {
+        await request(app)
+            .get(
+                `/api/account/${
+                    Helper.ACCOUNT_ADDRESS
+                }/statement?timezone=Mars/Olympus`
+            )
+            .expect(400);
+    });
+
+    it("api /account/{address}/balance", async function() {
+        const { body: account } = await request(app)
+            .get(`/api/account/${Helper.ACCOUNT_ADDRESS}`)
+            .expect(200);
+        const latestBlock = (await BlockModel.getLatestBlock())!;
+        const latestBlockNumber = latestBlock.get("number");
+
+        const { body: latest } = await request(app)
+            .get(`/api/account/${Helper.ACCOUNT_ADDRESS}/balance`)
+            .expect(200);
+        expect(latest.blockNumber).equal(latestBlockNumber);
+        expect(latest.balance).equal(account.balance);
+
+        // The balance from the checkpoint is the same.
+        await CCCBalanceModel.createCheckpoints(latestBlockNumber - 1);
+        const { body: previous } = await request(app)
+            .get(
+                `/api/account/${
+                    Helper.ACCOUNT_ADDRESS
+                }/balance?blockNumber=${latestBlockNumber - 1}`
+            )
+            .expect(200);
+        const changes = await CCCChangeModel.getByAddress(
+            Helper.ACCOUNT_ADDRESS,
+            { itemsPerPage: 100 }
+        );
+        const changeOfLatestBlock = changes
+            .filter(change => change.get("blockNumber") === latestBlockNumber)
+            .reduce(
+                (sum, change) => sum.plus(change.get("change")),
+                new BigNumber(0)
+            );
+        expect(
+            new BigNumber(previous.balance)
+                .plus(changeOfLatestBlock)
+                .toString(10)
+        ).equal(account.balance);
+
+        await request(app)
+            .get(
+                `/api/account/${
+                    Helper.ACCOUNT_ADDRESS
+                }/balance?blockNumber=${latestBlockNumber + 1}`
+            )
+            .expect(200)
+            .expect(res => expect(res.body).null);
+    });
+
+    it("api /ccc-snapshot", async function() {
+        const { body: account } = await request(app)
+            .get(`/api/account/${Helper.ACCOUNT_ADDRESS}`)
+            .expect(200);
+        const { body: firstPage } = await request(app)
+            .get(`/api/ccc-snapshot?itemsPerPage=1`)
+            .expect(200);
+        expect(firstPage.data).length(1);
+
+        const { body: snapshot } = await request(app)
+            .get(`/api/ccc-snapshot?itemsPerPage=1000`)
+            .expect(200);
+        expect(snapshot.hasNextPage).false;
+        expect(snapshot.data[0]).deep.equal(firstPage.data[0]);
+        expect(
+            snapshot.data.find(
+                (row: any) => row.address === Helper.ACCOUNT_ADDRESS
+            ).balance
+        ).equal(account.balance);
+        if (firstPage.hasNextPage) {
+            const { body: secondPage } = await request(app)
+                .get(
+                    `/api/ccc-snapshot?itemsPerPage=1&lastEvaluatedKey=${
+                        firstPage.lastEvaluatedKey
+                    }`
+                )
+                .expect(200);
+            expect(secondPage.data[0]).deep.equal(snapshot.data[1]);
+        }
+    });
+
+    it("api /account/rich-list", async function() {
+        const { body: richList } = await request(app)
+            .get("/api/account/rich-list?itemsPerPage=100")
+            .expect(200);
+        const { accounts, buckets, holders, gini } = richList;
+        expect(accounts).length(holders);
+        expect(accounts.map((account: any) => account.rank)).deep.equal(
+            accounts.map((_: any, index: number) => index + 1)
+        );
+        for (let i = 1; i < accounts.length; i++) {
+            expect(
+                new BigNumber(accounts[i - 1].balance).gte(accounts[i].balance)
+            ).true;
+        }
+        expect(
+            buckets.reduce(
+                (sum: number, bucket: any) => sum + bucket.holders,
+                0
+            )
+        ).equal(holders);
+        expect(gini)
+            .least(0)
+            .below(1);
+
+        const { body: secondPage } = await request(app)
+            .get("/api/account/rich-list?page=2&itemsPerPage=1")
+            .expect(200);
+        expect(secondPage.accounts).deep.equal(accounts.slice(1, 2));
+    });
+
+    it("api /account/rich-list/history", async function() {
+        const config = require("config") as IndexerConfig;
+        await RichListModel.recordHistoryIfNeeded(config.richList);
+        // Once a day
+        await RichListModel.recordHistoryIfNeeded(config.richList);
+        const { body: history } = await request(app)
+            .get("/api/account/rich-list/history")
+            .expect(200);
+        expect(history).length(1);
+        expect(history[0].topPercentage)
+            .above(0)
+            .most(100);
+    });
 });
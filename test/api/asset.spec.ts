@@ -214,4 +214,43 @@ describe("asset-api", function() {
             .get(`/api/snapshot?assetType=${assetType}&date=${date}`)
             .expect(200);
     });
+
+    it("api /asset/{assetType}/holders", async function() {
+        const assetType = mintTx.getMintedAsset().assetType;
+        const { body: holders } = await request(app)
+            .get(`/api/asset/${assetType.value}/holders`)
+            .expect(200);
+        expect(holders.supply).equal("10000");
+        expect(holders.holderCount).equal(2);
+        expect(holders.data).deep.equal([
+            {
+                address: aliceAddress.value,
+                quantity: "7000",
+                percentage: 70,
+                utxoCount: 1
+            },
+            {
+                address: bobAddress,
+                quantity: "3000",
+                percentage: 30,
+                utxoCount: 2
+            }
+        ]);
+
+        const { body: firstPage } = await request(app)
+            .get(`/api/asset/${assetType.value}/holders?itemsPerPage=1`)
+            .expect(200);
+        expect(firstPage.hasNextPage).true;
+        const { body: secondPage } = await request(app)
+            .get(
+                `/api/asset/${
+                    assetType.value
+                }/holders?itemsPerPage=1&lastEvaluatedKey=${encodeURIComponent(
+                    firstPage.lastEvaluatedKey
+                )}`
+            )
+            .expect(200);
+        expect(secondPage.data).deep.equal(holders.data.slice(1));
+        expect(secondPage.hasNextPage).false;
+    });
 });
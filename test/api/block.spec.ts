@@ -1,6 +1,8 @@
 import * as bodyParser from "body-parser";
+import { expect } from "chai";
 import * as express from "express";
 import "mocha";
+import * as sinon from "sinon";
 import * as request from "supertest";
 
 import { MintAsset } from "codechain-sdk/lib/core/classes";
@@ -83,7 +85,13 @@ describe("block-api", function() {
     it("api /block/latest", async function() {
         await request(app)
             .get("/api/block/latest")
-            .expect(200);
+            .expect(200)
+            .expect(res => {
+                expect(res.body.confirmations).equal(0);
+                expect(res.body.isFinal).equal(
+                    context.options.worker.finalityDepth === 0
+                );
+            });
     });
 
     it("api /block/count", async function() {
@@ -126,4 +134,31 @@ describe("block-api", function() {
             .get(`/api/block?address=${address}`)
             .expect(200);
     });
+
+    it("api /block/latest?sync=true waits for the worker in the api role", async function() {
+        const config = require("config");
+        const apiContext = IndexerContext.newInstance({
+            ...config,
+            role: "api"
+        });
+        const apiApp = express().use(
+            bodyParser.json(),
+            createServer(apiContext)
+        );
+        const syncSpy = sinon.spy(apiContext.worker, "sync");
+
+        await Helper.runExample("send-signed-tx");
+        const bestBlockNumber = await Helper.sdk.rpc.chain.getBestBlockNumber();
+        const syncing = Helper.worker.sync();
+        await request(apiApp)
+            .get(`/api/block/latest?sync=true`)
+            .expect(200)
+            .expect(res => {
+                expect(JSON.parse(res.text).number).at.least(bestBlockNumber);
+            });
+        await syncing;
+
+        expect(syncSpy.called).false;
+        syncSpy.restore();
+    });
 });
@@ -0,0 +1,104 @@
+import * as bodyParser from "body-parser";
+import { expect } from "chai";
+import * as express from "express";
+import "mocha";
+import * as request from "supertest";
+
+import { IndexerContext } from "../../src/context";
+import * as CheckerFindingModel from "../../src/models/logic/checkerFinding";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+describe("checker-api", function() {
+    let resolvedId: string;
+
+    let context: IndexerContext;
+    let app: express.Express;
+
+    before(async function() {
+        await Helper.resetDb();
+
+        const address = "tccq9h7vnl68frvqapzv3tujrxtxtwqdnxw6yamrrgd";
+        resolvedId = (await CheckerFindingModel.recordFinding({
+            target: "cccChanges",
+            key: address,
+            blockNumber: 1,
+            expected: { change: "100" },
+            actual: { change: "0" }
+        })).get("id")!;
+        await CheckerFindingModel.resolveFinding(resolvedId);
+        // The CCCChanges findings of the other blocks are kept
+        for (const blockNumber of [4, 5]) {
+            await CheckerFindingModel.recordFinding({
+                target: "cccChanges",
+                key: address,
+                blockNumber,
+                expected: { change: "100" },
+                actual: { change: "0" }
+            });
+        }
+        await CheckerFindingModel.recordFinding({
+            target: "accounts",
+            key: address,
+            blockNumber: 2,
+            expected: { balance: "100", seq: 0 },
+            actual: { balance: "0", seq: 0 }
+        });
+        // Updates the unresolved finding of the same account
+        await CheckerFindingModel.recordFinding({
+            target: "accounts",
+            key: address,
+            blockNumber: 3,
+            expected: { balance: "100", seq: 0 },
+            actual: { balance: "0", seq: 0 }
+        });
+
+        const config = require("config");
+        context = IndexerContext.newInstance(config);
+        app = express().use(bodyParser.json(), createServer(context));
+    });
+
+    it("api /checker/findings", async function() {
+        await request(app)
+            .get("/api/checker/findings")
+            .expect(200)
+            .expect(res => {
+                expect(res.body.data).length(4);
+                const latest = res.body.data[0];
+                const oldest = res.body.data[3];
+                expect(latest).include({
+                    target: "accounts",
+                    blockNumber: 3,
+                    resolved: false
+                });
+                expect(oldest).include({ id: resolvedId, resolved: true });
+            });
+    });
+
+    it("api /checker/findings with resolved", async function() {
+        await request(app)
+            .get("/api/checker/findings?resolved=false&target=accounts")
+            .expect(200)
+            .expect(res => {
+                expect(res.body.data).length(1);
+                expect(res.body.data[0].blockNumber).equal(3);
+            });
+    });
+
+    it("api /checker/findings of CCCChanges in different blocks", async function() {
+        await request(app)
+            .get("/api/checker/findings?resolved=false&target=cccChanges")
+            .expect(200)
+            .expect(res => {
+                expect(
+                    res.body.data.map((finding: any) => finding.blockNumber)
+                ).deep.equal([5, 4]);
+            });
+    });
+
+    it("api /checker/findings with an invalid target", async function() {
+        await request(app)
+            .get("/api/checker/findings?target=blocks")
+            .expect(400);
+    });
+});
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import * as express from "express";
+import * as http from "http";
+import "mocha";
+import { AddressInfo } from "net";
+import * as request from "supertest";
+
+import { IndexerContext } from "../../src/context";
+import * as BlockModel from "../../src/models/logic/block";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+interface ReceivedEvent {
+    id?: string;
+    event?: string;
+    data?: any;
+}
+
+// Connects to the stream and resolves with the first `count` events
+function receiveEvents(
+    server: http.Server,
+    path: string,
+    count: number,
+    onConnect: () => Promise<void> = async () => undefined
+): Promise<ReceivedEvent[]> {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+        const req = http.get({ port, path }, res => {
+            expect(res.statusCode).equal(200);
+            expect(res.headers["content-type"]).equal("text/event-stream");
+            const events: ReceivedEvent[] = [];
+            let buffer = "";
+            res.setEncoding("utf8");
+            res.on("data", (chunk: string) => {
+                buffer += chunk;
+                const messages = buffer.split("\n\n");
+                buffer = messages.pop()!;
+                for (const message of messages) {
+                    const event: ReceivedEvent = {};
+                    for (const line of message.split("\n")) {
+                        const [field, ...rest] = line.split(": ");
+                        const value = rest.join(": ");
+                        if (field === "id") {
+                            event.id = value;
+                        } else if (field === "event") {
+                            event.event = value;
+                        } else if (field === "data") {
+                            event.data = JSON.parse(value);
+                        }
+                    }
+                    if (event.event != null) {
+                        events.push(event);
+                    }
+                }
+                if (events.length >= count) {
+                    req.abort();
+                    resolve(events.slice(0, count));
+                }
+            });
+            onConnect().catch(reject);
+        });
+        req.on("error", reject);
+    });
+}
+
+describe("event-api", function() {
+    let context: IndexerContext;
+    let app: express.Express;
+    let server: http.Server;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+
+        const config = require("config");
+        context = IndexerContext.newInstance(config);
+        app = express().use(createServer(context));
+        server = app.listen(0);
+    });
+
+    after(async function() {
+        await context.events.close();
+        server.close();
+    });
+
+    it("api /events resumes from lastBlockNumber", async function() {
+        const latestBlock = (await BlockModel.getLatestBlock())!.get({
+            plain: true
+        });
+        const events = await receiveEvents(
+            server,
+            `/api/events?types=block,transaction&address=${
+                Helper.ACCOUNT_ADDRESS
+            }&lastBlockNumber=${latestBlock.number - 1}`,
+            2
+        );
+        expect(events.map(e => e.event)).deep.equal(["transaction", "block"]);
+        expect(events[0].data.signer).equal(Helper.ACCOUNT_ADDRESS);
+        expect(events[0].data.blockNumber).equal(latestBlock.number);
+        expect(events[1].id).equal(String(latestBlock.number));
+        expect(events[1].data.hash).equal(latestBlock.hash);
+    });
+
+    it("api /events resumes from Last-Event-ID", async function() {
+        const latestBlockNumber = (await BlockModel.getLatestBlock())!.get(
+            "number"
+        );
+        const { port } = server.address() as AddressInfo;
+        const events = await new Promise<string>((resolve, reject) => {
+            const req = http.get(
+                {
+                    port,
+                    path: "/api/events?types=block",
+                    headers: { "Last-Event-ID": String(latestBlockNumber - 1) }
+                },
+                res => {
+                    res.setEncoding("utf8");
+                    res.once("data", (chunk: string) => {
+                        req.abort();
+                        resolve(chunk);
+                    });
+                }
+            );
+            req.on("error", reject);
+        });
+        expect(events).contain(`id: ${latestBlockNumber}\nevent: block`);
+    });
+
+    it("api /events pushes the blocks that the worker indexes", async function() {
+        const latestBlockNumber = (await BlockModel.getLatestBlock())!.get(
+            "number"
+        );
+        const events = await receiveEvents(
+            server,
+            "/api/events?types=block,pendingTransactions",
+            1,
+            async () => {
+                await Helper.runExample("send-signed-tx");
+                await Helper.worker.sync();
+            }
+        );
+        expect(events[0].event).equal("block");
+        expect(events[0].data.number).above(latestBlockNumber);
+    });
+
+    it("api /events rejects an invalid address", async function() {
+        await request(app)
+            .get("/api/events?address=invalid")
+            .expect(400);
+    });
+});
@@ -0,0 +1,191 @@
+import * as bodyParser from "body-parser";
+import { expect } from "chai";
+import * as express from "express";
+import "mocha";
+import * as sinon from "sinon";
+import * as request from "supertest";
+
+import { IndexerContext } from "../../src/context";
+import * as BlockModel from "../../src/models/logic/block";
+import * as TxModel from "../../src/models/logic/transaction";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+describe("graphql-api", function() {
+    let context: IndexerContext;
+    let app: express.Express;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.runExample("mint-and-transfer");
+        await Helper.worker.sync();
+
+        const config = require("config");
+        context = IndexerContext.newInstance(config);
+        app = express().use(bodyParser.json(), createServer(context));
+    });
+
+    it("api /graphql blocks with the transactions", async function() {
+        const latestBlockNumber = (await BlockModel.getLatestBlock())!.get(
+            "number"
+        );
+        const query = `{
+            blocks(itemsPerPage: 2) {
+                data {
+                    number
+                    isFinal
+                    transactions {
+                        hash
+                        action {
+                            __typename
+                            ... on MintAssetAction { assetScheme { supply } }
+                        }
+                    }
+                }
+                hasNextPage
+                lastEvaluatedKey
+            }
+        }`;
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({ query })
+            .expect(200);
+        expect(body.errors).undefined;
+        const { data, hasNextPage, lastEvaluatedKey } = body.data.blocks;
+        expect(data.map((block: any) => block.number)).deep.equal([
+            latestBlockNumber,
+            latestBlockNumber - 1
+        ]);
+        expect(hasNextPage).true;
+        expect(lastEvaluatedKey).equal(JSON.stringify([latestBlockNumber - 1]));
+
+        const { body: nextBody } = await request(app)
+            .post("/api/graphql")
+            .send({
+                query: `query ($key: String) {
+                    blocks(itemsPerPage: 2, lastEvaluatedKey: $key) {
+                        data { number }
+                        hasPreviousPage
+                    }
+                }`,
+                variables: { key: lastEvaluatedKey }
+            })
+            .expect(200);
+        expect(nextBody.data.blocks.data[0].number).equal(
+            latestBlockNumber - 2
+        );
+        expect(nextBody.data.blocks.hasPreviousPage).true;
+    });
+
+    it("api /graphql cccChanges with the evaluated key", async function() {
+        const query = `query ($key: String) {
+            cccChanges(
+                address: "${Helper.ACCOUNT_ADDRESS}"
+                itemsPerPage: 1
+                lastEvaluatedKey: $key
+            ) {
+                data { id }
+                hasNextPage
+                hasPreviousPage
+                lastEvaluatedKey
+            }
+        }`;
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({ query })
+            .expect(200);
+        expect(body.errors).undefined;
+        const { data, hasNextPage, lastEvaluatedKey } = body.data.cccChanges;
+        expect(data.length).equal(1);
+        expect(hasNextPage).true;
+
+        const { body: nextBody } = await request(app)
+            .post("/api/graphql")
+            .send({ query, variables: { key: lastEvaluatedKey } })
+            .expect(200);
+        expect(nextBody.errors).undefined;
+        const nextPage = nextBody.data.cccChanges;
+        expect(nextPage.data.length).equal(1);
+        expect(nextPage.data[0].id).not.equal(data[0].id);
+        expect(nextPage.hasPreviousPage).true;
+    });
+
+    it("api /graphql loads the blocks of the transactions in a batch", async function() {
+        const getByNumbers = sinon.spy(BlockModel, "getByNumbers");
+        const getByHash = sinon.spy(TxModel, "getByHash");
+        try {
+            const { body } = await request(app)
+                .post("/api/graphql")
+                .send({
+                    query: `{
+                        transactions(itemsPerPage: 3) {
+                            data { hash block { hash } signerAccount { balance } }
+                        }
+                    }`
+                })
+                .expect(200);
+            expect(body.errors).undefined;
+            expect(body.data.transactions.data.length).above(1);
+            expect(getByNumbers.callCount).equal(1);
+            expect(getByHash.callCount).equal(0);
+        } finally {
+            getByNumbers.restore();
+            getByHash.restore();
+        }
+    });
+
+    it("api /graphql with a query over the depth limit", async function() {
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({
+                query: `{
+                    block(number: 1) { transactions { block { transactions {
+                        block { transactions { block { transactions {
+                            block { transactions { hash } }
+                        } } } }
+                    } } } }
+                }`
+            })
+            .expect(400);
+        expect(body.errors[0].message).match(/depth/);
+    });
+
+    it("api /graphql with a query over the cost limit", async function() {
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({
+                query: `{
+                    blocks(itemsPerPage: 100) {
+                        data { transactions { hash fee seq signer type } }
+                    }
+                }`
+            })
+            .expect(400);
+        expect(body.errors[0].message).match(/cost/);
+    });
+
+    it("api /graphql with a cycle of fragments", async function() {
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({
+                query: `
+                    { block(number: 1) { ...A } }
+                    fragment A on Block { transactions { block { ...A } } }
+                `
+            })
+            .expect(400);
+        expect(body.errors[0].message).match(/cannot spread fragment/i);
+    });
+
+    it("api /graphql with an invalid evaluated key", async function() {
+        const { body } = await request(app)
+            .post("/api/graphql")
+            .send({
+                query: `{ blocks(lastEvaluatedKey: "abc") { data { number } } }`
+            })
+            .expect(200);
+        expect(body.errors[0].message).match(/evaluated key/);
+    });
+});
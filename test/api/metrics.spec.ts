@@ -0,0 +1,43 @@
+import * as bodyParser from "body-parser";
+import { expect } from "chai";
+import * as express from "express";
+import "mocha";
+import * as request from "supertest";
+
+import { IndexerContext } from "../../src/context";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+describe("metrics-api", function() {
+    let context: IndexerContext;
+    let app: express.Express;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.worker.sync();
+
+        const config = require("config");
+        context = IndexerContext.newInstance(config);
+        app = express().use(bodyParser.json(), createServer(context));
+    });
+
+    it("api /metrics", async function() {
+        await request(app)
+            .get("/api/block/latest")
+            .expect(200);
+        await request(app)
+            .get("/metrics")
+            .expect(200)
+            .expect("Content-Type", /text\/plain/)
+            .expect(res => {
+                expect(res.text).contain("indexer_indexed_block_number");
+                expect(res.text).contain(
+                    'indexer_block_indexing_duration_seconds_count{stage="createBlock"}'
+                );
+                expect(res.text).match(
+                    /indexer_http_requests_total{method="GET",route="\/block\/latest",status="200"} \d+/
+                );
+            });
+    });
+});
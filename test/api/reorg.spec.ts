@@ -0,0 +1,95 @@
+import * as bodyParser from "body-parser";
+import { expect } from "chai";
+import { H256 } from "codechain-primitives/lib";
+import { Block } from "codechain-sdk/lib/core/classes";
+import * as express from "express";
+import "mocha";
+import * as sinon from "sinon";
+import * as request from "supertest";
+
+import { IndexerContext } from "../../src/context";
+import * as BlockModel from "../../src/models/logic/block";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+describe("reorg-api", function() {
+    let retractedBlock: Block;
+    let forkedBlock: Block;
+
+    let context: IndexerContext;
+    let app: express.Express;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+
+        retractedBlock = (await Helper.sdk.rpc.chain.getBlock(
+            (await BlockModel.getLatestBlock())!.get("number")
+        ))!;
+        await Helper.runExample("send-signed-tx");
+        const nextBlock = (await Helper.sdk.rpc.chain.getBlock(
+            retractedBlock.number + 1
+        ))!;
+
+        // Pretend that the latest indexed block is replaced by another one.
+        forkedBlock = new Block({
+            ...retractedBlock,
+            hash: new H256(
+                "0000000000000000000000000000000000000000000000000000000000000001"
+            )
+        });
+        const getBlockStub = sinon.stub(Helper.source, "getBlock");
+        getBlockStub.withArgs(retractedBlock.number).resolves(forkedBlock);
+        getBlockStub
+            .withArgs(nextBlock.number)
+            .resolves(
+                new Block({ ...nextBlock, parentHash: forkedBlock.hash })
+            );
+        getBlockStub.callThrough();
+        try {
+            await Helper.worker.sync();
+        } finally {
+            getBlockStub.restore();
+        }
+
+        const config = require("config");
+        context = IndexerContext.newInstance(config);
+        app = express().use(bodyParser.json(), createServer(context));
+    });
+
+    it("api /reorg", async function() {
+        await request(app)
+            .get("/api/reorg")
+            .expect(200)
+            .expect(res => {
+                expect(res.body.data).length(1);
+                const [reorg] = res.body.data;
+                expect(reorg.forkBlockNumber).equal(retractedBlock.number - 1);
+                expect(reorg.depth).equal(1);
+                expect(reorg.oldHashes).deep.equal([retractedBlock.hash.value]);
+                expect(reorg.newHashes).deep.equal([forkedBlock.hash.value]);
+                expect(reorg.retractedTransactionHashes).deep.equal(
+                    retractedBlock.transactions.map(tx => tx.hash().value)
+                );
+            });
+    });
+
+    it("api /reorg/{id}", async function() {
+        const { body } = await request(app)
+            .get("/api/reorg")
+            .expect(200);
+        const [{ id }] = body.data;
+        await request(app)
+            .get(`/api/reorg/${id}`)
+            .expect(200)
+            .expect(res => expect(res.body.id).equal(id));
+    });
+
+    it("api /reorg/{id} with an invalid id", async function() {
+        await request(app)
+            .get("/api/reorg/abc")
+            .expect(400);
+    });
+});
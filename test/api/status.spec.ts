@@ -1,4 +1,5 @@
 import * as bodyParser from "body-parser";
+import { expect } from "chai";
 import * as express from "express";
 import "mocha";
 import * as sinon from "sinon";
@@ -120,6 +121,26 @@ describe("status-api", function() {
             .expect(200);
     });
 
+    it("api /status/sync reports the final block", async function() {
+        const { finalityDepth } = context.options.worker;
+        await request(app)
+            .get("/api/status/sync")
+            .expect(200)
+            .expect(res => {
+                const {
+                    indexedBlockNumber,
+                    finalIndexedBlockNumber,
+                    leaseHolder
+                } = res.body;
+                expect(leaseHolder).match(/:\d+$/);
+                expect(finalIndexedBlockNumber).equal(
+                    finalityDepth != null && indexedBlockNumber >= finalityDepth
+                        ? indexedBlockNumber - finalityDepth
+                        : null
+                );
+            });
+    });
+
     it("api /status/sync rpc fail", async function() {
         const getBestBlockNumberStub = sinon.stub(
             context.sdk.rpc.chain,
@@ -18,6 +18,7 @@ describe("transaction-api", function() {
     let bobAddress: string;
     let mintRubyTx: MintAsset;
     let mintEmeraldTx: MintAsset;
+    let mintEmeraldTxHash: string;
     let transferTxHash: H256;
 
     let context: IndexerContext;
@@ -100,10 +101,13 @@ describe("transaction-api", function() {
         });
 
         mintEmeraldTx.getMintedAsset();
-        await Helper.sdk.rpc.chain.sendTransaction(mintEmeraldTx, {
-            account: Helper.ACCOUNT_ADDRESS,
-            passphrase: Helper.ACCOUNT_PASSPHRASE
-        });
+        mintEmeraldTxHash = (await Helper.sdk.rpc.chain.sendTransaction(
+            mintEmeraldTx,
+            {
+                account: Helper.ACCOUNT_ADDRESS,
+                passphrase: Helper.ACCOUNT_PASSPHRASE
+            }
+        )).value;
 
         await Helper.worker.sync();
 
@@ -277,4 +281,34 @@ describe("transaction-api", function() {
                 expect(mintAsset.assetType).equals(assetType.toString());
             });
     });
+
+    it("api /pending-tx/stats", async function() {
+        await request(app)
+            .get(`/api/pending-tx/stats`)
+            .expect(200)
+            .expect(res => {
+                const stats = JSON.parse(res.text);
+                expect(stats.count).equals(1);
+                expect(stats.distinctSigners).equals(1);
+                expect(stats.oldestPendingAge).at.least(0);
+                expect(stats.types.mintAsset.count).equals(1);
+                const { min, median, max } = stats.types.mintAsset.fee;
+                expect(median).equals(min);
+                expect(median).equals(max);
+                expect(stats.samples).not.empty;
+                expect(stats.samples[stats.samples.length - 1].count).equals(1);
+            });
+    });
+
+    it("api /pending-tx/:hash/history", async function() {
+        await request(app)
+            .get(`/api/pending-tx/${mintEmeraldTxHash}/history`)
+            .expect(200)
+            .expect(res => {
+                const history = JSON.parse(res.text);
+                expect(history.hash).equals(mintEmeraldTxHash);
+                expect(history.signer).equals(Helper.ACCOUNT_ADDRESS);
+                expect(history.outcome).null;
+            });
+    });
 });
@@ -0,0 +1,76 @@
+import * as bodyParser from "body-parser";
+import { expect } from "chai";
+import * as express from "express";
+import "mocha";
+import * as request from "supertest";
+
+import { IndexerConfig } from "../../src/config";
+import { IndexerContext } from "../../src/context";
+import { createServer } from "../../src/server";
+import * as Helper from "../helper";
+
+describe("webhook-api", function() {
+    let app: express.Express;
+
+    before(async function() {
+        await Helper.resetDb();
+
+        const config = require("config") as IndexerConfig;
+        const context = IndexerContext.newInstance({
+            ...config,
+            webhook: { ...config.webhook, enabled: true }
+        });
+        app = express().use(bodyParser.json(), createServer(context));
+    });
+
+    it("api /webhook creates, lists and deletes a subscription", async function() {
+        const { body: created } = await request(app)
+            .post("/api/webhook")
+            .send({
+                url: "https://example.com/hook",
+                address: Helper.ACCOUNT_ADDRESS,
+                reasons: ["tx", "fee"]
+            })
+            .expect(201);
+        expect(created.secret).a("string");
+        expect(created.reasons).deep.equal(["tx", "fee"]);
+
+        const { body: subscriptions } = await request(app)
+            .get("/api/webhook")
+            .expect(200);
+        expect(subscriptions.map((s: any) => s.id)).deep.equal([created.id]);
+        expect(subscriptions[0]).not.have.property("secret");
+
+        const { body: subscription } = await request(app)
+            .get(`/api/webhook/${created.id}`)
+            .expect(200);
+        expect(subscription.url).equal("https://example.com/hook");
+
+        await request(app)
+            .delete(`/api/webhook/${created.id}`)
+            .expect(204);
+        await request(app)
+            .delete(`/api/webhook/${created.id}`)
+            .expect(404);
+    });
+
+    it("api /webhook rejects invalid filters", async function() {
+        await request(app)
+            .post("/api/webhook")
+            .send({ url: "ftp://example.com" })
+            .expect(400);
+        await request(app)
+            .post("/api/webhook")
+            .send({ url: "https://example.com/hook", address: "invalid" })
+            .expect(400);
+        // The CCCChanges have no asset type
+        await request(app)
+            .post("/api/webhook")
+            .send({
+                url: "https://example.com/hook",
+                assetType: "0000000000000000000000000000000000000000",
+                reasons: ["tx"]
+            })
+            .expect(400);
+    });
+});
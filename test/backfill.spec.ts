@@ -0,0 +1,110 @@
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import * as _ from "lodash";
+import "mocha";
+import models from "../src/models";
+import * as BlockModel from "../src/models/logic/block";
+import {
+    createBackfill,
+    getProgress,
+    indexSegment,
+    stitchSegments
+} from "../src/worker/backfill";
+import * as Helper from "./helper";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+async function dumpDerivedData() {
+    const accounts = await models.Account.findAll({
+        attributes: ["address", "balance", "seq"],
+        order: [["address", "ASC"]]
+    });
+    const cccChanges = await models.CCCChange.findAll({
+        attributes: ["address", "change", "blockNumber", "reason"],
+        order: [["blockNumber", "ASC"], ["address", "ASC"], ["reason", "ASC"]]
+    });
+    const utxos = await models.UTXO.findAll({
+        attributes: [
+            "transactionTracker",
+            "transactionOutputIndex",
+            "usedTransactionHash"
+        ],
+        order: [
+            ["transactionTracker", "ASC"],
+            ["transactionOutputIndex", "ASC"]
+        ]
+    });
+    const logs = await models.Log.findAll({
+        attributes: ["date", "type", "value", "count"],
+        order: [["date", "ASC"], ["type", "ASC"], ["value", "ASC"]]
+    });
+    return [accounts, cccChanges, utxos, logs].map(
+        (instances: { get(options: { plain: true }): any }[]) =>
+            instances.map(i => i.get({ plain: true }))
+    );
+}
+
+describe("backfill", function() {
+    let synced: any[][];
+    let bestBlockNumber: number;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.runExample("mint-and-transfer");
+        await Helper.runExample("wrap-ccc-and-unwrap-ccc");
+        await Helper.worker.sync();
+        bestBlockNumber = (await BlockModel.getLatestBlock())!.get("number");
+        synced = await dumpDerivedData();
+        await Helper.resetDb();
+    });
+
+    it("indexes the same data as the worker", async function() {
+        const segments = await createBackfill(Helper.source, {
+            fromBlockNumber: 0,
+            toBlockNumber: bestBlockNumber,
+            segmentSize: 3,
+            finalityDepth: 0
+        });
+        expect(segments.length).equal(Math.ceil((bestBlockNumber + 1) / 3));
+
+        // In reverse to index the later segments first
+        for (const segment of [...segments].reverse()) {
+            await indexSegment(Helper.source, segment.id!, {
+                prefetchCount: 1
+            });
+        }
+        expect(await getProgress()).deep.include({
+            indexed: bestBlockNumber + 1,
+            stitched: 0
+        });
+
+        await stitchSegments(Helper.worker.context, {
+            prefetchCount: 1,
+            cccCheckpointInterval: 2
+        });
+        expect(await getProgress()).null;
+        expect(await dumpDerivedData()).deep.equal(synced);
+
+        const checkpointBlockNumbers = _.uniq(
+            (await models.CCCBalanceCheckpoint.findAll({
+                attributes: ["blockNumber"]
+            })).map(i => i.get("blockNumber"))
+        );
+        expect(checkpointBlockNumbers).not.empty;
+        expect(checkpointBlockNumbers.every(n => n % 2 === 0)).true;
+    });
+
+    it("rejects a range that doesn't follow the indexed blocks", async function() {
+        await expect(
+            createBackfill(Helper.source, {
+                fromBlockNumber: bestBlockNumber + 2,
+                toBlockNumber: bestBlockNumber + 2,
+                segmentSize: 3,
+                finalityDepth: 0
+            })
+        ).rejectedWith(Error);
+    });
+});
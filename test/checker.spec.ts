@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import "mocha";
+import { findCCCChangeMismatches } from "../src/checker";
+import models from "../src/models";
+import * as BlockModel from "../src/models/logic/block";
+import * as Helper from "./helper";
+
+describe("checker", function() {
+    let latestBlockNumber: number;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+        latestBlockNumber = (await BlockModel.getLatestBlock())!.get("number");
+    });
+
+    it("finds no mismatch in the synced blocks", async function() {
+        for (let n = 1; n <= latestBlockNumber; n++) {
+            expect(await findCCCChangeMismatches(Helper.source, n)).empty;
+        }
+    });
+
+    it("finds a wrong CCCChange", async function() {
+        const cccChangeInst = (await models.CCCChange.findOne({
+            where: { blockNumber: latestBlockNumber }
+        }))!;
+        const { address, change } = cccChangeInst.get({ plain: true });
+        await cccChangeInst.update({ change: "0" });
+
+        const mismatches = await findCCCChangeMismatches(
+            Helper.source,
+            latestBlockNumber
+        );
+        expect(mismatches).length(1);
+        expect(mismatches[0].address).equal(address);
+        expect(mismatches[0].actual.toString(10)).not.equal(
+            mismatches[0].expected.toString(10)
+        );
+
+        await cccChangeInst.update({ change });
+    });
+});
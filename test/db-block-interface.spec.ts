@@ -16,7 +16,11 @@ describe("db-block-interface", function() {
             (await Helper.sdk.rpc.chain.getBestBlockNumber()) - 1;
         const mintBlock = await Helper.sdk.rpc.chain.getBlock(mintBlockNumber);
         expect(mintBlock).not.null;
-        await BlockModel.createBlock(mintBlock!, Helper.sdk, new U64("1000"));
+        await BlockModel.createBlock(
+            mintBlock!,
+            Helper.source,
+            new U64("1000")
+        );
         const lastBlockInstance = await BlockModel.getLatestBlock();
         expect(lastBlockInstance).not.null;
         expect(lastBlockInstance!.get({ plain: true }).number).equal(
@@ -3,9 +3,10 @@ import { SDK } from "codechain-sdk";
 import { Block, H256, Transaction, U64 } from "codechain-sdk/lib/core/classes";
 import { readFileSync, writeFile } from "fs";
 import * as path from "path";
-import { NullSlack } from "../src/checker/slack";
 import { IndexerConfig } from "../src/config";
 import * as BlockModel from "../src/models/logic/block";
+import { NullNotifier } from "../src/notifier";
+import { SDKChainSource } from "../src/source";
 import Worker from "../src/worker";
 
 process.env.NODE_ENV = "test";
@@ -23,8 +24,10 @@ export const sdk = new SDK({
     networkId: CODECHAIN_NETWORK_ID
 });
 
+export const source = new SDKChainSource(sdk);
+
 export const worker = new Worker(
-    { sdk, slack: new NullSlack() },
+    { source, notifier: new NullNotifier() },
     options.worker
 );
 
@@ -82,7 +85,7 @@ export const mintAsset = async () => {
     const { transactionHash, block } = await sendTransactionAndGetBlock(
         transaction
     );
-    await BlockModel.createBlock(block, sdk, new U64(1));
+    await BlockModel.createBlock(block, source, new U64(1));
     return { transactionHash, block, transaction };
 };
 
@@ -23,6 +23,6 @@ describe("mint-asset", function() {
                 recipient
             })
         );
-        await BlockModel.createBlock(block, Helper.sdk, new U64(1));
+        await BlockModel.createBlock(block, Helper.source, new U64(1));
     });
 });
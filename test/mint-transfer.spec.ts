@@ -48,7 +48,7 @@ describe("mint-transfer-synchronized", function() {
         try {
             await BlockModel.createBlock(
                 transferBlock,
-                Helper.sdk,
+                Helper.source,
                 new U64("1000")
             );
             expect.fail();
@@ -163,7 +163,7 @@ async function check(blockResponse: Block, type: string) {
 
     const blockInst = await BlockModel.createBlock(
         blockResponse,
-        Helper.sdk,
+        Helper.source,
         new U64("1000")
     );
     const blockDoc = blockInst.get({ plain: true });
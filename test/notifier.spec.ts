@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import "mocha";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+import { createNotifier, Notification } from "../src/notifier";
+
+describe("notifier", function() {
+    let filePath: string;
+    let clock: sinon.SinonFakeTimers;
+
+    const readNotifications = async (): Promise<Notification[]> => {
+        // The file channel appends asynchronously
+        await new Promise(resolve => setTimeout(resolve, 50));
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+        return fs
+            .readFileSync(filePath, "utf8")
+            .split("\n")
+            .filter(line => line !== "")
+            .map(line => JSON.parse(line));
+    };
+
+    beforeEach(function() {
+        filePath = path.join(
+            os.tmpdir(),
+            `notifier-${process.pid}-${Date.now()}.log`
+        );
+        clock = sinon.useFakeTimers({
+            now: Date.now(),
+            toFake: ["Date"]
+        });
+    });
+
+    afterEach(function() {
+        clock.restore();
+        if (fs.existsSync(filePath)) {
+            fs.unlinkSync(filePath);
+        }
+    });
+
+    it("sends the notifications to the file", async function() {
+        const notifier = createNotifier(
+            {
+                dedupWindow: 300,
+                rateLimit: 20,
+                channels: [{ type: "file", path: filePath }]
+            },
+            "[test]"
+        );
+        notifier.sendError("Something is wrong");
+
+        const notifications = await readNotifications();
+        expect(notifications).length(1);
+        expect(notifications[0]).include({
+            severity: "error",
+            tag: "[test]",
+            text: "Something is wrong"
+        });
+    });
+
+    it("drops the same notification in the dedup window", async function() {
+        const notifier = createNotifier(
+            {
+                dedupWindow: 300,
+                rateLimit: 20,
+                channels: [{ type: "file", path: filePath }]
+            },
+            "[test]"
+        );
+        notifier.sendError("Something is wrong");
+        notifier.sendError("Something is wrong");
+        notifier.sendError("Something else is wrong");
+        clock.tick(300 * 1000);
+        notifier.sendError("Something is wrong");
+
+        const notifications = await readNotifications();
+        expect(notifications.map(({ text }) => text)).deep.equal([
+            "Something is wrong",
+            "Something else is wrong",
+            "Something is wrong"
+        ]);
+    });
+
+    it("suppresses the notifications over the rate limit", async function() {
+        const notifier = createNotifier(
+            {
+                dedupWindow: 300,
+                rateLimit: 2,
+                channels: [{ type: "file", path: filePath }]
+            },
+            "[test]"
+        );
+        notifier.sendError("1");
+        notifier.sendError("2");
+        notifier.sendError("3");
+        notifier.sendError("4");
+        clock.tick(60 * 1000);
+        notifier.sendError("5");
+
+        const notifications = await readNotifications();
+        expect(notifications.map(({ text }) => text)).deep.equal([
+            "1",
+            "2",
+            "5\n(2 notifications are suppressed by the rate limit)"
+        ]);
+    });
+
+    it("sends only the severities of the channel", async function() {
+        const notifier = createNotifier(
+            {
+                dedupWindow: 300,
+                rateLimit: 20,
+                channels: [
+                    { type: "file", path: filePath, minSeverity: "warning" }
+                ]
+            },
+            "[test]"
+        );
+        notifier.sendInfo("is started", "Hello");
+        notifier.sendWarning("Be careful");
+
+        const notifications = await readNotifications();
+        expect(notifications.map(({ severity }) => severity)).deep.equal([
+            "warning"
+        ]);
+    });
+});
@@ -26,7 +26,7 @@ describe("payment", function() {
         expect(miningRewardResponse).not.null;
         await BlockModel.createBlock(
             paymentBlock!,
-            Helper.sdk,
+            Helper.source,
             new U64("1000")
         );
         const lastBlockInstance = await BlockModel.getLatestBlock();
@@ -75,7 +75,7 @@ describe("payment", function() {
         expect(miningRewardResponse).not.null;
         await BlockModel.createBlock(
             paymentBlock!,
-            Helper.sdk,
+            Helper.source,
             new U64("1000")
         );
         const lastBlockInstance = await BlockModel.getLatestBlock();
@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { H256 } from "codechain-sdk/lib/core/classes";
 import "mocha";
+import models from "../src/models";
+import * as PendingHistoryModel from "../src/models/logic/pendingTransactionHistory";
 import * as TxModel from "../src/models/logic/transaction";
 import * as Helper from "./helper";
 
@@ -59,6 +61,38 @@ describe("pending-tx", function() {
         expect(indexedTransactionInst).not.null;
         const indexedTransaction = indexedTransactionInst!.get();
         expect(indexedTransaction.isPending).be.false;
+
+        const historyInst = await PendingHistoryModel.getByHash(
+            new H256(pendingTx.hash)
+        );
+        expect(historyInst!.get()).include({
+            outcome: "mined",
+            blockNumber: indexedTransaction.blockNumber
+        });
+    });
+
+    it("Marks pending transactions that leave the mempool as dropped", async function() {
+        const hash =
+            "0000000000000000000000000000000000000000000000000000000000000001";
+        await models.PendingTransactionHistory.create({
+            hash,
+            signer: Helper.ACCOUNT_ADDRESS,
+            seq: 0,
+            firstSeen: 1,
+            lastSeen: 1
+        });
+
+        await PendingHistoryModel.updateMempool([], 2);
+        let historyInst = await PendingHistoryModel.getByHash(new H256(hash));
+        expect(historyInst!.get()).include({ outcome: "dropped", lastSeen: 1 });
+
+        // A dropped transaction can be mined later
+        await PendingHistoryModel.markMined([hash], 10);
+        historyInst = await PendingHistoryModel.getByHash(new H256(hash));
+        expect(historyInst!.get()).include({
+            outcome: "mined",
+            blockNumber: 10
+        });
     });
 });
 
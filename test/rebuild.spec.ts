@@ -0,0 +1,74 @@
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import "mocha";
+import models from "../src/models";
+import * as BlockModel from "../src/models/logic/block";
+import { DERIVED_TABLES, rebuild } from "../src/worker/rebuild";
+import * as Helper from "./helper";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+describe("rebuild", function() {
+    let latestBlockNumber: number;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.runExample("mint-and-transfer");
+        await Helper.worker.sync();
+        latestBlockNumber = (await BlockModel.getLatestBlock())!.get("number");
+    });
+
+    it("changes nothing when the derived tables are correct", async function() {
+        const diffs = await rebuild(Helper.worker.context, {
+            fromBlockNumber: 0,
+            toBlockNumber: latestBlockNumber,
+            tables: DERIVED_TABLES,
+            dryRun: true
+        });
+        expect(diffs.map(diff => diff.table)).deep.equal(DERIVED_TABLES);
+        for (const diff of diffs) {
+            expect(diff.removed, diff.table).empty;
+            expect(diff.added, diff.table).empty;
+        }
+    });
+
+    it("restores the deleted AddressLogs", async function() {
+        const where = { blockNumber: latestBlockNumber };
+        const count = await models.AddressLog.count({ where });
+        expect(count).above(0);
+        await models.AddressLog.destroy({ where });
+
+        const params = {
+            fromBlockNumber: latestBlockNumber,
+            toBlockNumber: latestBlockNumber,
+            tables: DERIVED_TABLES.filter(table => table === "AddressLogs")
+        };
+        const [dryRunDiff] = await rebuild(Helper.worker.context, {
+            ...params,
+            dryRun: true
+        });
+        expect(dryRunDiff.added).length(count);
+        expect(await models.AddressLog.count({ where })).equal(0);
+
+        const [diff] = await rebuild(Helper.worker.context, {
+            ...params,
+            dryRun: false
+        });
+        expect(diff).deep.equal(dryRunDiff);
+        expect(await models.AddressLog.count({ where })).equal(count);
+    });
+
+    it("rejects a range that is not indexed", async function() {
+        await expect(
+            rebuild(Helper.worker.context, {
+                fromBlockNumber: 0,
+                toBlockNumber: latestBlockNumber + 1,
+                tables: DERIVED_TABLES,
+                dryRun: true
+            })
+        ).rejectedWith(Error);
+    });
+});
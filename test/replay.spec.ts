@@ -0,0 +1,69 @@
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import { SDK } from "codechain-sdk";
+import * as fs from "fs";
+import "mocha";
+import * as os from "os";
+import * as path from "path";
+import {
+    recordRpcResponses,
+    ReplayChainSource,
+    SDKChainSource
+} from "../src/source";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+describe("replay", function() {
+    const file = path.join(os.tmpdir(), `indexer-replay-${process.pid}.ndjson`);
+
+    before(async function() {
+        const sdk = new SDK({
+            server: "http://localhost:8080",
+            networkId: "tc"
+        });
+        const bestBlockNumbers = [1, 2];
+        sdk.rpc.sendRpcRequest = async (method: string, params: any[]) => {
+            switch (method) {
+                case "chain_getBestBlockNumber":
+                    return bestBlockNumbers.shift();
+                case "chain_getTermMetadata":
+                    return [0, params[0]];
+                default:
+                    throw Error("ECONNREFUSED");
+            }
+        };
+        recordRpcResponses(sdk, file);
+
+        const source = new SDKChainSource(sdk);
+        await source.getBestBlockNumber();
+        await source.getBestBlockNumber();
+        await source.getTermMetadata(3);
+        await source.getBlock(5).catch(() => undefined);
+    });
+
+    after(function() {
+        fs.unlinkSync(file);
+    });
+
+    it("replays the recorded responses in order", async function() {
+        const source = new ReplayChainSource(file, "tc");
+        expect(await source.getBestBlockNumber()).equal(1);
+        expect(await source.getBestBlockNumber()).equal(2);
+        // The last response is repeated.
+        expect(await source.getBestBlockNumber()).equal(2);
+        expect(await source.getTermMetadata(3)).deep.equal([0, 3]);
+    });
+
+    it("replays the recorded errors", async function() {
+        const source = new ReplayChainSource(file, "tc");
+        await expect(source.getBlock(5)).to.be.rejectedWith("ECONNREFUSED");
+    });
+
+    it("rejects requests that were not recorded", async function() {
+        const source = new ReplayChainSource(file, "tc");
+        await expect(source.getTermMetadata(4)).to.be.rejectedWith(
+            "No recorded response"
+        );
+    });
+});
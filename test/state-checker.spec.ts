@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import "mocha";
+import {
+    checkKey,
+    checkState,
+    STATE_CHECK_TARGETS
+} from "../src/checker/state";
+import models from "../src/models";
+import * as BlockModel from "../src/models/logic/block";
+import * as Helper from "./helper";
+
+describe("state-checker", function() {
+    let latestBlockNumber: number;
+
+    before(async function() {
+        await Helper.resetDb();
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.runExample("mint-and-transfer");
+        await Helper.worker.sync();
+        latestBlockNumber = (await BlockModel.getLatestBlock())!.get("number");
+    });
+
+    it("finds no mismatch in the synced state", async function() {
+        const mismatches = await checkState(Helper.source, {
+            targets: STATE_CHECK_TARGETS
+        });
+        expect(mismatches).empty;
+    });
+
+    it("finds a wrong balance", async function() {
+        const accountInst = (await models.Account.findOne())!;
+        const { address, balance } = accountInst.get({ plain: true });
+        // Larger than Number.MAX_SAFE_INTEGER
+        const wrongBalance = "18446744073709551615";
+        await accountInst.update({ balance: wrongBalance });
+
+        const mismatches = await checkState(Helper.source, {
+            targets: ["accounts"]
+        });
+        expect(mismatches).length(1);
+        expect(mismatches[0]).deep.include({
+            target: "accounts",
+            key: address,
+            blockNumber: latestBlockNumber
+        });
+        expect(mismatches[0].indexed).include({ balance: wrongBalance });
+        expect(mismatches[0].chain).include({ balance });
+
+        await accountInst.update({ balance });
+        expect(await checkKey(Helper.source, "accounts", address)).null;
+    });
+
+    it("finds a wrong UTXO in the range", async function() {
+        const utxoInst = (await models.UTXO.findOne({
+            where: { usedTransactionHash: null }
+        }))!;
+        const { blockNumber, quantity } = utxoInst.get({ plain: true });
+        await utxoInst.update({ quantity: "1" });
+
+        const params = {
+            targets: STATE_CHECK_TARGETS.filter(target => target === "utxos"),
+            sampleSize: 10
+        };
+        expect(
+            await checkState(Helper.source, {
+                ...params,
+                fromBlockNumber: blockNumber,
+                toBlockNumber: blockNumber
+            })
+        ).length(1);
+        if (blockNumber > 0) {
+            expect(
+                await checkState(Helper.source, {
+                    ...params,
+                    fromBlockNumber: 0,
+                    toBlockNumber: blockNumber - 1
+                })
+            ).empty;
+        }
+
+        await utxoInst.update({ quantity });
+    });
+});
@@ -13,7 +13,7 @@ async function check(blockNumber: number, typeName: string, typeInstance: any) {
 
     const blockInst = await createBlock(
         blockResponse,
-        Helper.sdk,
+        Helper.source,
         new U64("1000")
     );
 
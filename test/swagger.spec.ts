@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import "mocha";
+import { namespaceByNetwork, swaggerSpec } from "../src/swagger";
+
+describe("swagger", function() {
+    it("namespaces the paths by the network", function() {
+        const spec = namespaceByNetwork(swaggerSpec, ["cc", "tc"]);
+        const paths = Object.keys(swaggerSpec.paths);
+        expect(paths).not.empty;
+        expect(Object.keys(spec.paths)).deep.equal(
+            paths.map(path => `/{networkId}${path}`)
+        );
+        expect(spec.paths["/{networkId}/block/latest"].parameters).deep.equal([
+            {
+                name: "networkId",
+                description: "the network ID",
+                in: "path",
+                required: true,
+                type: "string",
+                enum: ["cc", "tc"]
+            }
+        ]);
+        expect(spec.paths["/{networkId}/block/latest"].get).deep.equal(
+            swaggerSpec.paths["/block/latest"].get
+        );
+    });
+});
@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import "mocha";
+import * as sinon from "sinon";
+import { NullNotifier } from "../src/notifier";
+import { SyncAlerts } from "../src/worker/alert";
+
+describe("sync-alert", function() {
+    let notifier: NullNotifier;
+    let notify: sinon.SinonSpy;
+
+    beforeEach(function() {
+        notifier = new NullNotifier();
+        notify = sinon.spy(notifier, "notify");
+    });
+
+    it("fires and resolves the lag alert", function() {
+        const alerts = new SyncAlerts(notifier, { maxLagBlocks: 10 });
+        const now = Date.now();
+        alerts.setChainBestBlockNumber(100);
+        alerts.setIndexedBlock(80, now / 1000);
+        alerts.evaluate(now);
+        expect(alerts.getFiringRules()).deep.equal(["lagBlocks"]);
+        expect(notify.calledOnceWith("error", "alert lagBlocks is firing")).be
+            .true;
+
+        // Fires once while the condition holds
+        alerts.setIndexedBlock(85, now / 1000);
+        alerts.evaluate(now);
+        expect(notify.callCount).equal(1);
+
+        alerts.setIndexedBlock(95, now / 1000);
+        alerts.evaluate(now);
+        expect(alerts.getFiringRules()).empty;
+        expect(notify.lastCall.args.slice(0, 2)).deep.equal([
+            "info",
+            "alert lagBlocks is resolved"
+        ]);
+    });
+
+    it("fires the lag alert by the age of the indexed block", function() {
+        const alerts = new SyncAlerts(notifier, { maxLagMinutes: 10 });
+        const now = Date.now();
+        alerts.setChainBestBlockNumber(100);
+        alerts.setIndexedBlock(99, now / 1000 - 11 * 60);
+        alerts.evaluate(now);
+        expect(alerts.getFiringRules()).deep.equal(["lagMinutes"]);
+
+        // An old block is not a lag if the chain has no newer one
+        alerts.setIndexedBlock(100, now / 1000 - 11 * 60);
+        alerts.evaluate(now);
+        expect(alerts.getFiringRules()).empty;
+    });
+
+    it("fires the stall alert", function() {
+        const alerts = new SyncAlerts(notifier, { stallSeconds: 60 });
+        const now = Date.now();
+        alerts.setIndexedBlock(10, now / 1000);
+        alerts.evaluate(now + 30 * 1000);
+        expect(alerts.getFiringRules()).empty;
+        alerts.evaluate(now + 61 * 1000);
+        expect(alerts.getFiringRules()).deep.equal(["stall"]);
+
+        alerts.setIndexedBlock(11, now / 1000);
+        alerts.evaluate(Date.now());
+        expect(alerts.getFiringRules()).empty;
+    });
+
+    it("fires the failure alert of the same block", function() {
+        const alerts = new SyncAlerts(notifier, { maxBlockFailures: 3 });
+        alerts.setIndexedBlock(10, Date.now() / 1000);
+        alerts.recordFailure(Error("DBError"));
+        alerts.recordFailure(Error("DBError"));
+        alerts.evaluate();
+        expect(alerts.getFiringRules()).empty;
+        alerts.recordFailure(Error("DBError"));
+        alerts.evaluate();
+        expect(alerts.getFiringRules()).deep.equal(["blockFailures"]);
+        expect(notify.lastCall.args[2]).equal(
+            "Block 11 failed 3 times: DBError"
+        );
+
+        alerts.recordSuccess();
+        alerts.evaluate();
+        expect(alerts.getFiringRules()).empty;
+    });
+});
@@ -31,7 +31,7 @@ describe("transfer-asset", function() {
         const { block } = await Helper.sendTransactionAndGetBlock(
             transferAsset
         );
-        await BlockModel.createBlock(block, Helper.sdk, new U64(1));
+        await BlockModel.createBlock(block, Helper.source, new U64(1));
     });
 
     it.skip("TransferAsset - Nonexistent assetType", async function() {
@@ -61,7 +61,7 @@ describe("transfer-asset", function() {
         const { block } = await Helper.sendTransactionAndGetBlock(
             transferAsset
         );
-        await BlockModel.createBlock(block, Helper.sdk, new U64(1));
+        await BlockModel.createBlock(block, Helper.source, new U64(1));
     });
 
     it.skip("TransferAsset - Nonexistent outPoint index", async function() {
@@ -90,7 +90,7 @@ describe("transfer-asset", function() {
         const { block } = await Helper.sendTransactionAndGetBlock(
             transferAsset
         );
-        await BlockModel.createBlock(block, Helper.sdk, new U64(1));
+        await BlockModel.createBlock(block, Helper.source, new U64(1));
     });
 
     it.skip("TransferAsset - Nonexistent outPoint index", async function() {
@@ -122,6 +122,6 @@ describe("transfer-asset", function() {
         const { block } = await Helper.sendTransactionAndGetBlock(
             transferAsset
         );
-        await BlockModel.createBlock(block, Helper.sdk, new U64(1));
+        await BlockModel.createBlock(block, Helper.source, new U64(1));
     });
 });
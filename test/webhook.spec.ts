@@ -0,0 +1,259 @@
+import * as chai from "chai";
+import * as chaiAsPromised from "chai-as-promised";
+import { H256 } from "codechain-primitives/lib";
+import { Block } from "codechain-sdk/lib/core/classes";
+import * as http from "http";
+import "mocha";
+import { AddressInfo } from "net";
+import * as sinon from "sinon";
+import models from "../src/models";
+import * as BlockModel from "../src/models/logic/block";
+import * as WebhookModel from "../src/models/logic/webhook";
+import { signDelivery, WebhookDispatcher } from "../src/webhook";
+import * as LogUtil from "../src/worker/log";
+import * as Helper from "./helper";
+
+chai.use(chaiAsPromised);
+const expect = chai.expect;
+
+interface ReceivedRequest {
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+describe("webhook", function() {
+    const received: ReceivedRequest[] = [];
+    let status = 200;
+    let server: http.Server;
+    let subscriptionId: string;
+    const secret = "0123456789abcdef";
+    const dispatcher = new WebhookDispatcher({
+        enabled: true,
+        dispatchSchedule: "* * * * * *",
+        batchSize: 10,
+        timeout: 5,
+        maxAttempts: 2,
+        retryDelay: 0,
+        maxRetryDelay: 0
+    });
+
+    before(async function() {
+        await Helper.resetDb();
+        server = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", chunk => (body += chunk));
+            req.on("end", () => {
+                received.push({ headers: req.headers, body });
+                res.writeHead(status);
+                res.end();
+            });
+        });
+        await new Promise(resolve => server.listen(0, resolve));
+        const { port } = server.address() as AddressInfo;
+
+        subscriptionId = (await WebhookModel.createSubscription({
+            url: `http://127.0.0.1:${port}/hook`,
+            secret,
+            address: Helper.ACCOUNT_ADDRESS,
+            transactionTypes: ["pay"]
+        })).get("id")!;
+        await Helper.runExample("import-test-account");
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+    });
+
+    after(function() {
+        server.close();
+    });
+
+    it("queues the matching transactions of the indexed blocks", async function() {
+        const deliveries = await models.WebhookDelivery.findAll({
+            where: { subscriptionId }
+        });
+        expect(deliveries).not.empty;
+        for (const delivery of deliveries) {
+            const { event, data } = delivery.get({ plain: true });
+            expect(event).equal("transaction");
+            expect(data).include({ type: "pay" });
+        }
+    });
+
+    it("posts the deliveries with the signature", async function() {
+        await dispatcher.dispatch();
+        expect(received).not.empty;
+        for (const { headers, body } of received) {
+            const timestamp = parseInt(
+                headers["x-webhook-timestamp"] as string,
+                10
+            );
+            expect(headers["x-webhook-signature"]).equal(
+                signDelivery(secret, timestamp, body)
+            );
+            expect(JSON.parse(body).event).equal("transaction");
+        }
+        const pending = await models.WebhookDelivery.count({
+            where: { status: "pending" }
+        });
+        expect(pending).equal(0);
+    });
+
+    it("retries a failed delivery until maxAttempts", async function() {
+        const block = (await BlockModel.getLatestBlock())!.get({ plain: true });
+        const delivery = await models.WebhookDelivery.create({
+            subscriptionId,
+            event: "transaction",
+            blockNumber: block.number,
+            blockHash: block.hash,
+            data: {},
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: new Date(),
+            retracted: false
+        });
+        status = 500;
+        try {
+            await dispatcher.dispatch();
+            await delivery.reload();
+            expect(delivery.get("status")).equal("pending");
+            expect(delivery.get("attempts")).equal(1);
+            expect(delivery.get("lastError")).contain("500");
+
+            await dispatcher.dispatch();
+            await delivery.reload();
+            expect(delivery.get("status")).equal("failed");
+            expect(delivery.get("attempts")).equal(2);
+        } finally {
+            status = 200;
+        }
+    });
+
+    it("queues the retractions of the delivered events of a retracted block", async function() {
+        const block = (await BlockModel.getLatestBlock())!.get({ plain: true });
+        const where = { blockNumber: block.number, blockHash: block.hash };
+        const delivered = await models.WebhookDelivery.count({
+            where: { ...where, status: "delivered" }
+        });
+        expect(delivered).above(0);
+        const pending = {
+            subscriptionId,
+            event: "transaction" as "transaction",
+            ...where,
+            data: {},
+            status: "pending" as "pending",
+            nextAttemptAt: new Date(),
+            retracted: false
+        };
+        const notAttempted = await models.WebhookDelivery.create({
+            ...pending,
+            attempts: 0
+        });
+        // Failed once and waits for the retry
+        const retried = await models.WebhookDelivery.create({
+            ...pending,
+            attempts: 1
+        });
+
+        await WebhookModel.retractDeliveries(block);
+        // Retracting again queues nothing
+        await WebhookModel.retractDeliveries(block);
+
+        const retractions = await models.WebhookDelivery.findAll({
+            where: { ...where, event: "retraction" }
+        });
+        // The failed and the retried ones are retracted too since they may
+        // have been received.
+        expect(retractions).length(delivered + 2);
+        expect(
+            retractions.map(r => (r.get("data") as any).deliveryId)
+        ).not.include(notAttempted.get("id"));
+        await notAttempted.reload();
+        expect(notAttempted.get("status")).equal("cancelled");
+        await retried.reload();
+        expect(retried.get("status")).equal("cancelled");
+
+        received.length = 0;
+        await dispatcher.dispatch();
+        expect(received.map(({ body }) => JSON.parse(body).event)).deep.equal(
+            retractions.map(() => "retraction")
+        );
+    });
+
+    it("keeps a cancelled delivery cancelled after its post", async function() {
+        const block = (await BlockModel.getLatestBlock())!.get({ plain: true });
+        const delivery = await models.WebhookDelivery.create({
+            subscriptionId,
+            event: "transaction",
+            blockNumber: block.number,
+            blockHash: block.hash,
+            data: {},
+            status: "cancelled",
+            attempts: 1,
+            nextAttemptAt: new Date(),
+            retracted: true
+        });
+        await WebhookModel.markDelivered(delivery.get("id")!);
+        await WebhookModel.markFailed(delivery.get("id")!, "500", 0);
+        await delivery.reload();
+        expect(delivery.get("status")).equal("cancelled");
+    });
+
+    it("retracts the deliveries with the deletion of the block", async function() {
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+        const latestBlock = (await Helper.sdk.rpc.chain.getBlock(
+            (await BlockModel.getLatestBlock())!.get("number")
+        ))!;
+        const where = {
+            blockNumber: latestBlock.number,
+            blockHash: latestBlock.hash.value
+        };
+        const pendingCount = () =>
+            models.WebhookDelivery.count({
+                where: { ...where, status: "pending" }
+            });
+        expect(await pendingCount()).above(0);
+
+        await Helper.runExample("send-signed-tx");
+        const nextBlock = (await Helper.sdk.rpc.chain.getBlock(
+            latestBlock.number + 1
+        ))!;
+        const forkedHash = new H256(
+            "0000000000000000000000000000000000000000000000000000000000000001"
+        );
+        const getBlockStub = sinon.stub(Helper.source, "getBlock");
+        getBlockStub
+            .withArgs(latestBlock.number)
+            .resolves(new Block({ ...latestBlock, hash: forkedHash }));
+        getBlockStub
+            .withArgs(nextBlock.number)
+            .resolves(new Block({ ...nextBlock, parentHash: forkedHash }));
+        getBlockStub.callThrough();
+        try {
+            // Fails after the deliveries are retracted
+            const indexLogStub = sinon
+                .stub(LogUtil, "indexLog")
+                .rejects(Error("indexLog failed"));
+            try {
+                await expect(Helper.worker.sync()).rejectedWith(
+                    "indexLog failed"
+                );
+            } finally {
+                indexLogStub.restore();
+            }
+            expect(
+                (await BlockModel.getByNumber(latestBlock.number))!.get("hash")
+            ).equal(latestBlock.hash.value);
+            expect(await pendingCount()).above(0);
+
+            await Helper.worker.sync();
+        } finally {
+            getBlockStub.restore();
+        }
+        expect(await pendingCount()).equal(0);
+        expect(
+            await models.WebhookDelivery.count({
+                where: { ...where, status: "cancelled" }
+            })
+        ).above(0);
+    });
+});
@@ -1,10 +1,16 @@
 import * as chai from "chai";
 import * as chaiAsPromised from "chai-as-promised";
-import { Pay } from "codechain-sdk/lib/core/classes";
+import { H256 } from "codechain-primitives/lib";
+import { Block, Pay } from "codechain-sdk/lib/core/classes";
 import "mocha";
 import * as sinon from "sinon";
+import { IndexerConfig } from "../src/config";
+import models from "../src/models";
 import * as AccountModel from "../src/models/logic/account";
 import * as BlockModel from "../src/models/logic/block";
+import { WORKER_LEASE_NAME } from "../src/models/logic/workerLease";
+import { NullNotifier } from "../src/notifier";
+import Worker from "../src/worker";
 import * as Helper from "./helper";
 
 chai.use(chaiAsPromised);
@@ -78,13 +84,10 @@ describe("worker", function() {
         await Helper.worker.sync();
 
         const getBalanceStub = sinon.stub(
-            Helper.worker.context.sdk.rpc.chain,
+            Helper.source.sdk.rpc.chain,
             "getBalance"
         );
-        const getSeqStub = sinon.stub(
-            Helper.worker.context.sdk.rpc.chain,
-            "getSeq"
-        );
+        const getSeqStub = sinon.stub(Helper.source.sdk.rpc.chain, "getSeq");
 
         getBalanceStub.rejects(Error("ECONNREFUSED"));
         getSeqStub.rejects(Error("ECONNREFUSED"));
@@ -107,7 +110,7 @@ describe("worker", function() {
         await Helper.worker.sync();
 
         const sendRpcRequestStub = sinon.stub(
-            Helper.worker.context.sdk.rpc,
+            Helper.source.sdk.rpc,
             "sendRpcRequest"
         );
 
@@ -125,7 +128,7 @@ describe("worker", function() {
         await Helper.worker.sync();
 
         const getBestBlockNumberStub = sinon.stub(
-            Helper.worker.context.sdk.rpc.chain,
+            Helper.source.sdk.rpc.chain,
             "getBestBlockNumber"
         );
         getBestBlockNumberStub.rejects(Error("ECONNREFUSED"));
@@ -139,7 +142,7 @@ describe("worker", function() {
         await Helper.worker.sync();
 
         const getBlockStub = sinon.stub(
-            Helper.worker.context.sdk.rpc.chain,
+            Helper.source.sdk.rpc.chain,
             "getBlock"
         );
 
@@ -149,4 +152,133 @@ describe("worker", function() {
         await expect(Helper.worker.sync()).to.be.rejected;
         getBlockStub.restore();
     });
+
+    it("worker/index does not retract final blocks", async function() {
+        await Helper.worker.sync();
+        const options = require("config") as IndexerConfig;
+        const worker = new Worker(
+            { source: Helper.source, notifier: new NullNotifier() },
+            { ...options.worker, finalityDepth: 0 }
+        );
+
+        const latestBlock = (await Helper.sdk.rpc.chain.getBlock(
+            (await BlockModel.getLatestBlock())!.get("number")
+        ))!;
+        await Helper.runExample("send-signed-tx");
+        const nextBlock = (await Helper.sdk.rpc.chain.getBlock(
+            latestBlock.number + 1
+        ))!;
+        const forkedHash = new H256(
+            "0000000000000000000000000000000000000000000000000000000000000001"
+        );
+        const getBlockStub = sinon.stub(Helper.source, "getBlock");
+        getBlockStub
+            .withArgs(latestBlock.number)
+            .resolves(new Block({ ...latestBlock, hash: forkedHash }));
+        getBlockStub
+            .withArgs(nextBlock.number)
+            .resolves(new Block({ ...nextBlock, parentHash: forkedHash }));
+        getBlockStub.callThrough();
+
+        await expect(worker.sync()).to.be.rejectedWith("RetractFinalBlock");
+        getBlockStub.restore();
+
+        const latestBlockInst = await BlockModel.getLatestBlock();
+        expect(latestBlockInst!.get("hash")).equal(latestBlock.hash.value);
+    });
+
+    it("worker/index journals a reorg with the deletions", async function() {
+        await Helper.worker.sync();
+        const latestBlock = (await Helper.sdk.rpc.chain.getBlock(
+            (await BlockModel.getLatestBlock())!.get("number")
+        ))!;
+        await Helper.runExample("send-signed-tx");
+        const nextBlock = (await Helper.sdk.rpc.chain.getBlock(
+            latestBlock.number + 1
+        ))!;
+        const forkedHash = new H256(
+            "0000000000000000000000000000000000000000000000000000000000000001"
+        );
+        const getBlockStub = sinon.stub(Helper.source, "getBlock");
+        getBlockStub
+            .withArgs(latestBlock.number)
+            .resolves(new Block({ ...latestBlock, hash: forkedHash }));
+        getBlockStub
+            .withArgs(nextBlock.number)
+            .resolves(new Block({ ...nextBlock, parentHash: forkedHash }));
+        getBlockStub.callThrough();
+        const reorgCount = await models.Reorg.count();
+        try {
+            const deleteStub = sinon
+                .stub(BlockModel, "deleteBlockByNumber")
+                .rejects(Error("deletion failed"));
+            try {
+                await expect(Helper.worker.sync()).to.be.rejectedWith(
+                    "deletion failed"
+                );
+            } finally {
+                deleteStub.restore();
+            }
+            expect(await models.Reorg.count()).equal(reorgCount);
+
+            await Helper.worker.sync();
+        } finally {
+            getBlockStub.restore();
+        }
+        const reorgs = await models.Reorg.findAll({ order: [["id", "ASC"]] });
+        expect(reorgs).length(reorgCount + 1);
+        expect(reorgs[reorgCount].get({ plain: true })).include({
+            forkBlockNumber: latestBlock.number - 1,
+            depth: 1
+        });
+    });
+
+    it("worker/index does not sync after destroy", async function() {
+        await Helper.worker.sync();
+        const options = require("config") as IndexerConfig;
+        const worker = new Worker(
+            { source: Helper.source, notifier: new NullNotifier() },
+            options.worker
+        );
+        const latestBlockNumber = (await BlockModel.getLatestBlock())!.get(
+            "number"
+        );
+
+        await Helper.runExample("send-signed-tx");
+        await worker.destroy();
+        await worker.sync();
+
+        const latestBlockInst = await BlockModel.getLatestBlock();
+        expect(latestBlockInst!.get("number")).equal(latestBlockNumber);
+    });
+
+    it("worker/index stands by while another worker holds the lease", async function() {
+        await Helper.worker.sync();
+        const latestBlockNumber = (await BlockModel.getLatestBlock())!.get(
+            "number"
+        );
+        await models.WorkerLease.upsert({
+            name: WORKER_LEASE_NAME,
+            holder: "another-worker:1",
+            expiresAt: new Date(Date.now() + 60 * 1000)
+        });
+
+        await Helper.runExample("send-signed-tx");
+        await Helper.worker.sync();
+        expect((await BlockModel.getLatestBlock())!.get("number")).equal(
+            latestBlockNumber
+        );
+
+        // Takes over the expired lease
+        await models.WorkerLease.update(
+            { expiresAt: new Date(Date.now() - 1000) },
+            { where: { name: WORKER_LEASE_NAME } }
+        );
+        await Helper.worker.sync();
+        expect((await BlockModel.getLatestBlock())!.get("number")).above(
+            latestBlockNumber
+        );
+        const leaseInst = await models.WorkerLease.findByPk(WORKER_LEASE_NAME);
+        expect(leaseInst!.get("holder")).not.equal("another-worker:1");
+    });
 });
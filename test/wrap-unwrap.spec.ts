@@ -11,7 +11,7 @@ async function check(blockResponse: Block, type: string) {
 
     const blockInst = await BlockModel.createBlock(
         blockResponse,
-        Helper.sdk,
+        Helper.source,
         new U64("1000")
     );
     const blockDoc = blockInst.get({ plain: true });
@@ -55,7 +55,7 @@ describe("wrap-unwrap", function() {
         try {
             await BlockModel.createBlock(
                 unwrapBlock,
-                Helper.sdk,
+                Helper.source,
                 new U64("1000")
             );
             expect.fail();